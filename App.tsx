@@ -1,349 +1,868 @@
-import React, { useState, useCallback, useMemo } from 'react';
-import type { AnalyzedEmployee, RankedEmployee, TaskAssignment } from './types';
-import { analyzeResumeFromPdfImages, rankEmployees, distributeTasks } from './services/geminiService';
-import { UserPlusIcon, BrainCircuitIcon, ClipboardListIcon, WandIcon, DocumentArrowUpIcon, SparklesIcon } from './components/icons';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
+import type { AnalyzedEmployee, DayPlanRecord, Invalidation, JobProfile, LlmSettings, ProposedReassignment, RankedEmployee, RankingRun, RedactionLog, RedactionPolicy, RosterChatMessage, SkillDefinition, Task, TaskAssignment, TaskTemplate, Workspace } from './types';
+import { analyzeResume, rankEmployees, inferTaskSkills, type RosterSnapshot } from './services/aiService';
+import { LLM_ERROR_TITLES, LlmError } from './services/llm/errors';
+import { getAccessToken, getLlmSettings, saveAccessToken, saveLlmSettings, PROVIDER_LABELS } from './services/settingsService';
+import { loadWorkspace, saveWorkspace, pullWorkspace, exportWorkspace, importWorkspace, createEmptyWorkspace, WORKSPACE_VERSION, WorkspaceConflictError, WorkspaceOutdatedError, saveResumeFile, loadResumeFile, listResumeFileIds, deleteResumeFiles } from './services/storageService';
+import { BrainCircuitIcon, CogIcon, ArrowDownTrayIcon, ArrowUpTrayIcon, TagIcon, ShieldCheckIcon, ChatBubbleIcon, ChartBarIcon } from './components/icons';
+import SettingsPanel from './components/SettingsPanel';
+import ResumeQueuePanel from './components/ResumeQueuePanel';
+import JobProfilePanel from './components/JobProfilePanel';
+import EmployeeDetailModal from './components/EmployeeDetailModal';
+import SkillTaxonomyPanel from './components/SkillTaxonomyPanel';
+import TaskPanel from './components/TaskPanel';
+import EmployeeList from './components/EmployeeList';
+import ComparisonPanel, { MAX_COMPARED_EMPLOYEES } from './components/ComparisonPanel';
+import RankingHistoryPanel from './components/RankingHistoryPanel';
+import BiasAuditPanel from './components/BiasAuditPanel';
+import PrivacyPanel from './components/PrivacyPanel';
+import DailyPlanningPanel from './components/DailyPlanningPanel';
+import DuplicateReviewPanel from './components/DuplicateReviewPanel';
+import RosterChatPanel from './components/RosterChatPanel';
+import TeamCoveragePanel from './components/TeamCoveragePanel';
+import { affectsAssignments, affectsRanking, applyReanalysis, recordManualEdits } from './services/employeeService';
+import { runBiasAudit, type BiasAuditReport } from './services/biasAuditService';
+import { duplicatePairKey, findDuplicates } from './services/duplicateDetectionService';
+import {
+    appendInvalidations,
+    assignmentInvalidations,
+    createInvalidation,
+    invalidateRankings,
+    rankingInvalidations,
+    resolveAssignmentInvalidations,
+    resolveRankingInvalidations,
+} from './services/invalidationService';
+import { createRedactionLog, MAX_REDACTION_LOGS, restoreRedactedContact } from './services/redactionService';
+import { buildAssignmentReport, buildRankingReport, exportDayCalendar, exportReport, type ReportFormat } from './services/reportExportService';
+import { extractResumeContent } from './services/resumeExtractionService';
+import type { RankingProgress } from './services/rankingCalibrationService';
+import { appendRankingRun, findRankDrift, runsForProfile } from './services/rankingHistoryService';
+import { assignTasks, fromIsoDate, moveTask, reassignAll, toIsoDate, togglePin, validateAssignments } from './services/taskAssignmentService';
+import { createTemplate, instantiateTemplate, startNextDay, todayIsoDate } from './services/dailyPlanService';
+import { fairnessAdjustments, summarizeWorkload } from './services/workloadFairnessService';
+import { buildSkillIndex, canonicalizeSkills, findUnrecognizedSkills, normalizeEmployeeSkills } from './services/skillTaxonomyService';
 
 // --- Helper Components defined outside App ---
 
-const Header: React.FC = () => (
+interface HeaderProps {
+    providerLabel: string;
+    unrecognizedSkillCount: number;
+    onOpenChat: () => void;
+    onOpenCoverage: () => void;
+    onOpenSettings: () => void;
+    onOpenTaxonomy: () => void;
+    onOpenPrivacy: () => void;
+    onExportWorkspace: () => void;
+    onImportWorkspace: (file: File) => void;
+}
+
+const headerButtonClassName = "flex items-center gap-2 text-sm text-slate-300 hover:text-white bg-slate-800/60 border border-slate-700 hover:border-violet-500 rounded-md py-2 px-3 transition cursor-pointer";
+
+const Header: React.FC<HeaderProps> = ({ providerLabel, unrecognizedSkillCount, onOpenChat, onOpenCoverage, onOpenSettings, onOpenTaxonomy, onOpenPrivacy, onExportWorkspace, onImportWorkspace }) => (
     <header className="bg-slate-900/50 backdrop-blur-lg p-4 sticky top-0 z-10 border-b border-slate-700/50 shadow-lg">
         <div className="container mx-auto flex items-center justify-between">
             <div className="flex items-center gap-3">
                 <BrainCircuitIcon className="w-8 h-8 text-violet-400" />
                 <h1 className="text-2xl font-bold text-white tracking-wider" style={{ textShadow: '0 0 8px rgba(167, 139, 250, 0.5)' }}>AI Employee Sorter</h1>
             </div>
+            <div className="flex items-center gap-2">
+                <button onClick={onOpenChat} className={headerButtonClassName} title="Ask questions about the team">
+                    <ChatBubbleIcon className="w-5 h-5" />
+                    <span className="hidden sm:inline">Ask</span>
+                </button>
+                <button onClick={onOpenCoverage} className={headerButtonClassName} title="Team skill coverage and gaps">
+                    <ChartBarIcon className="w-5 h-5" />
+                    <span className="hidden sm:inline">Team</span>
+                </button>
+                <button onClick={onOpenTaxonomy} className={headerButtonClassName} title="Skill taxonomy">
+                    <TagIcon className="w-5 h-5" />
+                    <span className="hidden sm:inline">Skills</span>
+                    {unrecognizedSkillCount > 0 && (
+                        <span className="bg-amber-500/20 text-amber-300 text-xs font-medium px-1.5 rounded" title="Skills needing curation">{unrecognizedSkillCount}</span>
+                    )}
+                </button>
+                <button onClick={onOpenPrivacy} className={headerButtonClassName} title="Redaction policy and log">
+                    <ShieldCheckIcon className="w-5 h-5" />
+                    <span className="hidden sm:inline">Privacy</span>
+                </button>
+                <button onClick={onExportWorkspace} className={headerButtonClassName} title="Export workspace as JSON">
+                    <ArrowDownTrayIcon className="w-5 h-5" />
+                    <span className="hidden sm:inline">Export</span>
+                </button>
+                <label className={headerButtonClassName} title="Import workspace from JSON">
+                    <ArrowUpTrayIcon className="w-5 h-5" />
+                    <span className="hidden sm:inline">Import</span>
+                    <input
+                        type="file"
+                        accept=".json,application/json"
+                        className="hidden"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) onImportWorkspace(file);
+                            e.target.value = '';
+                        }}
+                    />
+                </label>
+                <button onClick={onOpenSettings} className={headerButtonClassName} title="AI provider settings">
+                    <CogIcon className="w-5 h-5" />
+                    {providerLabel}
+                </button>
+            </div>
         </div>
     </header>
 );
 
-const processPdfToImages = async (file: File): Promise<{ mimeType: string, data: string }[]> => {
-    if (!window.pdfjsLib) {
-        throw new Error("PDF processing library is not loaded. Please wait a moment and try again.");
-    }
-    window.pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@2.16.102/build/pdf.worker.min.js`;
-
-    const fileReader = new FileReader();
-    return new Promise((resolve, reject) => {
-        fileReader.onload = async (event) => {
-            try {
-                if (!event.target?.result) return reject(new Error("Failed to read file"));
-                
-                const typedarray = new Uint8Array(event.target.result as ArrayBuffer);
-                const pdf = await window.pdfjsLib.getDocument(typedarray).promise;
-                const images: { mimeType: string, data: string }[] = [];
-                
-                for (let i = 1; i <= pdf.numPages; i++) {
-                    const page = await pdf.getPage(i);
-                    const viewport = page.getViewport({ scale: 1.5 });
-                    const canvas = document.createElement('canvas');
-                    const context = canvas.getContext('2d');
-                    canvas.height = viewport.height;
-                    canvas.width = viewport.width;
-
-                    if (!context) {
-                        throw new Error('Could not get canvas context');
-                    }
-
-                    await page.render({ canvasContext: context, viewport: viewport }).promise;
-                    
-                    const base64Data = canvas.toDataURL('image/jpeg').split(',')[1];
-                    images.push({ mimeType: 'image/jpeg', data: base64Data });
-                }
-                resolve(images);
-            } catch (error) {
-                console.error("Error processing PDF:", error);
-                if (error && typeof error === 'object' && 'name' in error && error.name === 'PasswordException') {
-                    reject(new Error("The PDF file is password-protected. Please provide a decrypted file."));
-                } else {
-                    reject(new Error("Failed to process the PDF file. It might be corrupted or in an unsupported format."));
-                }
-            }
-        };
-        fileReader.onerror = () => reject(new Error("An error occurred while reading the file."));
-        fileReader.readAsArrayBuffer(file);
-    });
-};
-
-interface EmployeeFormProps {
-    onAddEmployee: (employee: AnalyzedEmployee) => void;
-    onError: (message: string) => void;
+interface ErrorBanner {
+    title: string;
+    message: string;
 }
 
-const EmployeeForm: React.FC<EmployeeFormProps> = ({ onAddEmployee, onError }) => {
-    const [name, setName] = useState('');
-    const [resumeFile, setResumeFile] = useState<File | null>(null);
-    const [isAnalyzing, setIsAnalyzing] = useState(false);
-
-    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        if (e.target.files && e.target.files[0]) {
-            if(e.target.files[0].type === 'application/pdf') {
-                setResumeFile(e.target.files[0]);
-                 onError('');
-            } else {
-                onError("Please upload a valid PDF file.");
-                setResumeFile(null);
-                e.target.value = '';
-            }
-        }
-    };
+// Model failures carry a kind, so the banner can say whether to fix settings, wait or retry.
+const describeError = (err: unknown, fallback: string): ErrorBanner => ({
+    title: err instanceof LlmError ? LLM_ERROR_TITLES[err.kind] : 'Error',
+    message: err instanceof Error ? err.message : fallback,
+});
 
-    const handleSubmit = async (e: React.FormEvent) => {
-        e.preventDefault();
-        if (name.trim() && resumeFile) {
-            setIsAnalyzing(true);
-            onError('');
-            try {
-                const pdfImages = await processPdfToImages(resumeFile);
-                const analysisResult = await analyzeResumeFromPdfImages(pdfImages);
-                onAddEmployee({
-                    id: crypto.randomUUID(),
-                    name,
-                    ...analysisResult,
-                });
-                setName('');
-                setResumeFile(null);
-                const fileInput = document.getElementById('resume-upload') as HTMLInputElement;
-                if (fileInput) fileInput.value = '';
-            } catch (err) {
-                console.error(err);
-                onError(err instanceof Error ? err.message : "Failed to analyze resume.");
-            } finally {
-                setIsAnalyzing(false);
-            }
-        }
-    };
+// Edits arrive a keystroke at a time; the shared workspace is saved once they pause.
+const SAVE_DELAY_MS = 500;
 
-    return (
-        <div className="panel-3d aurora-border p-6 rounded-xl">
-            <h2 className="text-xl font-semibold mb-4 flex items-center gap-2 text-violet-300">
-                <UserPlusIcon className="w-6 h-6" />
-                Add New Employee
-            </h2>
-            <form onSubmit={handleSubmit} className="space-y-4">
-                <input
-                    type="text"
-                    value={name}
-                    onChange={(e) => setName(e.target.value)}
-                    placeholder="Employee Name"
-                    className="w-full bg-slate-900/50 border border-slate-700 rounded-md p-3 focus:ring-2 focus:ring-violet-500 focus:border-violet-500 outline-none transition placeholder-slate-400"
-                    disabled={isAnalyzing}
-                />
-                
-                <label htmlFor="resume-upload" className="cursor-pointer w-full flex items-center justify-center gap-3 bg-slate-900/50 border border-slate-700 rounded-md p-3 text-slate-400 hover:border-violet-500 hover:text-slate-200 transition">
-                    <DocumentArrowUpIcon className="w-6 h-6" />
-                    <span>{resumeFile ? resumeFile.name : 'Upload Resume (PDF)'}</span>
-                </label>
-                <input
-                    id="resume-upload"
-                    type="file"
-                    accept=".pdf"
-                    onChange={handleFileChange}
-                    className="hidden"
-                    disabled={isAnalyzing}
-                />
+// How often other managers' saves are looked for.
+const SYNC_INTERVAL_MS = 10_000;
 
-                <button
-                    type="submit"
-                    className="w-full flex justify-center items-center gap-2 bg-gradient-to-r from-violet-600 to-indigo-600 hover:from-violet-700 hover:to-indigo-700 text-white font-bold py-3 px-4 rounded-md transition duration-300 ease-in-out disabled:from-slate-600 disabled:to-slate-700 disabled:cursor-not-allowed disabled:opacity-50 shadow-lg hover:shadow-violet-500/30 active:scale-[0.98]"
-                    disabled={!name.trim() || !resumeFile || isAnalyzing}
-                >
-                    {isAnalyzing ? (
-                        <>
-                            <SparklesIcon className="w-5 h-5 animate-pulse" />
-                            Analyzing Resume...
-                        </>
-                    ) : (
-                        'Add & Analyze Employee'
-                    )}
-                </button>
-            </form>
-        </div>
+// --- Main App Component ---
+
+const App: React.FC = () => {
+    const [employees, setEmployees] = useState<AnalyzedEmployee[]>([]);
+    const [jobProfiles, setJobProfiles] = useState<JobProfile[]>(() => createEmptyWorkspace().jobProfiles);
+    const [activeProfileId, setActiveProfileId] = useState(() => createEmptyWorkspace().activeProfileId);
+    const [rankings, setRankings] = useState<Record<string, RankedEmployee[]>>({});
+    const [rankingHistory, setRankingHistory] = useState<RankingRun[]>([]);
+    const [blindRanking, setBlindRanking] = useState(false);
+    const [redactionPolicy, setRedactionPolicy] = useState<RedactionPolicy>(() => createEmptyWorkspace().redactionPolicy);
+    const [redactionLogs, setRedactionLogs] = useState<RedactionLog[]>([]);
+    const [tasks, setTasks] = useState<Task[]>([]);
+    const [assignments, setAssignments] = useState<TaskAssignment[]>([]);
+    const [planDate, setPlanDate] = useState(() => createEmptyWorkspace().planDate);
+    const [taskTemplates, setTaskTemplates] = useState<TaskTemplate[]>([]);
+    const [planHistory, setPlanHistory] = useState<DayPlanRecord[]>([]);
+    const [fairnessWindowDays, setFairnessWindowDays] = useState(() => createEmptyWorkspace().fairnessWindowDays);
+    const [invalidations, setInvalidations] = useState<Invalidation[]>([]);
+    const [skillTaxonomy, setSkillTaxonomy] = useState<SkillDefinition[]>(() => createEmptyWorkspace().skillTaxonomy);
+    const [dismissedDuplicates, setDismissedDuplicates] = useState<string[]>([]);
+    const [isRanking, setIsRanking] = useState(false);
+    const [rankingProgress, setRankingProgress] = useState<RankingProgress | null>(null);
+    const [isDistributing, setIsDistributing] = useState(false);
+    const [error, setError] = useState<ErrorBanner | null>(null);
+    const [llmSettings, setLlmSettings] = useState<LlmSettings>(getLlmSettings);
+    const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+    const [isWorkspaceLoaded, setIsWorkspaceLoaded] = useState(false);
+    // Set when someone else changed what this copy changed; saving stops until the shared copy is reloaded.
+    const [syncConflict, setSyncConflict] = useState<string | null>(null);
+    const [selectedEmployeeId, setSelectedEmployeeId] = useState<string | null>(null);
+    const [isTaxonomyOpen, setIsTaxonomyOpen] = useState(false);
+    const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+    const [isAuditOpen, setIsAuditOpen] = useState(false);
+    const [isPrivacyOpen, setIsPrivacyOpen] = useState(false);
+    const [isPlanningOpen, setIsPlanningOpen] = useState(false);
+    const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false);
+    const [isChatOpen, setIsChatOpen] = useState(false);
+    const [isCoverageOpen, setIsCoverageOpen] = useState(false);
+    // Kept for the session only; the shared workspace does not store anyone's conversation.
+    const [chatMessages, setChatMessages] = useState<RosterChatMessage[]>([]);
+    const [compareIds, setCompareIds] = useState<string[] | null>(null);
+    const [resumeFileIds, setResumeFileIds] = useState<Set<string>>(new Set());
+    const [reanalyzingIds, setReanalyzingIds] = useState<Set<string>>(new Set());
+    const [isAuditing, setIsAuditing] = useState(false);
+    const [auditReport, setAuditReport] = useState<BiasAuditReport | null>(null);
+
+    const addedOrder = useMemo(() => new Map(employees.map((emp, index) => [emp.id, index])), [employees]);
+    const skillIndex = useMemo(() => buildSkillIndex(skillTaxonomy), [skillTaxonomy]);
+    const unrecognizedSkills = useMemo(() => findUnrecognizedSkills(employees, skillIndex), [employees, skillIndex]);
+
+    const activeProfile = jobProfiles.find(profile => profile.id === activeProfileId) ?? jobProfiles[0];
+    const employeesById = useMemo(() => new Map(employees.map(emp => [emp.id, emp])), [employees]);
+    // Scores come from the last ranking run; everything else reflects the current employee data.
+    const rankedEmployees = useMemo(() => (rankings[activeProfile.id] ?? []).flatMap(ranked => {
+        const current = employeesById.get(ranked.id);
+        return current ? [{ ...ranked, ...current }] : [];
+    }), [rankings, activeProfile.id, employeesById]);
+    const isRanked = rankedEmployees.length > 0;
+    // Tasks can be moved onto, and stay pinned with, people the active ranking does not include.
+    const unrankedAssignees = useMemo(() => {
+        const ranked = new Set(rankedEmployees.map(emp => emp.id));
+        return assignments
+            .filter(assignment => !ranked.has(assignment.employeeId))
+            .map(assignment => employeesById.get(assignment.employeeId))
+            .filter((emp): emp is AnalyzedEmployee => Boolean(emp));
+    }, [assignments, rankedEmployees, employeesById]);
+    const profileRuns = useMemo(() => runsForProfile(rankingHistory, activeProfile.id), [rankingHistory, activeProfile.id]);
+    const driftingIds = useMemo(() => new Set(findRankDrift(profileRuns).map(drift => drift.employeeId)), [profileRuns]);
+    const workload = useMemo(
+        () => summarizeWorkload(planHistory, employees, planDate, fairnessWindowDays),
+        [planHistory, employees, planDate, fairnessWindowDays],
     );
-};
+    const fairness = useMemo(() => fairnessAdjustments(workload), [workload]);
+    const rosterSnapshot = useMemo<RosterSnapshot>(() => ({
+        employees,
+        ranking: isRanked
+            ? { profile: activeProfile, results: rankedEmployees.map(({ id, rank, justification }) => ({ id, rank, justification })) }
+            : null,
+        tasks,
+        assignments,
+    }), [employees, isRanked, activeProfile, rankedEmployees, tasks, assignments]);
+    const duplicates = useMemo(() => findDuplicates(employees, dismissedDuplicates), [employees, dismissedDuplicates]);
+    // Every resume file on the roster, including merged-in earlier versions, so re-uploads are caught at ingest.
+    const knownFileHashes = useMemo(() => new Map(employees.flatMap(emp => [
+        emp.provenance?.sourceFileHash,
+        ...(emp.resumeHistory ?? []).map(version => version.provenance?.sourceFileHash),
+    ].filter((hash): hash is string => !!hash).map(hash => [hash, emp.name] as const))), [employees]);
+    
+    const handleSetError = (message: string) => {
+        setError({ title: 'Error', message });
+        setTimeout(() => setError(null), 7000);
+    };
 
+    const applyWorkspace = (workspace: Workspace) => {
+        setEmployees(workspace.employees);
+        setJobProfiles(workspace.jobProfiles);
+        setActiveProfileId(workspace.activeProfileId);
+        setRankings(workspace.rankings);
+        setRankingHistory(workspace.rankingHistory);
+        setBlindRanking(workspace.blindRanking);
+        setRedactionPolicy(workspace.redactionPolicy);
+        setRedactionLogs(workspace.redactionLogs);
+        setTasks(workspace.tasks);
+        setAssignments(workspace.assignments);
+        setPlanDate(workspace.planDate);
+        setTaskTemplates(workspace.taskTemplates);
+        setPlanHistory(workspace.planHistory);
+        setFairnessWindowDays(workspace.fairnessWindowDays);
+        setInvalidations(workspace.invalidations);
+        setSkillTaxonomy(workspace.skillTaxonomy);
+        setDismissedDuplicates(workspace.dismissedDuplicates);
+    };
 
-interface EmployeeListProps {
-    employees: (AnalyzedEmployee | RankedEmployee)[];
-    onRank: () => void;
-    isRanking: boolean;
-    isRanked: boolean;
-}
+    // Until the shared workspace has loaded nothing is saved, so an unreachable server is never overwritten with empty state.
+    const loadSharedWorkspace = (reportErrors: boolean) => loadWorkspace()
+        .then(loaded => {
+            applyWorkspace(loaded);
+            setIsWorkspaceLoaded(true);
+            setSyncConflict(null);
+            // Listed after loading, which may have moved this browser's resume files to the server.
+            listResumeFileIds()
+                .then(ids => setResumeFileIds(new Set(ids)))
+                .catch(err => console.error("Error listing stored resumes:", err));
+        })
+        .catch(err => {
+            console.error("Error loading workspace:", err);
+            if (reportErrors) handleSetError(err instanceof Error ? err.message : "Failed to load the saved workspace.");
+        });
 
-const EmployeeList: React.FC<EmployeeListProps> = ({ employees, onRank, isRanking, isRanked }) => (
-    <div className="panel-3d aurora-border p-6 rounded-xl">
-        <div className="flex justify-between items-center mb-4">
-            <h2 className="text-xl font-semibold text-violet-300">Employee Roster</h2>
-            <button
-                onClick={onRank}
-                disabled={employees.length === 0 || isRanking}
-                className="flex items-center gap-2 bg-gradient-to-r from-violet-600 to-indigo-600 hover:from-violet-700 hover:to-indigo-700 text-white font-bold py-2 px-4 rounded-md transition duration-300 ease-in-out disabled:from-slate-600 disabled:to-slate-700 disabled:cursor-not-allowed disabled:opacity-50 shadow-lg hover:shadow-indigo-500/30 active:scale-[0.98]"
-            >
-                {isRanking ? 'Analyzing...' : (isRanked ? 'Re-Analyze Ranks' : 'Analyze & Rank All')}
-            </button>
-        </div>
-        <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-2 -mr-2">
-            {employees.length === 0 ? (
-                <p className="text-slate-400 text-center py-8">Add employees via PDF to get started.</p>
-            ) : (
-                employees.map((emp, index) => (
-                    <div key={emp.id} className="bg-slate-900/60 p-4 rounded-lg border border-slate-700/80 animate-fade-in transition-transform duration-300 hover:scale-[1.02] hover:border-violet-500/50" style={{ animationDelay: `${index * 70}ms` }}>
-                        <div className="flex justify-between items-start gap-4">
-                            <div className="flex-1">
-                                <div className="flex items-baseline gap-3 flex-wrap">
-                                    <h3 className="font-bold text-lg text-slate-100">{emp.name}</h3>
-                                    <span className="text-sm font-medium bg-slate-700 text-slate-300 px-2 py-0.5 rounded">{emp.experienceYears} yrs exp</span>
-                                </div>
-                                <p className="text-sm text-slate-400 mt-2 italic">
-                                    "{'rank' in emp ? (emp as RankedEmployee).justification : emp.summary}"
-                                </p>
-                                <div className="flex flex-wrap gap-2 mt-3">
-                                    {emp.skills.map(skill => (
-                                        <span key={skill} className="bg-violet-500/20 text-violet-300 text-xs font-medium px-2.5 py-1 rounded-full">{skill}</span>
-                                    ))}
-                                </div>
-                            </div>
-                            {'rank' in emp && (
-                                <div className="text-3xl font-bold text-violet-400 ml-4 whitespace-nowrap" style={{ textShadow: '0 0 10px rgba(167, 139, 250, 0.6)' }}>
-                                    #{(emp as RankedEmployee).rank}
-                                </div>
-                            )}
-                        </div>
-                    </div>
-                ))
-            )}
-        </div>
-    </div>
-);
+    useEffect(() => {
+        loadSharedWorkspace(true);
+    }, []);
 
+    const workspace = useMemo<Workspace>(() => ({
+        version: WORKSPACE_VERSION,
+        employees,
+        jobProfiles,
+        activeProfileId,
+        rankings,
+        rankingHistory,
+        blindRanking,
+        redactionPolicy,
+        redactionLogs,
+        tasks,
+        assignments,
+        planDate,
+        taskTemplates,
+        planHistory,
+        fairnessWindowDays,
+        invalidations,
+        skillTaxonomy,
+        dismissedDuplicates,
+    }), [employees, jobProfiles, activeProfileId, rankings, rankingHistory, blindRanking, redactionPolicy, redactionLogs, tasks, assignments, planDate, taskTemplates, planHistory, fairnessWindowDays, invalidations, skillTaxonomy, dismissedDuplicates]);
 
-interface TaskPanelProps {
-    rankedEmployees: RankedEmployee[];
-    onDistribute: (tasks: string) => void;
-    assignments: TaskAssignment[];
-    isDistributing: boolean;
-}
+    // Read when merging, so edits made while the server's copy was being fetched are kept.
+    const workspaceRef = useRef(workspace);
+    workspaceRef.current = workspace;
 
-const TaskPanel: React.FC<TaskPanelProps> = ({ rankedEmployees, onDistribute, assignments, isDistributing }) => {
-    const [tasks, setTasks] = useState('');
+    // Merges in what others saved; the merged result is then saved by the effect below.
+    const syncWorkspace = () => {
+        pullWorkspace(() => workspaceRef.current)
+            .then(merged => {
+                if (merged) applyWorkspace(merged);
+            })
+            .catch(err => {
+                if (err instanceof WorkspaceConflictError) {
+                    setSyncConflict(err.message);
+                } else {
+                    console.error("Error checking the shared workspace for changes:", err);
+                }
+            });
+    };
 
-    const employeeMap = useMemo(() => 
-        new Map(rankedEmployees.map(emp => [emp.id, emp.name])),
-        [rankedEmployees]
-    );
+    useEffect(() => {
+        if (!isWorkspaceLoaded || syncConflict) return;
+        const timer = setTimeout(() => saveWorkspace(workspace).catch(err => {
+            if (err instanceof WorkspaceOutdatedError) {
+                syncWorkspace();
+                return;
+            }
+            console.error("Error saving workspace:", err);
+            handleSetError(err instanceof Error ? err.message : "Failed to save the shared workspace.");
+        }), SAVE_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [workspace, isWorkspaceLoaded, syncConflict]);
 
-    const handleDistribute = () => {
-        if (tasks.trim()) {
-            onDistribute(tasks);
+    useEffect(() => {
+        if (syncConflict) return;
+        // A workspace that failed to load is retried quietly, e.g. until an access token is entered.
+        const timer = setInterval(() => isWorkspaceLoaded ? syncWorkspace() : loadSharedWorkspace(false), SYNC_INTERVAL_MS);
+        return () => clearInterval(timer);
+    }, [isWorkspaceLoaded, syncConflict]);
+
+    const handleImportWorkspace = async (file: File) => {
+        try {
+            applyWorkspace(await importWorkspace(file));
+            setError(null);
+        } catch (err) {
+            handleSetError(err instanceof Error ? err.message : "Failed to import the workspace.");
         }
     };
 
-    return (
-        <div className="panel-3d aurora-border p-6 rounded-xl">
-            <h2 className="text-xl font-semibold mb-4 flex items-center gap-2 text-teal-300">
-                <ClipboardListIcon className="w-6 h-6" />
-                Daily Task Distribution
-            </h2>
-            <textarea
-                value={tasks}
-                onChange={(e) => setTasks(e.target.value)}
-                placeholder="Enter daily tasks, one per line..."
-                rows={6}
-                className="w-full bg-slate-900/50 border border-slate-700 rounded-md p-3 focus:ring-2 focus:ring-teal-500 focus:border-teal-500 outline-none transition placeholder-slate-400"
-                disabled={rankedEmployees.length === 0}
-            />
-            <button
-                onClick={handleDistribute}
-                disabled={rankedEmployees.length === 0 || !tasks.trim() || isDistributing}
-                className="w-full mt-4 flex justify-center items-center gap-2 bg-gradient-to-r from-teal-600 to-green-600 hover:from-teal-700 hover:to-green-700 text-white font-bold py-3 px-4 rounded-md transition duration-300 ease-in-out disabled:from-slate-600 disabled:to-slate-700 disabled:cursor-not-allowed disabled:opacity-50 shadow-lg hover:shadow-teal-500/30 active:scale-[0.98]"
-            >
-                <WandIcon className="w-5 h-5"/>
-                {isDistributing ? 'Assigning...' : 'Distribute Tasks with AI'}
-            </button>
-            {assignments.length > 0 && (
-                <div className="mt-6">
-                    <h3 className="text-lg font-semibold mb-3 text-teal-300">Task Assignments</h3>
-                    <div className="space-y-3 max-h-[40vh] overflow-y-auto pr-2 -mr-2">
-                        {assignments.map((assignment, index) => (
-                             <div key={assignment.employeeId} className="bg-slate-900/60 p-4 rounded-lg border border-slate-700/80 animate-fade-in" style={{ animationDelay: `${index * 70}ms` }}>
-                                <h4 className="font-bold text-md text-teal-300">{employeeMap.get(assignment.employeeId) || 'Unknown Employee'}</h4>
-                                <ul className="list-disc list-inside mt-2 text-slate-300 space-y-1">
-                                    {assignment.tasks.map(task => <li key={task}>{task}</li>)}
-                                </ul>
-                            </div>
-                        ))}
-                    </div>
-                </div>
-            )}
-        </div>
-    );
-};
+    const handleSaveSettings = (settings: LlmSettings, accessToken: string) => {
+        saveLlmSettings(settings);
+        saveAccessToken(accessToken);
+        setLlmSettings(settings);
+        setIsSettingsOpen(false);
+        // The workspace may have been refused for want of the token.
+        if (!isWorkspaceLoaded) loadSharedWorkspace(true);
+    };
 
-// --- Main App Component ---
+    // Existing rankings stay as they are; the roster lists the new employee as not ranked yet.
+    const handleAddEmployee = useCallback((employee: AnalyzedEmployee, source: File) => {
+        setEmployees(prev => [...prev, normalizeEmployeeSkills(employee, skillIndex)]);
+        saveResumeFile(employee.id, source)
+            .then(() => setResumeFileIds(prev => new Set(prev).add(employee.id)))
+            .catch(err => console.error("Error storing resume file:", err));
+    }, [skillIndex]);
 
-const App: React.FC = () => {
-    const [employees, setEmployees] = useState<AnalyzedEmployee[]>([]);
-    const [rankedEmployees, setRankedEmployees] = useState<RankedEmployee[]>([]);
-    const [assignments, setAssignments] = useState<TaskAssignment[]>([]);
-    const [isRanking, setIsRanking] = useState(false);
-    const [isDistributing, setIsDistributing] = useState(false);
-    const [error, setError] = useState<string | null>(null);
+    const handleRedactionLogged = useCallback((log: RedactionLog) => {
+        setRedactionLogs(prev => [...prev, log].slice(-MAX_REDACTION_LOGS));
+    }, []);
 
-    const isRanked = rankedEmployees.length > 0;
-    
-    const handleSetError = (message: string) => {
-        setError(message);
-        setTimeout(() => setError(null), 7000);
+    // Saves a changed employee and flags the rankings and task plan that relied on the old values.
+    const commitEmployeeChange = (previous: AnalyzedEmployee, updated: AnalyzedEmployee, reason: string) => {
+        setEmployees(prev => prev.map(emp => emp.id === updated.id ? updated : emp));
+        setInvalidations(prev => appendInvalidations(prev, [
+            ...(affectsRanking(previous, updated) ? invalidateRankings(rankings, reason, updated.id) : []),
+            ...(assignments.length > 0 && affectsAssignments(previous, updated)
+                ? [createInvalidation('assignments', reason, { employeeId: updated.id })]
+                : []),
+        ]));
     };
 
-    const handleAddEmployee = useCallback((employee: AnalyzedEmployee) => {
-        setEmployees(prev => [...prev, employee]);
-        setRankedEmployees([]);
-        setAssignments([]);
-    }, []);
+    const handleUpdateEmployee = (edited: AnalyzedEmployee) => {
+        const previous = employees.find(emp => emp.id === edited.id);
+        if (!previous) return;
+        const updated = recordManualEdits(previous, normalizeEmployeeSkills(edited, skillIndex));
+        commitEmployeeChange(previous, updated, `${updated.name}'s details were edited`);
+    };
+
+    const handleReanalyzeEmployee = async (employeeId: string) => {
+        const employee = employees.find(emp => emp.id === employeeId);
+        if (!employee) return;
+        setReanalyzingIds(prev => new Set(prev).add(employeeId));
+        setError(null);
+        try {
+            const file = await loadResumeFile(employeeId);
+            if (!file) throw new Error(`The original resume for ${employee.name} is no longer stored.`);
+            const content = await extractResumeContent(file, redactionPolicy);
+            // Logged whatever the outcome, since the redacted content has been sent either way.
+            const analysis = await analyzeResume(content).finally(() => {
+                if (redactionPolicy.enabled) handleRedactionLogged(createRedactionLog(file.name, content, employeeId));
+            });
+            const details = restoreRedactedContact(analysis.details, content.redactions);
+            const updated = normalizeEmployeeSkills(applyReanalysis(employee, { ...analysis, details }, file.name), skillIndex);
+            commitEmployeeChange(employee, updated, `${updated.name}'s resume was re-analyzed`);
+        } catch (err) {
+            setError(describeError(err, `Failed to re-analyze ${employee.name}'s resume.`));
+        } finally {
+            setReanalyzingIds(prev => {
+                const next = new Set(prev);
+                next.delete(employeeId);
+                return next;
+            });
+        }
+    };
+
+    const handleSaveTaxonomy = (taxonomy: SkillDefinition[]) => {
+        const index = buildSkillIndex(taxonomy);
+        const normalized = employees.map(emp => normalizeEmployeeSkills(emp, index));
+        setSkillTaxonomy(taxonomy);
+        setEmployees(normalized);
+        setJobProfiles(prev => prev.map(profile => ({
+            ...profile,
+            requiredSkills: canonicalizeSkills(profile.requiredSkills, index),
+            niceToHaveSkills: canonicalizeSkills(profile.niceToHaveSkills, index),
+        })));
+        if (normalized.some((emp, i) => affectsRanking(employees[i], emp))) {
+            const reason = 'The skill taxonomy renamed or merged skills';
+            setInvalidations(prev => appendInvalidations(prev, [
+                ...invalidateRankings(rankings, reason),
+                ...(assignments.length > 0 ? [createInvalidation('assignments', reason)] : []),
+            ]));
+        }
+        setIsTaxonomyOpen(false);
+    };
+
+    const handleSaveProfile = (edited: JobProfile) => {
+        const profile = {
+            ...edited,
+            requiredSkills: canonicalizeSkills(edited.requiredSkills, skillIndex),
+            niceToHaveSkills: canonicalizeSkills(edited.niceToHaveSkills, skillIndex),
+        };
+        const previous = jobProfiles.find(p => p.id === profile.id);
+        setJobProfiles(prev => previous
+            ? prev.map(p => p.id === profile.id ? profile : p)
+            : [...prev, profile]);
+        // Scores were computed against the previous version of this profile.
+        if (previous && rankings[profile.id] && JSON.stringify(previous) !== JSON.stringify(profile)) {
+            setInvalidations(prev => appendInvalidations(prev, [
+                createInvalidation('ranking', `The ${profile.title} profile was edited`, { profileId: profile.id }),
+            ]));
+        }
+        setActiveProfileId(profile.id);
+    };
+
+    const handleDeleteProfile = (profileId: string) => {
+        if (jobProfiles.length <= 1) return;
+        const remaining = jobProfiles.filter(p => p.id !== profileId);
+        setJobProfiles(remaining);
+        setRankings(({ [profileId]: _removed, ...rest }) => rest);
+        setRankingHistory(prev => prev.filter(run => run.profileId !== profileId));
+        setInvalidations(prev => resolveRankingInvalidations(prev, profileId));
+        if (activeProfileId === profileId) {
+            setActiveProfileId(remaining[0].id);
+        }
+    };
 
     const handleRankEmployees = useCallback(async () => {
         if (employees.length === 0) return;
         setIsRanking(true);
         setError(null);
         try {
-            const result = await rankEmployees(employees);
-            setRankedEmployees(result);
+            const { ranked, run } = await rankEmployees(employees, activeProfile, { blind: blindRanking, onProgress: setRankingProgress });
+            setRankings(prev => ({ ...prev, [activeProfile.id]: ranked }));
+            setRankingHistory(prev => appendRankingRun(prev, run));
+            setInvalidations(prev => resolveRankingInvalidations(prev, activeProfile.id));
         } catch (err) {
-            setError(err instanceof Error ? err.message : 'An unknown error occurred during ranking.');
+            setError(describeError(err, 'An unknown error occurred during ranking.'));
         } finally {
             setIsRanking(false);
+            setRankingProgress(null);
+        }
+    }, [employees, activeProfile, blindRanking]);
+
+    // Re-scores only the given employees and merges them into the active profile's ranking,
+    // adding any that joined after it was produced.
+    const handleRerankEmployees = async (employeeIds: string[]) => {
+        const ids = new Set(employeeIds);
+        const subset = employees.filter(emp => ids.has(emp.id));
+        if (subset.length === 0) return;
+        setIsRanking(true);
+        setError(null);
+        try {
+            const { ranked, run } = await rankEmployees(subset, activeProfile, { blind: blindRanking, onProgress: setRankingProgress });
+            setRankings(prev => ({
+                ...prev,
+                [activeProfile.id]: [
+                    ...(prev[activeProfile.id] ?? []).filter(emp => !ids.has(emp.id)),
+                    ...ranked,
+                ].sort((a, b) => b.rank - a.rank),
+            }));
+            setRankingHistory(prev => appendRankingRun(prev, run));
+            setInvalidations(prev => resolveRankingInvalidations(prev, activeProfile.id, employeeIds));
+        } catch (err) {
+            setError(describeError(err, 'An unknown error occurred during ranking.'));
+        } finally {
+            setIsRanking(false);
+            setRankingProgress(null);
+        }
+    };
+
+    const handleDeleteEmployees = (employeeIds: string[]) => {
+        const removed = new Set(employeeIds);
+        const withTasks = assignments.filter(assignment => removed.has(assignment.employeeId) && assignment.taskIds.length > 0);
+        // Resumes of merged-in earlier versions are stored under the ids those entries had.
+        const historyIds = employees
+            .filter(emp => removed.has(emp.id))
+            .flatMap(emp => (emp.resumeHistory ?? []).map(version => version.employeeId));
+        setEmployees(prev => prev.filter(emp => !removed.has(emp.id)));
+        setSelectedEmployeeId(prev => prev && removed.has(prev) ? null : prev);
+        const removedFiles = new Set([...employeeIds, ...historyIds]);
+        deleteResumeFiles([...removedFiles]).catch(err => console.error("Error deleting stored resumes:", err));
+        setResumeFileIds(prev => new Set([...prev].filter(id => !removedFiles.has(id))));
+        // Remaining scores do not depend on each other, so rankings only lose the deleted rows.
+        setRankings(prev => Object.fromEntries(
+            Object.entries<RankedEmployee[]>(prev).map(([profileId, ranked]) => [profileId, ranked.filter(emp => !removed.has(emp.id))]),
+        ));
+        // Their tasks return to the unassigned pool, and changes recorded against them no longer apply.
+        setAssignments(prev => prev.filter(assignment => !removed.has(assignment.employeeId)));
+        setInvalidations(prev => appendInvalidations(
+            prev.filter(inv => !inv.employeeId || !removed.has(inv.employeeId)),
+            withTasks.map(assignment => createInvalidation(
+                'assignments',
+                `${employeesById.get(assignment.employeeId)?.name ?? 'An employee'} was removed; their ${assignment.taskIds.length === 1 ? 'task is' : `${assignment.taskIds.length} tasks are`} unassigned`,
+            )),
+        ));
+    };
+
+    // The merged entry replaces the later one; the earlier one leaves the roster but its resume stays in the history.
+    const handleMergeEmployees = (merged: AnalyzedEmployee, replacedId: string) => {
+        const previous = employeesById.get(merged.id);
+        const replaced = employeesById.get(replacedId);
+        if (!previous || !replaced) return;
+        const updated = normalizeEmployeeSkills(merged, skillIndex);
+        const reason = `Duplicate entries for ${updated.name} were merged`;
+        const replacedTasks = assignments.some(assignment => assignment.employeeId === replacedId && assignment.taskIds.length > 0);
+        setEmployees(prev => prev.filter(emp => emp.id !== replacedId).map(emp => emp.id === updated.id ? updated : emp));
+        setSelectedEmployeeId(prev => prev === replacedId ? updated.id : prev);
+        setRankings(prev => Object.fromEntries(
+            Object.entries<RankedEmployee[]>(prev).map(([profileId, ranked]) => [profileId, ranked.filter(emp => emp.id !== replacedId)]),
+        ));
+        setAssignments(prev => reassignAll(prev, replacedId, updated.id));
+        // Past days count toward the merged person's fairness history.
+        setPlanHistory(prev => prev.map(record => ({
+            ...record,
+            entries: record.entries.map(entry => entry.employeeId === replacedId ? { ...entry, employeeId: updated.id } : entry),
+        })));
+        setDismissedDuplicates(prev => prev.filter(key => !key.split(':').includes(replacedId)));
+        setInvalidations(prev => appendInvalidations(
+            prev.map(inv => inv.employeeId === replacedId ? { ...inv, employeeId: updated.id } : inv),
+            [
+                ...(affectsRanking(previous, updated) ? invalidateRankings(rankings, reason, updated.id) : []),
+                ...(replacedTasks || (assignments.length > 0 && affectsAssignments(previous, updated))
+                    ? [createInvalidation('assignments', reason, { employeeId: updated.id })]
+                    : []),
+            ],
+        ));
+    };
+
+    const handleDismissDuplicate = (earlierId: string, laterId: string) => {
+        setDismissedDuplicates(prev => [...prev, duplicatePairKey(earlierId, laterId)]);
+    };
+
+    const handleRunBiasAudit = async (threshold: number) => {
+        setIsAuditing(true);
+        setError(null);
+        try {
+            setAuditReport(await runBiasAudit(employees, activeProfile, threshold));
+        } catch (err) {
+            setError(describeError(err, 'An unknown error occurred during the bias audit.'));
+        } finally {
+            setIsAuditing(false);
         }
-    }, [employees]);
+    };
 
-    const handleDistributeTasks = useCallback(async (tasksText: string) => {
-        if (rankedEmployees.length === 0) return;
-        const tasks = tasksText.split('\n').filter(t => t.trim() !== '');
-        if (tasks.length === 0) return;
+    const handleChangeTasks = (next: Task[]) => {
+        const remaining = new Set(next.map(task => task.id));
+        setTasks(next);
+        setAssignments(prev => prev
+            .map(assignment => ({
+                ...assignment,
+                taskIds: assignment.taskIds.filter(id => remaining.has(id)),
+                pinnedTaskIds: assignment.pinnedTaskIds.filter(id => remaining.has(id)),
+            }))
+            .filter(assignment => assignment.taskIds.length > 0));
+    };
+
+    const handleUpdateCapacity = (employeeId: string, capacityHours: number) => {
+        const employee = employees.find(emp => emp.id === employeeId);
+        if (employee) handleUpdateEmployee({ ...employee, capacityHours });
+    };
+
+    const handleMoveTask = (taskId: string, employeeId: string | null) => {
+        setAssignments(prev => moveTask(prev, taskId, employeeId));
+    };
+
+    // Proposals can outlive the task or person they name, so they are checked again when applied.
+    const handleApplyProposal = (proposal: ProposedReassignment): boolean => {
+        const task = tasks.find(candidate => candidate.id === proposal.taskId);
+        if (!task) {
+            handleSetError("That task is no longer in the plan.");
+            return false;
+        }
+        if (proposal.toEmployeeId && !employeesById.has(proposal.toEmployeeId)) {
+            handleSetError(`The employee suggested for "${task.title}" is no longer on the roster.`);
+            return false;
+        }
+        handleMoveTask(task.id, proposal.toEmployeeId);
+        return true;
+    };
+
+    const handleTogglePin = (taskId: string) => {
+        setAssignments(prev => togglePin(prev, taskId));
+    };
+
+    const handleDistributeTasks = useCallback(async (keepPinned: boolean) => {
+        if (rankedEmployees.length === 0 || tasks.length === 0) return;
 
         setIsDistributing(true);
         setError(null);
         try {
-            const result = await distributeTasks(rankedEmployees, tasks);
+            const pinned = keepPinned ? assignments : [];
+            const pinnedIds = new Set(pinned.flatMap(assignment => assignment.pinnedTaskIds));
+            // The model only fills in skills for tasks that have none; assignment itself is solved locally.
+            let planned = tasks;
+            const unskilled = tasks.filter(task => task.requiredSkills.length === 0 && !pinnedIds.has(task.id));
+            if (unskilled.length > 0) {
+                const inferred = await inferTaskSkills(unskilled, skillTaxonomy.map(definition => definition.name));
+                planned = tasks.map(task => inferred.has(task.id)
+                    ? { ...task, requiredSkills: canonicalizeSkills(inferred.get(task.id)!, skillIndex) }
+                    : task);
+                setTasks(planned);
+            }
+            const start = fromIsoDate(planDate);
+            const { assignments: result } = validateAssignments(
+                assignTasks(planned, rankedEmployees, pinned, fairness, start),
+                planned,
+                // Pins can sit with people added since the last ranking.
+                employees,
+                start,
+            );
+            if (result.length === 0) {
+                setError({ title: 'Error', message: "No task fits anyone's remaining capacity. Raise availability or lower effort estimates." });
+            }
             setAssignments(result);
+            setInvalidations(resolveAssignmentInvalidations);
         } catch (err) {
-            setError(err instanceof Error ? err.message : 'An unknown error occurred during task distribution.');
+            setError(describeError(err, 'An unknown error occurred during task distribution.'));
         } finally {
             setIsDistributing(false);
         }
-    }, [rankedEmployees]);
+    }, [rankedEmployees, employees, tasks, assignments, skillTaxonomy, skillIndex, fairness, planDate]);
+
+    // A plan left over from an earlier day jumps to today; otherwise planning moves a day ahead.
+    const handleStartNextDay = () => {
+        const today = todayIsoDate();
+        const following = fromIsoDate(planDate);
+        following.setDate(following.getDate() + 1);
+        const next = startNextDay(
+            { date: planDate, tasks, assignments },
+            planHistory,
+            taskTemplates,
+            employees,
+            planDate < today ? today : toIsoDate(following),
+        );
+        setPlanHistory(next.history);
+        setTasks(next.tasks);
+        setPlanDate(next.date);
+        setAssignments([]);
+        setInvalidations(resolveAssignmentInvalidations);
+    };
+
+    const handleSaveTemplate = (name: string) => {
+        setTaskTemplates(prev => [...prev, createTemplate(name, tasks)]);
+    };
+
+    const handleUpdateTemplate = (template: TaskTemplate) => {
+        setTaskTemplates(prev => prev.map(existing => existing.id === template.id ? template : existing));
+    };
+
+    const handleApplyTemplate = (templateId: string) => {
+        const template = taskTemplates.find(existing => existing.id === templateId);
+        if (template) setTasks(prev => [...prev, ...instantiateTemplate(template)]);
+    };
+
+    const handleDeleteTemplate = (templateId: string) => {
+        setTaskTemplates(prev => prev.filter(template => template.id !== templateId));
+    };
+
+    const handleExportRanking = (format: ReportFormat) => {
+        try {
+            exportReport(buildRankingReport(rankedEmployees, activeProfile), format);
+        } catch (err) {
+            handleSetError(err instanceof Error ? err.message : "Failed to export the ranking.");
+        }
+    };
+
+    const handleExportAssignments = (format: ReportFormat) => {
+        try {
+            exportReport(buildAssignmentReport(assignments, tasks, employees, fromIsoDate(planDate)), format);
+        } catch (err) {
+            handleSetError(err instanceof Error ? err.message : "Failed to export the task assignments.");
+        }
+    };
+
+    const handleExportCalendar = (employeeId: string) => {
+        const employee = employeesById.get(employeeId);
+        const assignment = assignments.find(entry => entry.employeeId === employeeId);
+        if (employee && assignment) exportDayCalendar(employee, assignment, tasks, fromIsoDate(planDate));
+    };
+
+    const assignmentIssues = useMemo(
+        () => assignments.length > 0 ? validateAssignments(assignments, tasks, employees, fromIsoDate(planDate)).issues : [],
+        [assignments, tasks, employees, planDate],
+    );
     
-    const displayEmployees = isRanked ? rankedEmployees.sort((a,b) => b.rank - a.rank) : employees;
+    const selectedEmployee = employees.find(emp => emp.id === selectedEmployeeId);
+
+    const rankedIds = new Set(rankedEmployees.map(emp => emp.id));
+    const displayEmployees = isRanked ? [...rankedEmployees, ...employees.filter(emp => !rankedIds.has(emp.id))] : employees;
+    // Stale-plan reasons only matter while there is a plan to go stale.
+    const staleAssignmentReasons = assignments.length > 0 ? assignmentInvalidations(invalidations).map(inv => inv.reason) : [];
+    const comparedEmployees = compareIds
+        ? compareIds.flatMap(id => displayEmployees.filter(emp => emp.id === id))
+        : [];
 
     return (
         <div className="min-h-screen bg-slate-900 text-slate-100">
-            <Header />
+            <Header
+                providerLabel={PROVIDER_LABELS[llmSettings.provider]}
+                unrecognizedSkillCount={unrecognizedSkills.length}
+                onOpenChat={() => setIsChatOpen(true)}
+                onOpenCoverage={() => setIsCoverageOpen(true)}
+                onOpenSettings={() => setIsSettingsOpen(true)}
+                onOpenTaxonomy={() => setIsTaxonomyOpen(true)}
+                onOpenPrivacy={() => setIsPrivacyOpen(true)}
+                onExportWorkspace={() => exportWorkspace(workspace)}
+                onImportWorkspace={handleImportWorkspace}
+            />
+            {syncConflict && (
+                <div className="fixed inset-0 z-30 flex items-center justify-center bg-slate-950/80 p-4">
+                    <div className="panel-3d aurora-border p-6 rounded-xl w-full max-w-lg animate-fade-in" role="alertdialog">
+                        <h2 className="text-xl font-semibold mb-2 text-amber-300">Reload required</h2>
+                        <p className="text-sm text-slate-300 mb-4">{syncConflict} Export your copy first to keep a record of your changes.</p>
+                        <div className="flex justify-end gap-3">
+                            <button onClick={() => exportWorkspace(workspace)} className="py-2 px-4 rounded-md text-slate-300 hover:text-white transition">
+                                Export my copy
+                            </button>
+                            <button
+                                onClick={() => loadSharedWorkspace(true)}
+                                className="bg-gradient-to-r from-violet-600 to-indigo-600 hover:from-violet-700 hover:to-indigo-700 text-white font-bold py-2 px-4 rounded-md transition duration-300 ease-in-out shadow-lg hover:shadow-violet-500/30 active:scale-[0.98]"
+                            >
+                                Reload
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+            {isSettingsOpen && (
+                <SettingsPanel settings={llmSettings} accessToken={getAccessToken()} onSave={handleSaveSettings} onClose={() => setIsSettingsOpen(false)} />
+            )}
+            {isTaxonomyOpen && (
+                <SkillTaxonomyPanel
+                    taxonomy={skillTaxonomy}
+                    employees={employees}
+                    onSave={handleSaveTaxonomy}
+                    onClose={() => setIsTaxonomyOpen(false)}
+                />
+            )}
+            {isHistoryOpen && (
+                <RankingHistoryPanel
+                    profileTitle={activeProfile.title}
+                    runs={profileRuns}
+                    onClearHistory={() => setRankingHistory(prev => prev.filter(run => run.profileId !== activeProfile.id))}
+                    onClose={() => setIsHistoryOpen(false)}
+                />
+            )}
+            {isAuditOpen && (
+                <BiasAuditPanel
+                    profileTitle={activeProfile.title}
+                    report={auditReport?.profileId === activeProfile.id ? auditReport : null}
+                    isAuditing={isAuditing}
+                    canAudit={employees.length >= 2}
+                    onRunAudit={handleRunBiasAudit}
+                    onClose={() => setIsAuditOpen(false)}
+                />
+            )}
+            {isPrivacyOpen && (
+                <PrivacyPanel
+                    policy={redactionPolicy}
+                    logs={redactionLogs}
+                    employees={employees}
+                    onChangePolicy={setRedactionPolicy}
+                    onClearLogs={() => setRedactionLogs([])}
+                    onClose={() => setIsPrivacyOpen(false)}
+                />
+            )}
+            {isPlanningOpen && (
+                <DailyPlanningPanel
+                    tasks={tasks}
+                    templates={taskTemplates}
+                    history={planHistory}
+                    employees={employees}
+                    workload={workload}
+                    fairnessWindowDays={fairnessWindowDays}
+                    onChangeFairnessWindow={setFairnessWindowDays}
+                    onSaveTemplate={handleSaveTemplate}
+                    onUpdateTemplate={handleUpdateTemplate}
+                    onApplyTemplate={handleApplyTemplate}
+                    onDeleteTemplate={handleDeleteTemplate}
+                    onClose={() => setIsPlanningOpen(false)}
+                />
+            )}
+            {isChatOpen && (
+                <RosterChatPanel
+                    roster={rosterSnapshot}
+                    messages={chatMessages}
+                    onChangeMessages={setChatMessages}
+                    onApplyProposal={handleApplyProposal}
+                    onOpenEmployee={setSelectedEmployeeId}
+                    onClose={() => setIsChatOpen(false)}
+                />
+            )}
+            {isCoverageOpen && (
+                <TeamCoveragePanel
+                    employees={employees}
+                    skillIndex={skillIndex}
+                    profiles={jobProfiles}
+                    activeProfileId={activeProfile.id}
+                    tasks={tasks}
+                    onOpenEmployee={setSelectedEmployeeId}
+                    onClose={() => setIsCoverageOpen(false)}
+                />
+            )}
+            {isDuplicatesOpen && (
+                <DuplicateReviewPanel
+                    matches={duplicates}
+                    employeesById={employeesById}
+                    onMerge={handleMergeEmployees}
+                    onDismiss={handleDismissDuplicate}
+                    onClose={() => setIsDuplicatesOpen(false)}
+                />
+            )}
+            {comparedEmployees.length > 1 && (
+                <ComparisonPanel
+                    employees={comparedEmployees}
+                    profiles={jobProfiles}
+                    activeProfileId={activeProfile.id}
+                    tasks={tasks}
+                    onClose={() => setCompareIds(null)}
+                />
+            )}
+            {selectedEmployee && (
+                <EmployeeDetailModal
+                    key={selectedEmployee.id}
+                    employee={selectedEmployee}
+                    skillIndex={skillIndex}
+                    onSave={handleUpdateEmployee}
+                    canReanalyze={resumeFileIds.has(selectedEmployee.id)}
+                    isReanalyzing={reanalyzingIds.has(selectedEmployee.id)}
+                    onReanalyze={() => handleReanalyzeEmployee(selectedEmployee.id)}
+                    onDelete={() => handleDeleteEmployees([selectedEmployee.id])}
+                    onClose={() => setSelectedEmployeeId(null)}
+                />
+            )}
             <main className="container mx-auto p-4 md:p-8">
                 {error && (
                     <div className="bg-red-900/50 border border-red-700 text-red-300 p-4 rounded-xl mb-6 shadow-lg animate-fade-in" role="alert">
                         <div className="flex justify-between items-center">
                             <div>
-                                <p className="font-bold">Error</p>
-                                <p>{error}</p>
+                                <p className="font-bold">{error.title}</p>
+                                <p>{error.message}</p>
                             </div>
                             <button onClick={() => setError(null)} className="text-red-300 hover:text-white">&times;</button>
                         </div>
@@ -351,20 +870,75 @@ const App: React.FC = () => {
                 )}
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 [perspective:2000px]">
                     <div className="space-y-8 animate-fade-in" style={{animationDelay: '100ms'}}>
-                        <EmployeeForm onAddEmployee={handleAddEmployee} onError={handleSetError} />
-                        <EmployeeList 
+                        <ResumeQueuePanel
+                            redactionPolicy={redactionPolicy}
+                            onAddEmployee={handleAddEmployee}
+                            knownFileHashes={knownFileHashes}
+                            onRedactionLogged={handleRedactionLogged}
+                            onError={handleSetError}
+                        />
+                        <EmployeeList
                             employees={displayEmployees}
+                            addedOrder={addedOrder}
+                            profiles={jobProfiles}
+                            activeProfileId={activeProfile.id}
+                            onSelectProfile={setActiveProfileId}
+                            onOpenEmployee={setSelectedEmployeeId}
+                            skillIndex={skillIndex}
+                            runCount={profileRuns.length}
+                            driftingIds={driftingIds}
+                            onOpenHistory={() => setIsHistoryOpen(true)}
+                            blindRanking={blindRanking}
+                            onToggleBlindRanking={setBlindRanking}
+                            onOpenAudit={() => setIsAuditOpen(true)}
+                            duplicateCount={duplicates.length}
+                            onReviewDuplicates={() => setIsDuplicatesOpen(true)}
+                            onDeleteEmployees={handleDeleteEmployees}
+                            onRerankEmployees={handleRerankEmployees}
+                            maxCompared={MAX_COMPARED_EMPLOYEES}
+                            onCompareEmployees={setCompareIds}
+                            staleReasons={rankingInvalidations(invalidations, activeProfile.id)}
+                            onDismissStale={() => setInvalidations(prev => resolveRankingInvalidations(prev, activeProfile.id))}
+                            reanalyzableIds={resumeFileIds}
+                            reanalyzingIds={reanalyzingIds}
+                            onReanalyzeEmployee={handleReanalyzeEmployee}
+                            onExportRanking={handleExportRanking}
                             onRank={handleRankEmployees}
                             isRanking={isRanking}
+                            rankingProgress={rankingProgress}
                             isRanked={isRanked}
                         />
                     </div>
                     <div className="space-y-8 animate-fade-in" style={{animationDelay: '200ms'}}>
-                        <TaskPanel 
-                            rankedEmployees={rankedEmployees} 
-                            onDistribute={handleDistributeTasks}
+                        <JobProfilePanel
+                            profiles={jobProfiles}
+                            activeProfileId={activeProfile.id}
+                            onSelectProfile={setActiveProfileId}
+                            onSaveProfile={handleSaveProfile}
+                            onDeleteProfile={handleDeleteProfile}
+                        />
+                        <TaskPanel
+                            planDate={planDate}
+                            isPlanOutdated={planDate < todayIsoDate()}
+                            onStartNextDay={handleStartNextDay}
+                            templates={taskTemplates}
+                            onApplyTemplate={handleApplyTemplate}
+                            onOpenPlanning={() => setIsPlanningOpen(true)}
+                            rankedEmployees={rankedEmployees}
+                            unrankedAssignees={unrankedAssignees}
+                            tasks={tasks}
                             assignments={assignments}
+                            issues={assignmentIssues}
+                            onChangeTasks={handleChangeTasks}
+                            onUpdateCapacity={handleUpdateCapacity}
+                            onMoveTask={handleMoveTask}
+                            onTogglePin={handleTogglePin}
+                            onDistribute={handleDistributeTasks}
                             isDistributing={isDistributing}
+                            staleReasons={staleAssignmentReasons}
+                            onDismissStale={() => setInvalidations(resolveAssignmentInvalidations)}
+                            onExportAssignments={handleExportAssignments}
+                            onExportCalendar={handleExportCalendar}
                         />
                     </div>
                 </div>
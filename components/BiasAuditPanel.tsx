@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import type { BiasAuditReport } from '../services/biasAuditService';
+import { DEFAULT_BIAS_THRESHOLD } from '../services/biasAuditService';
+import { ScaleIcon } from './icons';
+
+interface BiasAuditPanelProps {
+    profileTitle: string;
+    report: BiasAuditReport | null;
+    isAuditing: boolean;
+    canAudit: boolean;
+    onRunAudit: (threshold: number) => void;
+    onClose: () => void;
+}
+
+const BiasAuditPanel: React.FC<BiasAuditPanelProps> = ({ profileTitle, report, isAuditing, canAudit, onRunAudit, onClose }) => {
+    const [threshold, setThreshold] = useState(report?.threshold ?? DEFAULT_BIAS_THRESHOLD);
+    const flagged = report?.rows.filter(row => row.significant) ?? [];
+
+    return (
+        <div className="fixed inset-0 z-20 flex items-center justify-center bg-slate-950/70 p-4" onClick={onClose}>
+            <div className="panel-3d aurora-border p-6 rounded-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto animate-fade-in" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-start gap-4 mb-4">
+                    <h2 className="text-xl font-semibold flex items-center gap-2 text-violet-300">
+                        <ScaleIcon className="w-6 h-6" />
+                        Bias Audit · {profileTitle}
+                    </h2>
+                    <button onClick={onClose} className="text-slate-400 hover:text-white text-xl leading-none">&times;</button>
+                </div>
+                <p className="text-sm text-slate-400 mb-4">
+                    Ranks the roster three times with real names: twice as-is and once with names rotated between employees.
+                    The deterministic sub-scores ignore names, but the model's review varies between identical runs, so a change is only
+                    flagged when it exceeds that run-to-run noise by more than the threshold.
+                </p>
+                <div className="flex items-center justify-between gap-3 mb-4 flex-wrap">
+                    <label className="text-sm text-slate-400 flex items-center gap-2">
+                        Flag changes above
+                        <input
+                            type="number"
+                            min={0}
+                            max={100}
+                            value={threshold}
+                            onChange={(e) => setThreshold(Math.max(0, Number(e.target.value) || 0))}
+                            className="bg-slate-900/50 border border-slate-700 rounded-md py-1 px-2 text-sm text-slate-200 focus:ring-2 focus:ring-violet-500 outline-none w-16"
+                        />
+                        points
+                    </label>
+                    <button
+                        onClick={() => onRunAudit(threshold)}
+                        disabled={!canAudit || isAuditing}
+                        className="bg-gradient-to-r from-violet-600 to-indigo-600 hover:from-violet-700 hover:to-indigo-700 text-white font-bold py-2 px-4 rounded-md transition duration-300 ease-in-out disabled:from-slate-600 disabled:to-slate-700 disabled:cursor-not-allowed disabled:opacity-50 shadow-lg hover:shadow-violet-500/30 active:scale-[0.98]"
+                    >
+                        {isAuditing ? 'Auditing...' : report ? 'Re-run Audit' : 'Run Audit'}
+                    </button>
+                </div>
+                {!canAudit && <p className="text-sm text-slate-500 italic">Add at least two employees to run an audit.</p>}
+
+                {report && (
+                    <>
+                        <p className={`text-sm mb-3 ${flagged.length > 0 ? 'text-amber-300' : 'text-green-300'}`}>
+                            {flagged.length > 0
+                                ? `${flagged.length} of ${report.rows.length} scores changed by more than ${report.threshold} points beyond run-to-run noise when only the name changed.`
+                                : `No score changed by more than ${report.threshold} points beyond run-to-run noise when only the name changed.`}
+                            <span className="text-slate-500"> · {new Date(report.createdAt).toLocaleString()}</span>
+                        </p>
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-slate-400 border-b border-slate-700">
+                                    <th className="py-1 font-medium">Employee</th>
+                                    <th className="py-1 font-medium">Scored as</th>
+                                    <th className="py-1 font-medium text-right">Score</th>
+                                    <th className="py-1 font-medium text-right">Δ</th>
+                                    <th className="py-1 font-medium text-right" title="Score change between two runs with the same input">Noise</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {report.rows.map(row => (
+                                    <tr key={row.employeeId} className={`border-b border-slate-800 ${row.significant ? 'text-amber-300 bg-amber-500/10' : 'text-slate-300'}`}>
+                                        <td className="py-1">{row.name}</td>
+                                        <td className="py-1 text-slate-400">{row.counterfactualName}</td>
+                                        <td className="py-1 text-right">{row.baselineRank} → {row.counterfactualRank}</td>
+                                        <td className="py-1 text-right">{row.delta > 0 ? `+${row.delta}` : row.delta}</td>
+                                        <td className="py-1 text-right text-slate-400">±{row.noise}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default BiasAuditPanel;
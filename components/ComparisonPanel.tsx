@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import type { AnalyzedEmployee, JobProfile, RankedEmployee, ScoreComponent, Task } from '../types';
+import { compareCandidates, type ComparisonVerdict } from '../services/aiService';
+import { SCORE_COMPONENT_LABELS } from '../services/scoringService';
+import { normalizeSkillKey } from '../services/skillTaxonomyService';
+import { ScaleIcon, SparklesIcon } from './icons';
+
+// More columns than this stop fitting side by side.
+export const MAX_COMPARED_EMPLOYEES = 3;
+
+interface ComparisonPanelProps {
+    employees: (AnalyzedEmployee | RankedEmployee)[];
+    profiles: JobProfile[];
+    activeProfileId: string;
+    tasks: Task[];
+    onClose: () => void;
+}
+
+interface ComparisonRow {
+    label: string;
+    render: (employee: AnalyzedEmployee | RankedEmployee) => React.ReactNode;
+    // Numeric rows highlight whoever has the highest value.
+    value?: (employee: AnalyzedEmployee | RankedEmployee) => number | undefined;
+}
+
+const selectClassName = "bg-slate-900/50 border border-slate-700 rounded-md py-1 px-2 text-sm text-slate-200 focus:ring-2 focus:ring-violet-500 outline-none";
+
+const breakdownOf = (employee: AnalyzedEmployee | RankedEmployee) =>
+    'breakdown' in employee ? employee.breakdown : undefined;
+
+const ComparisonPanel: React.FC<ComparisonPanelProps> = ({ employees, profiles, activeProfileId, tasks, onClose }) => {
+    const [roleId, setRoleId] = useState(activeProfileId);
+    const [taskIds, setTaskIds] = useState<Set<string>>(new Set());
+    const [verdict, setVerdict] = useState<ComparisonVerdict | null>(null);
+    const [isComparing, setIsComparing] = useState(false);
+    const [verdictError, setVerdictError] = useState<string | null>(null);
+
+    const skillSets = new Map<string, Set<string>>(employees.map(emp => [emp.id, new Set(emp.skills.map(normalizeSkillKey))]));
+    const isShared = (skill: string) => [...skillSets.values()].every(skills => skills.has(normalizeSkillKey(skill)));
+    const isUnique = (skill: string, employeeId: string) =>
+        [...skillSets].every(([id, skills]) => id === employeeId || !skills.has(normalizeSkillKey(skill)));
+    const sharedSkills = employees[0]?.skills.filter(isShared) ?? [];
+    const isRanked = employees.some(emp => 'rank' in emp);
+
+    const scoreRows: ComparisonRow[] = isRanked ? [
+        { label: 'Score', render: emp => 'rank' in emp ? emp.rank : '—', value: emp => 'rank' in emp ? emp.rank : undefined },
+        ...(Object.keys(SCORE_COMPONENT_LABELS) as ScoreComponent[]).map((component): ComparisonRow => ({
+            label: SCORE_COMPONENT_LABELS[component],
+            render: emp => breakdownOf(emp)?.[component] ?? '—',
+            value: emp => breakdownOf(emp)?.[component],
+        })),
+    ] : [];
+
+    const rows: ComparisonRow[] = [
+        ...scoreRows,
+        { label: 'Experience', render: emp => `${emp.experienceYears} yrs`, value: emp => emp.experienceYears },
+        { label: 'Current role', render: emp => emp.workHistory[0] ? `${emp.workHistory[0].title}, ${emp.workHistory[0].employer}` : '—' },
+        { label: 'Earlier roles', render: emp => emp.workHistory.slice(1).map(entry => `${entry.title}, ${entry.employer}`).join('; ') || '—' },
+        { label: 'Location', render: emp => emp.location || '—' },
+        {
+            label: 'Unique skills',
+            render: emp => {
+                const unique = emp.skills.filter(skill => isUnique(skill, emp.id));
+                return unique.length === 0 ? '—' : (
+                    <div className="flex flex-wrap gap-1">
+                        {unique.map(skill => <span key={skill} className="text-xs px-1.5 py-0.5 rounded bg-violet-500/20 text-violet-200">{skill}</span>)}
+                    </div>
+                );
+            },
+            value: emp => emp.skills.filter(skill => isUnique(skill, emp.id)).length,
+        },
+        { label: 'Education', render: emp => emp.education.map(entry => `${entry.degree} ${entry.field}`.trim()).join('; ') || '—' },
+        { label: 'Certifications', render: emp => emp.certifications.map(cert => cert.name).join('; ') || '—' },
+        { label: 'Languages', render: emp => emp.languages.join(', ') || '—' },
+        { label: 'Availability', render: emp => `${emp.capacityHours} h/day`, value: emp => emp.capacityHours },
+        { label: 'Review', render: emp => <span className="italic text-slate-400">{'rank' in emp ? emp.justification : emp.summary}</span> },
+    ];
+
+    const bestValue = (row: ComparisonRow): number | undefined => {
+        const values = employees.map(emp => row.value?.(emp)).filter((value): value is number => value !== undefined);
+        // Nothing stands out when everyone is level.
+        return values.length > 1 && new Set(values).size > 1 ? Math.max(...values) : undefined;
+    };
+
+    const toggleTask = (taskId: string) => setTaskIds(prev => {
+        const next = new Set(prev);
+        if (next.has(taskId)) next.delete(taskId); else next.add(taskId);
+        return next;
+    });
+
+    const role = profiles.find(profile => profile.id === roleId) ?? null;
+    const chosenTasks = tasks.filter(task => taskIds.has(task.id));
+
+    const handleCompare = async () => {
+        setIsComparing(true);
+        setVerdictError(null);
+        try {
+            setVerdict(await compareCandidates(employees, role, chosenTasks));
+        } catch (err) {
+            setVerdictError(err instanceof Error ? err.message : 'Failed to get a verdict.');
+        } finally {
+            setIsComparing(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-20 flex items-center justify-center bg-slate-950/70 p-4" onClick={onClose}>
+            <div className="panel-3d aurora-border p-6 rounded-xl w-full max-w-5xl max-h-[90vh] overflow-y-auto animate-fade-in" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-start gap-4 mb-4">
+                    <h2 className="text-xl font-semibold flex items-center gap-2 text-violet-300">
+                        <ScaleIcon className="w-6 h-6" />
+                        Compare {employees.map(emp => emp.name).join(' · ')}
+                    </h2>
+                    <button onClick={onClose} className="text-slate-400 hover:text-white text-xl leading-none">&times;</button>
+                </div>
+
+                <p className="text-sm text-slate-400 mb-3">
+                    Shared skills: {sharedSkills.length > 0 ? <span className="text-slate-300">{sharedSkills.join(', ')}</span> : <span className="italic">none</span>}
+                </p>
+
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-left border-b border-slate-700">
+                                <th className="py-2 pr-3 w-36"></th>
+                                {employees.map(emp => (
+                                    <th key={emp.id} className="py-2 px-2 font-semibold text-slate-100 min-w-[10rem]">
+                                        {emp.name}
+                                        {verdict?.winnerId === emp.id && <span className="ml-2 text-xs text-green-300 font-medium">best fit</span>}
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rows.map(row => {
+                                const best = bestValue(row);
+                                return (
+                                    <tr key={row.label} className="border-b border-slate-800 text-slate-300 align-top">
+                                        <td className="py-2 pr-3 text-slate-400">{row.label}</td>
+                                        {employees.map(emp => (
+                                            <td key={emp.id} className={`py-2 px-2 ${best !== undefined && row.value?.(emp) === best ? 'text-green-300 font-semibold' : ''}`}>
+                                                {row.render(emp)}
+                                            </td>
+                                        ))}
+                                    </tr>
+                                );
+                            })}
+                            {verdict && (
+                                <tr className="text-slate-300 align-top">
+                                    <td className="py-2 pr-3 text-slate-400">AI assessment</td>
+                                    {employees.map(emp => {
+                                        const assessment = verdict.assessments.get(emp.id);
+                                        return (
+                                            <td key={emp.id} className="py-2 px-2 space-y-1 text-xs">
+                                                {assessment?.strengths.map((item, index) => <p key={`s${index}`} className="text-green-300">+ {item}</p>)}
+                                                {assessment?.concerns.map((item, index) => <p key={`c${index}`} className="text-amber-300">− {item}</p>)}
+                                                {!assessment && <p className="text-slate-500 italic">No assessment returned.</p>}
+                                            </td>
+                                        );
+                                    })}
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+
+                <section className="mt-6 bg-slate-900/40 border border-slate-700/80 rounded-md p-4 space-y-3">
+                    <h3 className="text-sm font-semibold uppercase tracking-wider text-violet-300">Head-to-head verdict</h3>
+                    <div className="flex items-center gap-3 flex-wrap text-sm text-slate-400">
+                        <label className="flex items-center gap-2">
+                            Against role
+                            <select value={roleId} onChange={(e) => setRoleId(e.target.value)} className={selectClassName}>
+                                <option value="">No role</option>
+                                {profiles.map(profile => <option key={profile.id} value={profile.id}>{profile.title}</option>)}
+                            </select>
+                        </label>
+                        {tasks.length > 0 && <span>and tasks:</span>}
+                    </div>
+                    {tasks.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                            {tasks.map(task => (
+                                <label key={task.id} className={`text-xs px-2 py-1 rounded border cursor-pointer transition ${taskIds.has(task.id) ? 'border-violet-500 text-violet-200 bg-violet-500/10' : 'border-slate-700 text-slate-400'}`}>
+                                    <input type="checkbox" checked={taskIds.has(task.id)} onChange={() => toggleTask(task.id)} className="hidden" />
+                                    {task.title}
+                                </label>
+                            ))}
+                        </div>
+                    )}
+                    <button
+                        onClick={handleCompare}
+                        disabled={isComparing || (!role && chosenTasks.length === 0)}
+                        className="flex items-center gap-2 bg-gradient-to-r from-violet-600 to-indigo-600 hover:from-violet-700 hover:to-indigo-700 text-white font-bold py-2 px-4 rounded-md transition duration-300 ease-in-out disabled:from-slate-600 disabled:to-slate-700 disabled:cursor-not-allowed disabled:opacity-50 shadow-lg hover:shadow-violet-500/30 active:scale-[0.98]"
+                    >
+                        <SparklesIcon className="w-5 h-5" />
+                        {isComparing ? 'Comparing...' : verdict ? 'Ask Again' : 'Ask for a Verdict'}
+                    </button>
+                    {verdictError && <p className="text-sm text-red-300">{verdictError}</p>}
+                    {verdict && <p className="text-sm text-slate-200 animate-fade-in">{verdict.verdict}</p>}
+                </section>
+            </div>
+        </div>
+    );
+};
+
+export default ComparisonPanel;
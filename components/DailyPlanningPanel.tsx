@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import type { AnalyzedEmployee, DayPlanRecord, Task, TaskTemplate } from '../types';
+import { WEEKDAY_LABELS } from '../services/dailyPlanService';
+import { fromIsoDate } from '../services/taskAssignmentService';
+import { FAIRNESS_WINDOWS, type WorkloadSummary } from '../services/workloadFairnessService';
+import { CalendarIcon } from './icons';
+
+interface DailyPlanningPanelProps {
+    tasks: Task[];
+    templates: TaskTemplate[];
+    history: DayPlanRecord[];
+    employees: AnalyzedEmployee[];
+    // Workload over the fairness window, as used when distributing tasks.
+    workload: WorkloadSummary[];
+    fairnessWindowDays: number;
+    onChangeFairnessWindow: (days: number) => void;
+    onSaveTemplate: (name: string) => void;
+    onUpdateTemplate: (template: TaskTemplate) => void;
+    onApplyTemplate: (templateId: string) => void;
+    onDeleteTemplate: (templateId: string) => void;
+    onClose: () => void;
+}
+
+const inputClassName = "bg-slate-900/50 border border-slate-700 rounded-md py-1 px-2 text-sm text-slate-200 focus:ring-2 focus:ring-teal-500 outline-none";
+
+const formatDay = (isoDate: string) =>
+    fromIsoDate(isoDate).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+    <section>
+        <h3 className="text-sm font-semibold uppercase tracking-wider text-teal-300 mb-2">{title}</h3>
+        {children}
+    </section>
+);
+
+const DailyPlanningPanel: React.FC<DailyPlanningPanelProps> = ({
+    tasks, templates, history, employees, workload, fairnessWindowDays, onChangeFairnessWindow,
+    onSaveTemplate, onUpdateTemplate, onApplyTemplate, onDeleteTemplate, onClose,
+}) => {
+    const [templateName, setTemplateName] = useState('');
+    const [expandedDate, setExpandedDate] = useState<string | null>(null);
+
+    const names = new Map(employees.map(emp => [emp.id, emp.name]));
+    const averageHours = workload.length === 0 ? 0 : workload.reduce((sum, summary) => sum + summary.effortHours, 0) / workload.length;
+    const maxHours = Math.max(1, ...workload.map(summary => summary.effortHours));
+
+    const toggleWeekday = (template: TaskTemplate, day: number) => onUpdateTemplate({
+        ...template,
+        repeatOn: template.repeatOn.includes(day)
+            ? template.repeatOn.filter(d => d !== day)
+            : [...template.repeatOn, day].sort((a, b) => a - b),
+    });
+
+    const handleSaveTemplate = () => {
+        if (!templateName.trim() || tasks.length === 0) return;
+        onSaveTemplate(templateName);
+        setTemplateName('');
+    };
+
+    return (
+        <div className="fixed inset-0 z-20 flex items-center justify-center bg-slate-950/70 p-4" onClick={onClose}>
+            <div className="panel-3d aurora-border p-6 rounded-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto animate-fade-in" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-start gap-4 mb-4">
+                    <h2 className="text-xl font-semibold flex items-center gap-2 text-teal-300">
+                        <CalendarIcon className="w-6 h-6" />
+                        Templates, History &amp; Fairness
+                    </h2>
+                    <button onClick={onClose} className="text-slate-400 hover:text-white text-xl leading-none">&times;</button>
+                </div>
+
+                <div className="space-y-6">
+                    <Section title="Templates">
+                        <p className="text-xs text-slate-500 mb-2">Templates repeat on the weekdays ticked: starting a day on one of them adds the template's tasks automatically.</p>
+                        {templates.length === 0 ? (
+                            <p className="text-sm text-slate-500 italic mb-2">No templates yet.</p>
+                        ) : (
+                            <ul className="space-y-2 mb-3">
+                                {templates.map(template => (
+                                    <li key={template.id} className="bg-slate-900/60 p-3 rounded-lg border border-slate-700/80">
+                                        <div className="flex justify-between items-center gap-2 flex-wrap">
+                                            <input
+                                                type="text"
+                                                value={template.name}
+                                                onChange={(e) => onUpdateTemplate({ ...template, name: e.target.value })}
+                                                className={`${inputClassName} flex-1 min-w-[8rem]`}
+                                            />
+                                            <div className="flex items-center gap-3 text-sm">
+                                                <button onClick={() => onApplyTemplate(template.id)} className="text-teal-300 hover:text-white transition">Add to plan</button>
+                                                <button onClick={() => onDeleteTemplate(template.id)} className="text-slate-400 hover:text-red-300 transition">Delete</button>
+                                            </div>
+                                        </div>
+                                        <div className="flex items-center gap-1 mt-2 flex-wrap">
+                                            {WEEKDAY_LABELS.map((label, day) => (
+                                                <button
+                                                    key={label}
+                                                    onClick={() => toggleWeekday(template, day)}
+                                                    className={`text-xs px-2 py-0.5 rounded border transition ${template.repeatOn.includes(day) ? 'border-teal-500 bg-teal-500/20 text-teal-200' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+                                                >
+                                                    {label}
+                                                </button>
+                                            ))}
+                                            <span className="text-xs text-slate-500 ml-2 truncate" title={template.tasks.map(task => task.title).join(', ')}>
+                                                {template.tasks.length} {template.tasks.length === 1 ? 'task' : 'tasks'}: {template.tasks.map(task => task.title).join(', ')}
+                                            </span>
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="text"
+                                value={templateName}
+                                onChange={(e) => setTemplateName(e.target.value)}
+                                onKeyDown={(e) => e.key === 'Enter' && handleSaveTemplate()}
+                                placeholder="Template name"
+                                className={`${inputClassName} flex-1`}
+                            />
+                            <button
+                                onClick={handleSaveTemplate}
+                                disabled={!templateName.trim() || tasks.length === 0}
+                                className="text-sm text-teal-300 hover:text-white disabled:text-slate-600 disabled:cursor-not-allowed transition"
+                                title={tasks.length === 0 ? 'Add tasks first' : 'Save the current task list as a template'}
+                            >
+                                Save current tasks ({tasks.length})
+                            </button>
+                        </div>
+                    </Section>
+
+                    <Section title="Workload fairness">
+                        <div className="flex items-center justify-between gap-2 mb-2 flex-wrap">
+                            <p className="text-xs text-slate-500">Recorded days before the current plan. Distribution steers work, undesirable work especially, away from people above the average.</p>
+                            <select value={fairnessWindowDays} onChange={(e) => onChangeFairnessWindow(Number(e.target.value))} className={inputClassName}>
+                                {FAIRNESS_WINDOWS.map(window => <option key={window.days} value={window.days}>{window.label}</option>)}
+                            </select>
+                        </div>
+                        {workload.every(summary => summary.taskCount === 0) ? (
+                            <p className="text-sm text-slate-500 italic">No recorded work in this period. Days are recorded when the next day is started.</p>
+                        ) : (
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="text-left text-slate-400 border-b border-slate-700">
+                                        <th className="py-1.5 font-medium">Employee</th>
+                                        <th className="py-1.5 font-medium text-right">Days</th>
+                                        <th className="py-1.5 font-medium text-right">Tasks</th>
+                                        <th className="py-1.5 font-medium text-right">Hours</th>
+                                        <th className="py-1.5 font-medium text-right">Undesirable</th>
+                                        <th className="py-1.5 pl-3 w-1/4"></th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {[...workload].sort((a, b) => b.effortHours - a.effortHours).map(summary => (
+                                        <tr key={summary.employeeId} className="border-b border-slate-800 text-slate-300">
+                                            <td className="py-1.5">{names.get(summary.employeeId)}</td>
+                                            <td className="py-1.5 text-right">{summary.activeDays}</td>
+                                            <td className="py-1.5 text-right">{summary.taskCount}</td>
+                                            <td className="py-1.5 text-right">{summary.effortHours}</td>
+                                            <td className="py-1.5 text-right">{summary.undesirableCount} ({summary.undesirableHours}h)</td>
+                                            <td className="py-1.5 pl-3">
+                                                <div className="h-2 bg-slate-800 rounded" title={`${summary.effortHours}h against a team average of ${averageHours.toFixed(1)}h`}>
+                                                    <div
+                                                        className={`h-2 rounded ${summary.effortHours > averageHours * 1.25 ? 'bg-amber-400' : 'bg-teal-500'}`}
+                                                        style={{ width: `${(summary.effortHours / maxHours) * 100}%` }}
+                                                    />
+                                                </div>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </Section>
+
+                    <Section title="History">
+                        {history.length === 0 ? (
+                            <p className="text-sm text-slate-500 italic">No days recorded yet.</p>
+                        ) : (
+                            <ul className="space-y-1 text-sm">
+                                {[...history].reverse().map(day => (
+                                    <li key={day.date}>
+                                        <button
+                                            onClick={() => setExpandedDate(expandedDate === day.date ? null : day.date)}
+                                            className="w-full flex justify-between gap-2 text-slate-300 hover:text-white transition"
+                                        >
+                                            <span>{formatDay(day.date)}</span>
+                                            <span className="text-slate-400">
+                                                {day.entries.length} assigned{day.unassignedCount > 0 && ` · ${day.unassignedCount} unassigned`}
+                                            </span>
+                                        </button>
+                                        {expandedDate === day.date && (
+                                            <ul className="mt-1 mb-2 pl-3 border-l border-slate-700 space-y-0.5 text-xs text-slate-400 animate-fade-in">
+                                                {day.entries.map((entry, index) => (
+                                                    <li key={index}>
+                                                        <span className="text-slate-300">{entry.employeeName}</span> · {entry.taskTitle} ({entry.effortHours}h)
+                                                        {entry.undesirable && <span className="text-amber-300"> · undesirable</span>}
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </Section>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default DailyPlanningPanel;
@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import type { AnalyzedEmployee } from '../types';
+import {
+    defaultMergeChoices,
+    MERGE_FIELD_LABELS,
+    mergeEmployees,
+    type DuplicateMatch,
+    type MergeField,
+    type MergeSource,
+} from '../services/duplicateDetectionService';
+import { DocumentDuplicateIcon } from './icons';
+
+interface DuplicateReviewPanelProps {
+    // Most likely first.
+    matches: DuplicateMatch[];
+    employeesById: Map<string, AnalyzedEmployee>;
+    // `merged` keeps the later entry's id; `replacedId` is the earlier entry leaving the roster.
+    onMerge: (merged: AnalyzedEmployee, replacedId: string) => void;
+    onDismiss: (earlierId: string, laterId: string) => void;
+    onClose: () => void;
+}
+
+const MERGE_FIELDS = Object.keys(MERGE_FIELD_LABELS) as MergeField[];
+
+// One line per field, enough to tell the two versions apart.
+const describeField = (employee: AnalyzedEmployee, field: MergeField): string => {
+    switch (field) {
+        case 'skillLevels': return Object.entries(employee.skillLevels).map(([skill, level]) => `${skill} (${level})`).join(', ');
+        case 'experienceYears': return `${employee.experienceYears} yrs`;
+        case 'capacityHours': return `${employee.capacityHours} h/day`;
+        case 'workHistory': return employee.workHistory.map(entry => `${entry.title}, ${entry.employer}`).join('; ');
+        case 'education': return employee.education.map(entry => `${entry.degree} ${entry.field}`.trim()).join('; ');
+        case 'certifications': return employee.certifications.map(cert => cert.name).join('; ');
+        case 'contact': return [employee.contact.email, employee.contact.phone, ...employee.contact.links].filter(Boolean).join(' · ');
+        case 'skills':
+        case 'languages': return employee[field].join(', ');
+        default: return employee[field];
+    }
+};
+
+const sourceOf = (employee: AnalyzedEmployee) =>
+    employee.provenance
+        ? `${employee.provenance.sourceFileName}, ${new Date(employee.provenance.extractedAt).toLocaleDateString()}`
+        : 'No extraction record';
+
+const DuplicateReviewPanel: React.FC<DuplicateReviewPanelProps> = ({ matches, employeesById, onMerge, onDismiss, onClose }) => {
+    const [selectedKey, setSelectedKey] = useState<string | null>(null);
+    const [choices, setChoices] = useState<Record<MergeField, MergeSource> | null>(null);
+
+    const keyOf = (match: DuplicateMatch) => `${match.earlierId}:${match.laterId}`;
+    // Falls back to the first pair once the selected one is merged or dismissed.
+    const selected = matches.find(match => keyOf(match) === selectedKey) ?? matches[0];
+    const earlier = selected && employeesById.get(selected.earlierId);
+    const later = selected && employeesById.get(selected.laterId);
+    const activeChoices = selected && keyOf(selected) === selectedKey && choices
+        ? choices
+        : earlier && later ? defaultMergeChoices(earlier, later) : null;
+
+    const selectMatch = (match: DuplicateMatch) => {
+        setSelectedKey(keyOf(match));
+        setChoices(null);
+    };
+
+    const choose = (field: MergeField, source: MergeSource) => {
+        if (!selected || !activeChoices) return;
+        setSelectedKey(keyOf(selected));
+        setChoices({ ...activeChoices, [field]: source });
+    };
+
+    const handleMerge = () => {
+        if (!earlier || !later || !activeChoices) return;
+        onMerge(mergeEmployees(earlier, later, activeChoices), earlier.id);
+        setSelectedKey(null);
+        setChoices(null);
+    };
+
+    return (
+        <div className="fixed inset-0 z-20 flex items-center justify-center bg-slate-950/70 p-4" onClick={onClose}>
+            <div className="panel-3d aurora-border p-6 rounded-xl w-full max-w-5xl max-h-[90vh] overflow-y-auto animate-fade-in" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-start gap-4 mb-4">
+                    <h2 className="text-xl font-semibold flex items-center gap-2 text-violet-300">
+                        <DocumentDuplicateIcon className="w-6 h-6" />
+                        Possible Duplicates
+                    </h2>
+                    <button onClick={onClose} className="text-slate-400 hover:text-white text-xl leading-none">&times;</button>
+                </div>
+
+                {matches.length === 0 ? (
+                    <p className="text-sm text-slate-400 italic">No likely duplicates on the roster.</p>
+                ) : (
+                    <div className="grid grid-cols-1 md:grid-cols-[16rem_1fr] gap-6">
+                        <ul className="space-y-2">
+                            {matches.map(match => (
+                                <li key={keyOf(match)}>
+                                    <button
+                                        onClick={() => selectMatch(match)}
+                                        className={`w-full text-left p-3 rounded-lg border text-sm transition ${match === selected ? 'border-violet-500 bg-violet-500/10' : 'border-slate-700/80 bg-slate-900/60 hover:border-slate-500'}`}
+                                    >
+                                        <span className="flex justify-between gap-2">
+                                            <span className="text-slate-200 truncate">
+                                                {employeesById.get(match.earlierId)?.name} · {employeesById.get(match.laterId)?.name}
+                                            </span>
+                                            <span className="text-amber-300 shrink-0">{Math.round(match.score * 100)}%</span>
+                                        </span>
+                                        <span className="block text-xs text-slate-500 mt-1">{match.reasons.join(' · ')}</span>
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+
+                        {earlier && later && activeChoices && (
+                            <div>
+                                <p className="text-sm text-slate-400 mb-3">
+                                    Pick which version of each field to keep. The merged entry keeps the newer resume; the earlier one is kept in its history.
+                                </p>
+                                <div className="overflow-x-auto">
+                                    <table className="w-full text-sm">
+                                        <thead>
+                                            <tr className="text-left border-b border-slate-700">
+                                                <th className="py-2 pr-3 w-32"></th>
+                                                {[earlier, later].map((employee, index) => (
+                                                    <th key={employee.id} className="py-2 px-2 font-semibold text-slate-100">
+                                                        {index === 0 ? 'Earlier' : 'Newer'}
+                                                        <span className="block text-xs font-normal text-slate-500">{sourceOf(employee)}</span>
+                                                    </th>
+                                                ))}
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {MERGE_FIELDS.map(field => (
+                                                <tr key={field} className="border-b border-slate-800 text-slate-300 align-top">
+                                                    <td className="py-2 pr-3 text-slate-400">{MERGE_FIELD_LABELS[field]}</td>
+                                                    {(['earlier', 'later'] as const).map(source => {
+                                                        const employee = source === 'earlier' ? earlier : later;
+                                                        return (
+                                                            <td key={source} className="py-2 px-2">
+                                                                <label className={`flex items-start gap-2 cursor-pointer ${activeChoices[field] === source ? 'text-slate-100' : 'text-slate-500'}`}>
+                                                                    <input
+                                                                        type="radio"
+                                                                        name={`merge-${field}`}
+                                                                        checked={activeChoices[field] === source}
+                                                                        onChange={() => choose(field, source)}
+                                                                        className="accent-violet-500 mt-1"
+                                                                    />
+                                                                    <span className="break-words">{describeField(employee, field) || <span className="italic">empty</span>}</span>
+                                                                </label>
+                                                            </td>
+                                                        );
+                                                    })}
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                                <div className="flex justify-end gap-3 mt-4">
+                                    <button
+                                        onClick={() => onDismiss(earlier.id, later.id)}
+                                        className="text-sm text-slate-300 hover:text-white border border-slate-700 hover:border-slate-500 rounded-md py-2 px-4 transition"
+                                    >
+                                        Not the same person
+                                    </button>
+                                    <button
+                                        onClick={handleMerge}
+                                        className="bg-gradient-to-r from-violet-600 to-indigo-600 hover:from-violet-700 hover:to-indigo-700 text-white font-bold py-2 px-4 rounded-md transition duration-300 ease-in-out shadow-lg hover:shadow-violet-500/30 active:scale-[0.98]"
+                                    >
+                                        Merge into one
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default DuplicateReviewPanel;
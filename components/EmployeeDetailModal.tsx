@@ -0,0 +1,354 @@
+import React, { useState } from 'react';
+import type { AnalyzedEmployee, ResumeField } from '../types';
+import { RESUME_FIELD_LABELS, revertToExtracted } from '../services/employeeService';
+import { findSkill, type SkillIndex } from '../services/skillTaxonomyService';
+import { UserCircleIcon } from './icons';
+import SkillChip from './SkillChip';
+
+interface EmployeeDetailModalProps {
+    employee: AnalyzedEmployee;
+    skillIndex: SkillIndex;
+    onSave: (employee: AnalyzedEmployee) => void;
+    // False when the original resume is not stored in this browser.
+    canReanalyze: boolean;
+    isReanalyzing: boolean;
+    onReanalyze: () => void;
+    onDelete: () => void;
+    onClose: () => void;
+}
+
+const inputClassName = "w-full bg-slate-900/50 border border-slate-700 rounded-md p-2 focus:ring-2 focus:ring-violet-500 focus:border-violet-500 outline-none transition placeholder-slate-400 text-sm";
+
+const splitList = (value: string, separator: string | RegExp = ','): string[] =>
+    value.split(separator).map(item => item.trim()).filter(Boolean);
+
+interface RowField<T> {
+    key: keyof T & string;
+    placeholder: string;
+}
+
+interface RowEditorProps<T extends Record<string, string>> {
+    rows: T[];
+    fields: RowField<T>[];
+    emptyRow: T;
+    addLabel: string;
+    onChange: (rows: T[]) => void;
+}
+
+const RowEditor = <T extends Record<string, string>>({ rows, fields, emptyRow, addLabel, onChange }: RowEditorProps<T>) => (
+    <div className="space-y-2">
+        {rows.map((row, index) => (
+            <div key={index} className="flex items-center gap-2">
+                {fields.map(field => (
+                    <input
+                        key={field.key}
+                        type="text"
+                        value={row[field.key]}
+                        placeholder={field.placeholder}
+                        onChange={(e) => onChange(rows.map((r, i) => i === index ? { ...r, [field.key]: e.target.value } : r))}
+                        className={inputClassName}
+                    />
+                ))}
+                <button
+                    type="button"
+                    onClick={() => onChange(rows.filter((_, i) => i !== index))}
+                    className="text-slate-400 hover:text-red-300 px-2"
+                    title="Remove"
+                >
+                    &times;
+                </button>
+            </div>
+        ))}
+        <button type="button" onClick={() => onChange([...rows, emptyRow])} className="text-sm text-violet-300 hover:text-white transition">
+            {addLabel}
+        </button>
+    </div>
+);
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+    <section>
+        <h3 className="text-sm font-semibold uppercase tracking-wider text-violet-300 mb-2">{title}</h3>
+        {children}
+    </section>
+);
+
+const EmptyValue = () => <p className="text-sm text-slate-500 italic">Not stated</p>;
+
+const EmployeeDetailModal: React.FC<EmployeeDetailModalProps> = ({ employee, skillIndex, onSave, canReanalyze, isReanalyzing, onReanalyze, onDelete, onClose }) => {
+    const [isEditing, setIsEditing] = useState(false);
+    const [confirmingDelete, setConfirmingDelete] = useState(false);
+    const [draft, setDraft] = useState<AnalyzedEmployee>(employee);
+    const [skillsText, setSkillsText] = useState(employee.skills.join(', '));
+    const [languagesText, setLanguagesText] = useState(employee.languages.join(', '));
+    const [linksText, setLinksText] = useState(employee.contact.links.join('\n'));
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!draft.name.trim()) return;
+        onSave({
+            ...draft,
+            name: draft.name.trim(),
+            skills: splitList(skillsText),
+            languages: splitList(languagesText),
+            contact: { ...draft.contact, links: splitList(linksText, /\n/) },
+        });
+        setIsEditing(false);
+    };
+
+    // Re-analysis can change the employee while the modal is open, so drafts start from the latest values.
+    const resetDraft = () => {
+        setDraft(employee);
+        setSkillsText(employee.skills.join(', '));
+        setLanguagesText(employee.languages.join(', '));
+        setLinksText(employee.contact.links.join('\n'));
+    };
+
+    const handleStartEdit = () => {
+        resetDraft();
+        setIsEditing(true);
+    };
+
+    const handleCancelEdit = () => {
+        resetDraft();
+        setIsEditing(false);
+    };
+
+    const handleDelete = () => {
+        if (confirmingDelete) onDelete(); else setConfirmingDelete(true);
+    };
+
+    const provenance = employee.provenance;
+
+    return (
+        <div className="fixed inset-0 z-20 flex items-center justify-center bg-slate-950/70 p-4" onClick={onClose}>
+            <div className="panel-3d aurora-border p-6 rounded-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto animate-fade-in" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-start gap-4 mb-4">
+                    <h2 className="text-xl font-semibold flex items-center gap-2 text-violet-300">
+                        <UserCircleIcon className="w-6 h-6" />
+                        {isEditing ? 'Edit Employee' : employee.name}
+                    </h2>
+                    <div className="flex items-center gap-3">
+                        {!isEditing && (
+                            <>
+                                <button onClick={handleStartEdit} className="text-sm text-violet-300 hover:text-white transition">Edit</button>
+                                <button
+                                    onClick={onReanalyze}
+                                    disabled={!canReanalyze || isReanalyzing}
+                                    className="text-sm text-violet-300 hover:text-white transition disabled:opacity-40 disabled:cursor-not-allowed"
+                                    title={canReanalyze ? 'Analyze the original resume again; manual edits are kept' : 'The original resume is not stored in this browser'}
+                                >
+                                    {isReanalyzing ? 'Re-analyzing...' : 'Re-analyze'}
+                                </button>
+                                <button onClick={handleDelete} className="text-sm text-red-300 hover:text-red-200 transition">
+                                    {confirmingDelete ? 'Confirm delete' : 'Delete'}
+                                </button>
+                            </>
+                        )}
+                        <button onClick={onClose} className="text-slate-400 hover:text-white text-xl leading-none">&times;</button>
+                    </div>
+                </div>
+
+                {isEditing ? (
+                    <form onSubmit={handleSave} className="space-y-5">
+                        <Section title="Profile">
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                                <input type="text" value={draft.name} placeholder="Name" onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))} className={inputClassName} />
+                                <input type="text" value={draft.location} placeholder="Location" onChange={(e) => setDraft(prev => ({ ...prev, location: e.target.value }))} className={inputClassName} />
+                                <label className="flex items-center gap-2 text-sm text-slate-400">
+                                    Years of experience
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        step={0.5}
+                                        value={draft.experienceYears}
+                                        onChange={(e) => setDraft(prev => ({ ...prev, experienceYears: Math.max(0, Number(e.target.value) || 0) }))}
+                                        className={`${inputClassName} w-24`}
+                                    />
+                                </label>
+                                <label className="flex items-center gap-2 text-sm text-slate-400">
+                                    Available hours
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        step={0.5}
+                                        value={draft.capacityHours}
+                                        onChange={(e) => setDraft(prev => ({ ...prev, capacityHours: Math.max(0, Number(e.target.value) || 0) }))}
+                                        className={`${inputClassName} w-24`}
+                                    />
+                                </label>
+                                <input type="text" value={languagesText} placeholder="Languages (comma-separated)" onChange={(e) => setLanguagesText(e.target.value)} className={`${inputClassName} sm:col-span-2`} />
+                            </div>
+                            <textarea value={draft.summary} rows={3} placeholder="Summary" onChange={(e) => setDraft(prev => ({ ...prev, summary: e.target.value }))} className={`${inputClassName} mt-2`} />
+                            <input type="text" value={skillsText} placeholder="Skills (comma-separated)" onChange={(e) => setSkillsText(e.target.value)} className={`${inputClassName} mt-2`} />
+                        </Section>
+                        <Section title="Work History">
+                            <RowEditor
+                                rows={draft.workHistory}
+                                fields={[
+                                    { key: 'title', placeholder: 'Title' },
+                                    { key: 'employer', placeholder: 'Employer' },
+                                    { key: 'startDate', placeholder: 'Start (YYYY-MM)' },
+                                    { key: 'endDate', placeholder: 'End or Present' },
+                                ]}
+                                emptyRow={{ employer: '', title: '', startDate: '', endDate: '' }}
+                                addLabel="+ Add role"
+                                onChange={(workHistory) => setDraft(prev => ({ ...prev, workHistory }))}
+                            />
+                        </Section>
+                        <Section title="Education">
+                            <RowEditor
+                                rows={draft.education}
+                                fields={[
+                                    { key: 'degree', placeholder: 'Degree' },
+                                    { key: 'field', placeholder: 'Field' },
+                                    { key: 'institution', placeholder: 'Institution' },
+                                    { key: 'graduationYear', placeholder: 'Year' },
+                                ]}
+                                emptyRow={{ institution: '', degree: '', field: '', graduationYear: '' }}
+                                addLabel="+ Add education"
+                                onChange={(education) => setDraft(prev => ({ ...prev, education }))}
+                            />
+                        </Section>
+                        <Section title="Certifications">
+                            <RowEditor
+                                rows={draft.certifications}
+                                fields={[
+                                    { key: 'name', placeholder: 'Certification' },
+                                    { key: 'issuer', placeholder: 'Issuer' },
+                                    { key: 'year', placeholder: 'Year' },
+                                ]}
+                                emptyRow={{ name: '', issuer: '', year: '' }}
+                                addLabel="+ Add certification"
+                                onChange={(certifications) => setDraft(prev => ({ ...prev, certifications }))}
+                            />
+                        </Section>
+                        <Section title="Contact">
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                                <input type="email" value={draft.contact.email} placeholder="Email" onChange={(e) => setDraft(prev => ({ ...prev, contact: { ...prev.contact, email: e.target.value } }))} className={inputClassName} />
+                                <input type="tel" value={draft.contact.phone} placeholder="Phone" onChange={(e) => setDraft(prev => ({ ...prev, contact: { ...prev.contact, phone: e.target.value } }))} className={inputClassName} />
+                            </div>
+                            <textarea value={linksText} rows={2} placeholder="Links (one per line)" onChange={(e) => setLinksText(e.target.value)} className={`${inputClassName} mt-2`} />
+                        </Section>
+                        <div className="flex justify-end gap-3">
+                            <button type="button" onClick={handleCancelEdit} className="py-2 px-4 rounded-md text-slate-300 hover:text-white transition">Cancel</button>
+                            <button
+                                type="submit"
+                                disabled={!draft.name.trim()}
+                                className="bg-gradient-to-r from-violet-600 to-indigo-600 hover:from-violet-700 hover:to-indigo-700 text-white font-bold py-2 px-4 rounded-md transition duration-300 ease-in-out disabled:from-slate-600 disabled:to-slate-700 disabled:cursor-not-allowed disabled:opacity-50 shadow-lg hover:shadow-violet-500/30 active:scale-[0.98]"
+                            >
+                                Save Changes
+                            </button>
+                        </div>
+                    </form>
+                ) : (
+                    <div className="space-y-5">
+                        <div className="flex flex-wrap gap-2 text-sm">
+                            <span className="bg-slate-700 text-slate-300 px-2 py-0.5 rounded">{employee.experienceYears} yrs exp</span>
+                            <span className="bg-slate-700 text-slate-300 px-2 py-0.5 rounded">{employee.capacityHours}h available</span>
+                            {employee.location && <span className="bg-slate-700 text-slate-300 px-2 py-0.5 rounded">{employee.location}</span>}
+                            {employee.languages.map(language => (
+                                <span key={language} className="bg-teal-500/20 text-teal-300 px-2 py-0.5 rounded">{language}</span>
+                            ))}
+                        </div>
+                        <p className="text-sm text-slate-300">{employee.summary}</p>
+                        <div className="flex flex-wrap gap-2">
+                            {employee.skills.map(skill => (
+                                <SkillChip key={skill} skill={skill} definition={findSkill(skill, skillIndex)} level={employee.skillLevels[skill]} />
+                            ))}
+                        </div>
+                        <Section title="Work History">
+                            {employee.workHistory.length === 0 ? <EmptyValue /> : (
+                                <ul className="space-y-2">
+                                    {employee.workHistory.map((role, index) => (
+                                        <li key={index} className="text-sm">
+                                            <p className="text-slate-100 font-medium">{role.title} · {role.employer}</p>
+                                            <p className="text-slate-400">{role.startDate} – {role.endDate}</p>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </Section>
+                        <Section title="Education">
+                            {employee.education.length === 0 ? <EmptyValue /> : (
+                                <ul className="space-y-2">
+                                    {employee.education.map((entry, index) => (
+                                        <li key={index} className="text-sm">
+                                            <p className="text-slate-100 font-medium">{[entry.degree, entry.field].filter(Boolean).join(', ')}</p>
+                                            <p className="text-slate-400">{[entry.institution, entry.graduationYear].filter(Boolean).join(' · ')}</p>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </Section>
+                        <Section title="Certifications">
+                            {employee.certifications.length === 0 ? <EmptyValue /> : (
+                                <ul className="space-y-1 text-sm text-slate-300">
+                                    {employee.certifications.map((cert, index) => (
+                                        <li key={index}>{[cert.name, cert.issuer, cert.year].filter(Boolean).join(' · ')}</li>
+                                    ))}
+                                </ul>
+                            )}
+                        </Section>
+                        <Section title="Contact">
+                            {!employee.contact.email && !employee.contact.phone && employee.contact.links.length === 0 ? <EmptyValue /> : (
+                                <ul className="space-y-1 text-sm text-slate-300">
+                                    {employee.contact.email && <li><a href={`mailto:${employee.contact.email}`} className="hover:text-violet-300">{employee.contact.email}</a></li>}
+                                    {employee.contact.phone && <li>{employee.contact.phone}</li>}
+                                    {employee.contact.links.map(link => (
+                                        <li key={link}><a href={link} target="_blank" rel="noopener noreferrer" className="hover:text-violet-300 break-all">{link}</a></li>
+                                    ))}
+                                </ul>
+                            )}
+                        </Section>
+                        <Section title="Source">
+                            {!provenance ? (
+                                <p className="text-sm text-slate-500 italic">No extraction record; this employee was imported from an older workspace.</p>
+                            ) : (
+                                <>
+                                    <p className="text-sm text-slate-400">
+                                        Extracted from {provenance.sourceFileName} by {provenance.model} ({provenance.providerLabel}) on {new Date(provenance.extractedAt).toLocaleString()}.
+                                    </p>
+                                    <ul className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1 mt-2 text-sm">
+                                        {(Object.keys(RESUME_FIELD_LABELS) as ResumeField[]).map(field => (
+                                            <li key={field} className="flex items-center justify-between gap-2">
+                                                <span className="text-slate-300">{RESUME_FIELD_LABELS[field]}</span>
+                                                {provenance.manualFields.includes(field) ? (
+                                                    <span className="flex items-center gap-2">
+                                                        <span className="text-xs px-1.5 rounded bg-amber-500/20 text-amber-300">edited</span>
+                                                        <button onClick={() => onSave(revertToExtracted(employee, field))} className="text-xs text-slate-400 hover:text-violet-300 transition" title="Restore the extracted value">
+                                                            Revert
+                                                        </button>
+                                                    </span>
+                                                ) : (
+                                                    <span className="text-xs px-1.5 rounded bg-violet-500/20 text-violet-300">AI</span>
+                                                )}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </>
+                            )}
+                            {employee.resumeHistory && employee.resumeHistory.length > 0 && (
+                                <>
+                                    <p className="text-sm text-slate-300 mt-3">Earlier versions, merged from duplicate entries:</p>
+                                    <ul className="text-sm text-slate-400 list-disc list-inside mt-1">
+                                        {[...employee.resumeHistory].reverse().map(version => (
+                                            <li key={version.employeeId}>
+                                                {version.provenance
+                                                    ? `${version.provenance.sourceFileName}, extracted ${new Date(version.provenance.extractedAt).toLocaleDateString()}`
+                                                    : 'Entry without an extraction record'}
+                                                {version.details.name !== employee.name && ` as ${version.details.name}`}
+                                                {' '}· merged {new Date(version.mergedAt).toLocaleDateString()}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </>
+                            )}
+                        </Section>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default EmployeeDetailModal;
@@ -0,0 +1,498 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { Invalidation, JobProfile, RankedEmployee } from '../types';
+import type { RankingProgress } from '../services/rankingCalibrationService';
+import type { ReportFormat } from '../services/reportExportService';
+import { findSkill, type SkillIndex } from '../services/skillTaxonomyService';
+import {
+    EMPTY_ROSTER_FILTER,
+    filterRoster,
+    isFilterActive,
+    rankOf,
+    ROSTER_SORT_LABELS,
+    sortRoster,
+    type RosterEntry,
+    type RosterFilter,
+    type RosterSort,
+    type RosterSortKey,
+} from '../services/rosterViewService';
+import ReportExportMenu from './ReportExportMenu';
+import ScoreBreakdownView from './ScoreBreakdownView';
+import SkillChip from './SkillChip';
+import { ClockIcon, ScaleIcon } from './icons';
+
+interface EmployeeListProps {
+    // Ranked entries for the active profile once it has been ranked, plain employees before.
+    employees: RosterEntry[];
+    // Workspace position of each employee id, for the "date added" sort.
+    addedOrder: Map<string, number>;
+    profiles: JobProfile[];
+    activeProfileId: string;
+    onSelectProfile: (profileId: string) => void;
+    onOpenEmployee: (employeeId: string) => void;
+    skillIndex: SkillIndex;
+    onRank: () => void;
+    isRanking: boolean;
+    rankingProgress: RankingProgress | null;
+    isRanked: boolean;
+    runCount: number;
+    driftingIds: Set<string>;
+    onOpenHistory: () => void;
+    blindRanking: boolean;
+    onToggleBlindRanking: (blind: boolean) => void;
+    onOpenAudit: () => void;
+    // Pairs that look like the same person added twice.
+    duplicateCount: number;
+    onReviewDuplicates: () => void;
+    onDeleteEmployees: (employeeIds: string[]) => void;
+    onRerankEmployees: (employeeIds: string[]) => void;
+    maxCompared: number;
+    onCompareEmployees: (employeeIds: string[]) => void;
+    // Changes recorded against the active profile's ranking since it was produced.
+    staleReasons: Invalidation[];
+    onDismissStale: () => void;
+    // Employees whose original resume is stored and can be analyzed again.
+    reanalyzableIds: Set<string>;
+    reanalyzingIds: Set<string>;
+    onReanalyzeEmployee: (employeeId: string) => void;
+    onExportRanking: (format: ReportFormat) => void;
+}
+
+type RosterView = 'cards' | 'table';
+
+const controlClassName = "bg-slate-900/50 border border-slate-700 rounded-md py-1 px-2 text-sm text-slate-200 focus:ring-2 focus:ring-violet-500 outline-none";
+
+// Reasons listed in the stale-ranking notice before the rest are summarized.
+const MAX_SHOWN_REASONS = 4;
+
+// Numeric keys read best largest-first; text and insertion order read best ascending.
+const DESCENDING_BY_DEFAULT: Record<RosterSortKey, boolean> = {
+    added: false,
+    rank: true,
+    name: false,
+    experience: true,
+    skills: true,
+};
+
+const parseBound = (value: string): number | null =>
+    value.trim() === '' || !Number.isFinite(Number(value)) ? null : Number(value);
+
+const RangeInputs: React.FC<{ label: string; min: number | null; max: number | null; onChange: (min: number | null, max: number | null) => void }> = ({ label, min, max, onChange }) => (
+    <label className="flex items-center gap-1 text-sm text-slate-400">
+        {label}
+        <input type="number" min={0} value={min ?? ''} placeholder="min" onChange={(e) => onChange(parseBound(e.target.value), max)} className={`${controlClassName} w-16`} />
+        –
+        <input type="number" min={0} value={max ?? ''} placeholder="max" onChange={(e) => onChange(min, parseBound(e.target.value))} className={`${controlClassName} w-16`} />
+    </label>
+);
+
+const EmployeeList: React.FC<EmployeeListProps> = ({
+    employees, addedOrder, profiles, activeProfileId, onSelectProfile, onOpenEmployee, skillIndex,
+    onRank, isRanking, rankingProgress, isRanked, runCount, driftingIds, onOpenHistory,
+    blindRanking, onToggleBlindRanking, onOpenAudit, duplicateCount, onReviewDuplicates, onDeleteEmployees, onRerankEmployees, maxCompared, onCompareEmployees,
+    staleReasons, onDismissStale, reanalyzableIds, reanalyzingIds, onReanalyzeEmployee, onExportRanking,
+}) => {
+    const [view, setView] = useState<RosterView>('cards');
+    const [filter, setFilter] = useState<RosterFilter>(EMPTY_ROSTER_FILTER);
+    const [showFilters, setShowFilters] = useState(false);
+    const [sort, setSort] = useState<RosterSort | null>(null);
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const [confirmingDelete, setConfirmingDelete] = useState(false);
+    const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(null);
+
+    // Until a sort is picked, ranked rosters read best-first and unranked ones in the order added.
+    const activeSort: RosterSort = sort ?? (isRanked ? { key: 'rank', descending: true } : { key: 'added', descending: false });
+    const visible = useMemo(
+        () => sortRoster(filterRoster(employees, filter), activeSort, addedOrder),
+        [employees, filter, activeSort.key, activeSort.descending, addedOrder],
+    );
+    const rosterSkills = useMemo(
+        () => [...new Set<string>(employees.flatMap(emp => emp.skills))].sort((a, b) => a.localeCompare(b)),
+        [employees],
+    );
+
+    // Drop selections for employees that were deleted or replaced.
+    useEffect(() => {
+        const ids = new Set(employees.map(emp => emp.id));
+        setSelectedIds(prev => {
+            const next = new Set([...prev].filter(id => ids.has(id)));
+            return next.size === prev.size ? prev : next;
+        });
+    }, [employees]);
+
+    useEffect(() => setConfirmingDelete(false), [selectedIds]);
+
+    // Entries added after the ranking was produced have no rank yet.
+    const unrankedIds = isRanked ? employees.filter(emp => rankOf(emp) === undefined).map(emp => emp.id) : [];
+    const changedIds = new Set<string>(staleReasons.flatMap(inv => inv.employeeId ? [inv.employeeId] : []));
+    // Profile-wide changes need a full run; changes to individual people only need them re-ranked.
+    const needsFullRerank = staleReasons.some(inv => !inv.employeeId);
+    const reasons = [
+        ...(unrankedIds.length > 0 ? [`${unrankedIds.length} ${unrankedIds.length === 1 ? 'employee was' : 'employees were'} added and not ranked yet`] : []),
+        ...new Set(staleReasons.map(inv => inv.reason)),
+    ];
+
+    const selected = [...selectedIds];
+    const allVisibleSelected = visible.length > 0 && visible.every(emp => selectedIds.has(emp.id));
+
+    const toggleSelected = (id: string) => setSelectedIds(prev => {
+        const next = new Set(prev);
+        if (next.has(id)) next.delete(id); else next.add(id);
+        return next;
+    });
+
+    const toggleAllVisible = () => setSelectedIds(prev => {
+        const next = new Set(prev);
+        visible.forEach(emp => allVisibleSelected ? next.delete(emp.id) : next.add(emp.id));
+        return next;
+    });
+
+    const sortBy = (key: RosterSortKey) => setSort(activeSort.key === key
+        ? { key, descending: !activeSort.descending }
+        : { key, descending: DESCENDING_BY_DEFAULT[key] });
+
+    const updateFilter = (patch: Partial<RosterFilter>) => setFilter(prev => ({ ...prev, ...patch }));
+
+    const handleDelete = () => {
+        if (!confirmingDelete) {
+            setConfirmingDelete(true);
+            return;
+        }
+        onDeleteEmployees(selected);
+        setSelectedIds(new Set());
+    };
+
+    const handleDeleteOne = (id: string) => {
+        if (confirmingDeleteId !== id) {
+            setConfirmingDeleteId(id);
+            return;
+        }
+        onDeleteEmployees([id]);
+        setConfirmingDeleteId(null);
+    };
+
+    const renderEntryActions = (id: string) => (
+        <span className="flex items-center gap-3 text-xs text-slate-400">
+            <button onClick={() => onOpenEmployee(id)} className="hover:text-violet-300 transition">Edit</button>
+            <button
+                onClick={() => onReanalyzeEmployee(id)}
+                disabled={!reanalyzableIds.has(id) || reanalyzingIds.has(id)}
+                className="hover:text-violet-300 transition disabled:opacity-40 disabled:cursor-not-allowed"
+                title={reanalyzableIds.has(id) ? 'Analyze the original resume again; manual edits are kept' : 'The original resume is not stored in this browser'}
+            >
+                {reanalyzingIds.has(id) ? 'Re-analyzing...' : 'Re-analyze'}
+            </button>
+            <button onClick={() => handleDeleteOne(id)} onBlur={() => setConfirmingDeleteId(null)} className="text-red-300/80 hover:text-red-200 transition">
+                {confirmingDeleteId === id ? 'Confirm delete' : 'Delete'}
+            </button>
+        </span>
+    );
+
+    const renderRankStatus = (id: string) => unrankedIds.includes(id)
+        ? <span className="text-xs text-amber-300">not ranked</span>
+        : changedIds.has(id) ? <span className="text-xs text-amber-300" title="Edited since this ranking">changed</span> : null;
+
+    const renderSortHeader = (sortKey: RosterSortKey, className = '') => (
+        <th className={`py-2 font-medium ${className}`}>
+            <button onClick={() => sortBy(sortKey)} className={`hover:text-white transition ${activeSort.key === sortKey ? 'text-violet-300' : ''}`}>
+                {ROSTER_SORT_LABELS[sortKey]}{activeSort.key === sortKey && (activeSort.descending ? ' ▼' : ' ▲')}
+            </button>
+        </th>
+    );
+
+    return (
+        <div className="panel-3d aurora-border p-6 rounded-xl">
+            <div className="flex justify-between items-center gap-3 mb-4 flex-wrap">
+                <div>
+                    <h2 className="text-xl font-semibold text-violet-300">Employee Roster</h2>
+                    <label className="text-sm text-slate-400 flex items-center gap-2 mt-1">
+                        Ranked for
+                        <select
+                            value={activeProfileId}
+                            onChange={(e) => onSelectProfile(e.target.value)}
+                            className="bg-slate-900/50 border border-slate-700 rounded-md py-1 px-2 text-slate-200 focus:ring-2 focus:ring-violet-500 outline-none"
+                        >
+                            {profiles.map(profile => (
+                                <option key={profile.id} value={profile.id}>{profile.title}</option>
+                            ))}
+                        </select>
+                    </label>
+                    {runCount > 0 && (
+                        <button onClick={onOpenHistory} className="text-sm text-slate-400 hover:text-violet-300 transition flex items-center gap-1 mt-1">
+                            <ClockIcon className="w-4 h-4" />
+                            {runCount} {runCount === 1 ? 'run' : 'runs'}
+                            {driftingIds.size > 0 && <span className="text-amber-300">· {driftingIds.size} drifting</span>}
+                        </button>
+                    )}
+                </div>
+                <div className="flex flex-col items-end gap-2">
+                    <button
+                        onClick={onRank}
+                        disabled={employees.length === 0 || isRanking}
+                        className="flex items-center gap-2 bg-gradient-to-r from-violet-600 to-indigo-600 hover:from-violet-700 hover:to-indigo-700 text-white font-bold py-2 px-4 rounded-md transition duration-300 ease-in-out disabled:from-slate-600 disabled:to-slate-700 disabled:cursor-not-allowed disabled:opacity-50 shadow-lg hover:shadow-indigo-500/30 active:scale-[0.98]"
+                    >
+                        {isRanking
+                            ? (rankingProgress && rankingProgress.totalBatches > 1
+                                ? `Analyzing batch ${Math.min(rankingProgress.completedBatches + 1, rankingProgress.totalBatches)} of ${rankingProgress.totalBatches}...`
+                                : 'Analyzing...')
+                            : (isRanked ? 'Re-Analyze Ranks' : 'Analyze & Rank All')}
+                    </button>
+                    <div className="flex items-center gap-3 text-sm text-slate-400">
+                        <label className="flex items-center gap-1 cursor-pointer" title="Send pseudonyms instead of names to the model">
+                            <input type="checkbox" checked={blindRanking} onChange={(e) => onToggleBlindRanking(e.target.checked)} className="accent-violet-500" />
+                            Blind
+                        </label>
+                        <button onClick={onOpenAudit} className="flex items-center gap-1 hover:text-violet-300 transition" title="Check whether names alone change scores">
+                            <ScaleIcon className="w-4 h-4" />
+                            Bias audit
+                        </button>
+                    </div>
+                    {isRanked && <ReportExportMenu onExport={onExportRanking} />}
+                </div>
+            </div>
+
+            {duplicateCount > 0 && (
+                <div className="mb-4 text-sm text-amber-200 bg-amber-900/30 border border-amber-700/60 rounded-lg p-3 animate-fade-in flex justify-between items-center gap-3">
+                    <p>
+                        <span className="font-semibold">{duplicateCount} possible {duplicateCount === 1 ? 'duplicate' : 'duplicates'}</span>
+                        {' '}on the roster: the same person may have been added more than once.
+                    </p>
+                    <button onClick={onReviewDuplicates} className="shrink-0 hover:text-white transition">Review</button>
+                </div>
+            )}
+
+            {isRanked && reasons.length > 0 && (
+                <div className="mb-4 text-sm text-amber-200 bg-amber-900/30 border border-amber-700/60 rounded-lg p-3 animate-fade-in">
+                    <div className="flex justify-between items-start gap-3">
+                        <div>
+                            <p className="font-semibold">This ranking may be out of date:</p>
+                            <ul className="list-disc list-inside text-amber-200/80 mt-1">
+                                {reasons.slice(0, MAX_SHOWN_REASONS).map(reason => <li key={reason}>{reason}</li>)}
+                                {reasons.length > MAX_SHOWN_REASONS && <li>and {reasons.length - MAX_SHOWN_REASONS} more changes</li>}
+                            </ul>
+                        </div>
+                        <div className="flex gap-3 shrink-0">
+                            <button
+                                onClick={() => needsFullRerank ? onRank() : onRerankEmployees([...unrankedIds, ...changedIds])}
+                                disabled={isRanking}
+                                className="hover:text-white disabled:text-slate-600 transition"
+                            >
+                                {needsFullRerank ? 'Re-rank all' : 'Re-rank affected'}
+                            </button>
+                            {staleReasons.length > 0 && (
+                                <button onClick={onDismissStale} className="text-amber-200/70 hover:text-white transition" title="Keep the current scores">Dismiss</button>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {employees.length > 0 && (
+                <div className="space-y-3 mb-4">
+                    <div className="flex items-center gap-2 flex-wrap">
+                        <input
+                            type="search"
+                            value={filter.query}
+                            onChange={(e) => updateFilter({ query: e.target.value })}
+                            placeholder="Search name or summary…"
+                            className={`${controlClassName} flex-1 min-w-[10rem] py-1.5`}
+                        />
+                        <button
+                            onClick={() => setShowFilters(!showFilters)}
+                            className={`text-sm px-2 py-1 rounded-md border transition ${showFilters || isFilterActive({ ...filter, query: '' }) ? 'border-violet-500 text-violet-300' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+                        >
+                            Filters
+                        </button>
+                        <select
+                            value={activeSort.key}
+                            onChange={(e) => sortBy(e.target.value as RosterSortKey)}
+                            className={controlClassName}
+                            title="Sort by"
+                        >
+                            {(Object.keys(ROSTER_SORT_LABELS) as RosterSortKey[])
+                                .filter(key => key !== 'rank' || isRanked)
+                                .map(key => <option key={key} value={key}>{ROSTER_SORT_LABELS[key]}</option>)}
+                        </select>
+                        <button
+                            onClick={() => setSort({ ...activeSort, descending: !activeSort.descending })}
+                            className="text-sm text-slate-400 hover:text-white transition"
+                            title={activeSort.descending ? 'Descending' : 'Ascending'}
+                        >
+                            {activeSort.descending ? '▼' : '▲'}
+                        </button>
+                        <div className="flex rounded-md border border-slate-700 overflow-hidden text-sm">
+                            {(['cards', 'table'] as RosterView[]).map(option => (
+                                <button
+                                    key={option}
+                                    onClick={() => setView(option)}
+                                    className={`px-2 py-1 capitalize transition ${view === option ? 'bg-violet-600/40 text-white' : 'text-slate-400 hover:text-white'}`}
+                                >
+                                    {option}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    {showFilters && (
+                        <div className="flex items-center gap-3 flex-wrap bg-slate-900/40 border border-slate-700/80 rounded-md p-3 animate-fade-in">
+                            <select
+                                value=""
+                                onChange={(e) => e.target.value && updateFilter({ skills: [...filter.skills, e.target.value] })}
+                                className={controlClassName}
+                            >
+                                <option value="">Require skill…</option>
+                                {rosterSkills.filter(skill => !filter.skills.includes(skill)).map(skill => (
+                                    <option key={skill} value={skill}>{skill}</option>
+                                ))}
+                            </select>
+                            {filter.skills.map(skill => (
+                                <button
+                                    key={skill}
+                                    onClick={() => updateFilter({ skills: filter.skills.filter(s => s !== skill) })}
+                                    className="text-xs bg-violet-500/20 text-violet-200 px-2 py-0.5 rounded hover:bg-violet-500/30"
+                                    title="Remove filter"
+                                >
+                                    {skill} &times;
+                                </button>
+                            ))}
+                            <RangeInputs
+                                label="Years"
+                                min={filter.minExperience}
+                                max={filter.maxExperience}
+                                onChange={(minExperience, maxExperience) => updateFilter({ minExperience, maxExperience })}
+                            />
+                            {isRanked && (
+                                <RangeInputs
+                                    label="Rank"
+                                    min={filter.minRank}
+                                    max={filter.maxRank}
+                                    onChange={(minRank, maxRank) => updateFilter({ minRank, maxRank })}
+                                />
+                            )}
+                            {isFilterActive(filter) && (
+                                <button onClick={() => setFilter(EMPTY_ROSTER_FILTER)} className="text-sm text-slate-400 hover:text-white transition">
+                                    Clear filters
+                                </button>
+                            )}
+                        </div>
+                    )}
+
+                    <div className="flex items-center justify-between gap-2 flex-wrap text-sm text-slate-400">
+                        <label className="flex items-center gap-2 cursor-pointer">
+                            <input type="checkbox" checked={allVisibleSelected} onChange={toggleAllVisible} className="accent-violet-500" />
+                            Showing {visible.length} of {employees.length}
+                        </label>
+                        {selected.length > 0 && (
+                            <div className="flex items-center gap-3 animate-fade-in">
+                                <span className="text-slate-300">{selected.length} selected</span>
+                                <button
+                                    onClick={() => onCompareEmployees(selected)}
+                                    disabled={selected.length < 2 || selected.length > maxCompared}
+                                    className="hover:text-violet-300 transition disabled:opacity-40 disabled:cursor-not-allowed"
+                                    title={selected.length < 2 || selected.length > maxCompared ? `Select two to ${maxCompared} employees` : 'Compare side by side'}
+                                >
+                                    Compare
+                                </button>
+                                <button
+                                    onClick={() => onRerankEmployees(selected)}
+                                    disabled={isRanking || !isRanked}
+                                    className="hover:text-violet-300 transition disabled:opacity-40 disabled:cursor-not-allowed"
+                                    title={isRanked ? 'Re-run the ranking for the selected employees only' : 'Rank the whole roster first'}
+                                >
+                                    Re-rank
+                                </button>
+                                <button onClick={handleDelete} className="text-red-300 hover:text-red-200 transition">
+                                    {confirmingDelete ? `Confirm delete (${selected.length})` : 'Delete'}
+                                </button>
+                                <button onClick={() => setSelectedIds(new Set())} className="hover:text-white transition">Clear</button>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-2 -mr-2">
+                {employees.length === 0 ? (
+                    <p className="text-slate-400 text-center py-8">Upload resumes to get started.</p>
+                ) : visible.length === 0 ? (
+                    <p className="text-slate-400 text-center py-8">No employees match the current search and filters.</p>
+                ) : view === 'table' ? (
+                    <table className="w-full text-sm">
+                        <thead className="sticky top-0 bg-slate-900">
+                            <tr className="text-left text-slate-400 border-b border-slate-700">
+                                <th className="py-2 w-6"></th>
+                                {renderSortHeader('name')}
+                                {isRanked && renderSortHeader('rank', 'text-right')}
+                                {renderSortHeader('experience', 'text-right')}
+                                {renderSortHeader('skills', 'text-right')}
+                                <th className="py-2 font-medium pl-3">Top skills</th>
+                                <th className="py-2"></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {visible.map(emp => (
+                                <tr key={emp.id} className={`border-b border-slate-800 text-slate-300 ${selectedIds.has(emp.id) ? 'bg-violet-500/10' : ''}`}>
+                                    <td className="py-1.5">
+                                        <input type="checkbox" checked={selectedIds.has(emp.id)} onChange={() => toggleSelected(emp.id)} className="accent-violet-500" />
+                                    </td>
+                                    <td className="py-1.5">
+                                        <button onClick={() => onOpenEmployee(emp.id)} className="text-slate-100 hover:text-violet-300 transition text-left">{emp.name}</button>
+                                        {driftingIds.has(emp.id) && <span className="text-xs text-amber-300 ml-2">drifting</span>}
+                                        {isRanked && <span className="ml-2">{renderRankStatus(emp.id)}</span>}
+                                    </td>
+                                    {isRanked && <td className="py-1.5 text-right font-semibold text-violet-300">{rankOf(emp) ?? '—'}</td>}
+                                    <td className="py-1.5 text-right">{emp.experienceYears}</td>
+                                    <td className="py-1.5 text-right">{emp.skills.length}</td>
+                                    <td className="py-1.5 pl-3 text-slate-400 truncate max-w-[12rem]" title={emp.skills.join(', ')}>{emp.skills.slice(0, 3).join(', ')}</td>
+                                    <td className="py-1.5 pl-3">{renderEntryActions(emp.id)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                ) : (
+                    visible.map((emp, index) => (
+                        <div key={emp.id} className={`bg-slate-900/60 p-4 rounded-lg border animate-fade-in transition-transform duration-300 hover:scale-[1.02] hover:border-violet-500/50 ${selectedIds.has(emp.id) ? 'border-violet-500/70' : 'border-slate-700/80'}`} style={{ animationDelay: `${Math.min(index, 10) * 70}ms` }}>
+                            <div className="flex justify-between items-start gap-4">
+                                <input type="checkbox" checked={selectedIds.has(emp.id)} onChange={() => toggleSelected(emp.id)} className="accent-violet-500 mt-2" aria-label={`Select ${emp.name}`} />
+                                <div className="flex-1">
+                                    <div className="flex items-baseline gap-3 flex-wrap">
+                                        <button onClick={() => onOpenEmployee(emp.id)} className="font-bold text-lg text-slate-100 hover:text-violet-300 transition text-left" title="View details">
+                                            {emp.name}
+                                        </button>
+                                        <span className="text-sm font-medium bg-slate-700 text-slate-300 px-2 py-0.5 rounded">{emp.experienceYears} yrs exp</span>
+                                        {isRanked && renderRankStatus(emp.id)}
+                                    </div>
+                                    <p className="text-sm text-slate-400 mt-2 italic">
+                                        "{'rank' in emp ? (emp as RankedEmployee).justification : emp.summary}"
+                                    </p>
+                                    <div className="flex flex-wrap gap-2 mt-3">
+                                        {emp.skills.map(skill => (
+                                            <SkillChip key={skill} skill={skill} definition={findSkill(skill, skillIndex)} level={emp.skillLevels[skill]} />
+                                        ))}
+                                    </div>
+                                    {'rank' in emp && (
+                                        <ScoreBreakdownView breakdown={(emp as RankedEmployee).breakdown} />
+                                    )}
+                                    <div className="mt-3">{renderEntryActions(emp.id)}</div>
+                                </div>
+                                {'rank' in emp && (
+                                    <div className="ml-4 text-right">
+                                        <div className="text-3xl font-bold text-violet-400 whitespace-nowrap" style={{ textShadow: '0 0 10px rgba(167, 139, 250, 0.6)' }}>
+                                            #{(emp as RankedEmployee).rank}
+                                        </div>
+                                        {driftingIds.has(emp.id) && (
+                                            <button onClick={onOpenHistory} className="text-xs text-amber-300 hover:text-amber-200" title="This score varied across runs with unchanged inputs">
+                                                drifting
+                                            </button>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    ))
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default EmployeeList;
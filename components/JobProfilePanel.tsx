@@ -0,0 +1,210 @@
+import React, { useEffect, useState } from 'react';
+import type { JobProfile, ScoreComponent, ScoringWeights, WeightedCriterion } from '../types';
+import { DEFAULT_SCORING_WEIGHTS, SCORE_COMPONENT_LABELS } from '../services/scoringService';
+import { BriefcaseIcon } from './icons';
+
+interface JobProfilePanelProps {
+    profiles: JobProfile[];
+    activeProfileId: string;
+    onSelectProfile: (profileId: string) => void;
+    onSaveProfile: (profile: JobProfile) => void;
+    onDeleteProfile: (profileId: string) => void;
+}
+
+interface ProfileDraft {
+    title: string;
+    requiredSkills: string;
+    niceToHaveSkills: string;
+    minExperienceYears: string;
+    criteria: WeightedCriterion[];
+    scoringWeights: ScoringWeights;
+}
+
+const toDraft = (profile: JobProfile): ProfileDraft => ({
+    title: profile.title,
+    requiredSkills: profile.requiredSkills.join(', '),
+    niceToHaveSkills: profile.niceToHaveSkills.join(', '),
+    minExperienceYears: String(profile.minExperienceYears),
+    criteria: profile.criteria,
+    scoringWeights: profile.scoringWeights,
+});
+
+const parseSkillList = (value: string): string[] =>
+    [...new Set(value.split(',').map(skill => skill.trim()).filter(Boolean))];
+
+const inputClassName = "w-full bg-slate-900/50 border border-slate-700 rounded-md p-2 focus:ring-2 focus:ring-violet-500 focus:border-violet-500 outline-none transition placeholder-slate-400";
+
+const JobProfilePanel: React.FC<JobProfilePanelProps> = ({ profiles, activeProfileId, onSelectProfile, onSaveProfile, onDeleteProfile }) => {
+    const activeProfile = profiles.find(profile => profile.id === activeProfileId) ?? profiles[0];
+    const [draft, setDraft] = useState<ProfileDraft>(() => toDraft(activeProfile));
+
+    useEffect(() => {
+        setDraft(toDraft(activeProfile));
+    }, [activeProfile]);
+
+    const updateCriterion = (index: number, changes: Partial<WeightedCriterion>) => {
+        setDraft(prev => ({
+            ...prev,
+            criteria: prev.criteria.map((criterion, i) => i === index ? { ...criterion, ...changes } : criterion),
+        }));
+    };
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!draft.title.trim()) return;
+        onSaveProfile({
+            id: activeProfile.id,
+            title: draft.title.trim(),
+            requiredSkills: parseSkillList(draft.requiredSkills),
+            niceToHaveSkills: parseSkillList(draft.niceToHaveSkills),
+            minExperienceYears: Math.max(0, Number(draft.minExperienceYears) || 0),
+            criteria: draft.criteria.filter(criterion => criterion.name.trim()),
+            scoringWeights: draft.scoringWeights,
+        });
+    };
+
+    const handleCreate = () => {
+        onSaveProfile({
+            id: crypto.randomUUID(),
+            title: 'New Role',
+            requiredSkills: [],
+            niceToHaveSkills: [],
+            minExperienceYears: 0,
+            criteria: [],
+            scoringWeights: DEFAULT_SCORING_WEIGHTS,
+        });
+    };
+
+    return (
+        <div className="panel-3d aurora-border p-6 rounded-xl">
+            <div className="flex justify-between items-center mb-4">
+                <h2 className="text-xl font-semibold flex items-center gap-2 text-violet-300">
+                    <BriefcaseIcon className="w-6 h-6" />
+                    Job Profiles
+                </h2>
+                <button onClick={handleCreate} className="text-sm text-violet-300 hover:text-white transition">
+                    + New Profile
+                </button>
+            </div>
+            <select
+                value={activeProfile.id}
+                onChange={(e) => onSelectProfile(e.target.value)}
+                className={`${inputClassName} mb-4`}
+            >
+                {profiles.map(profile => (
+                    <option key={profile.id} value={profile.id}>{profile.title}</option>
+                ))}
+            </select>
+            <form onSubmit={handleSave} className="space-y-3">
+                <input
+                    type="text"
+                    value={draft.title}
+                    onChange={(e) => setDraft(prev => ({ ...prev, title: e.target.value }))}
+                    placeholder="Role title"
+                    className={inputClassName}
+                />
+                <input
+                    type="text"
+                    value={draft.requiredSkills}
+                    onChange={(e) => setDraft(prev => ({ ...prev, requiredSkills: e.target.value }))}
+                    placeholder="Required skills (comma-separated)"
+                    className={inputClassName}
+                />
+                <input
+                    type="text"
+                    value={draft.niceToHaveSkills}
+                    onChange={(e) => setDraft(prev => ({ ...prev, niceToHaveSkills: e.target.value }))}
+                    placeholder="Nice-to-have skills (comma-separated)"
+                    className={inputClassName}
+                />
+                <label className="flex items-center gap-3 text-sm text-slate-400">
+                    Minimum experience (years)
+                    <input
+                        type="number"
+                        min={0}
+                        value={draft.minExperienceYears}
+                        onChange={(e) => setDraft(prev => ({ ...prev, minExperienceYears: e.target.value }))}
+                        className={`${inputClassName} w-24`}
+                    />
+                </label>
+                <div className="space-y-2">
+                    <p className="text-sm text-slate-400">Weighted criteria (1 = minor, 5 = critical)</p>
+                    {draft.criteria.map((criterion, index) => (
+                        <div key={index} className="flex items-center gap-2">
+                            <input
+                                type="text"
+                                value={criterion.name}
+                                onChange={(e) => updateCriterion(index, { name: e.target.value })}
+                                placeholder="e.g. Leadership"
+                                className={inputClassName}
+                            />
+                            <input
+                                type="number"
+                                min={1}
+                                max={5}
+                                value={criterion.weight}
+                                onChange={(e) => updateCriterion(index, { weight: Math.min(5, Math.max(1, Number(e.target.value) || 1)) })}
+                                className={`${inputClassName} w-20`}
+                            />
+                            <button
+                                type="button"
+                                onClick={() => setDraft(prev => ({ ...prev, criteria: prev.criteria.filter((_, i) => i !== index) }))}
+                                className="text-slate-400 hover:text-red-300 px-2"
+                                title="Remove criterion"
+                            >
+                                &times;
+                            </button>
+                        </div>
+                    ))}
+                    <button
+                        type="button"
+                        onClick={() => setDraft(prev => ({ ...prev, criteria: [...prev.criteria, { name: '', weight: 3 }] }))}
+                        className="text-sm text-violet-300 hover:text-white transition"
+                    >
+                        + Add criterion
+                    </button>
+                </div>
+                <div className="space-y-2">
+                    <p className="text-sm text-slate-400">Scoring weights</p>
+                    <div className="grid grid-cols-2 gap-2">
+                        {(Object.keys(SCORE_COMPONENT_LABELS) as ScoreComponent[]).map(component => (
+                            <label key={component} className="flex items-center justify-between gap-2 text-sm text-slate-300">
+                                {SCORE_COMPONENT_LABELS[component]}
+                                <input
+                                    type="number"
+                                    min={0}
+                                    max={100}
+                                    value={draft.scoringWeights[component]}
+                                    onChange={(e) => setDraft(prev => ({
+                                        ...prev,
+                                        scoringWeights: { ...prev.scoringWeights, [component]: Math.max(0, Number(e.target.value) || 0) },
+                                    }))}
+                                    className={`${inputClassName} w-20`}
+                                />
+                            </label>
+                        ))}
+                    </div>
+                </div>
+                <div className="flex justify-between items-center pt-2">
+                    <button
+                        type="button"
+                        onClick={() => onDeleteProfile(activeProfile.id)}
+                        disabled={profiles.length <= 1}
+                        className="text-sm text-red-300 hover:text-red-200 disabled:text-slate-600 disabled:cursor-not-allowed transition"
+                    >
+                        Delete Profile
+                    </button>
+                    <button
+                        type="submit"
+                        disabled={!draft.title.trim()}
+                        className="bg-gradient-to-r from-violet-600 to-indigo-600 hover:from-violet-700 hover:to-indigo-700 text-white font-bold py-2 px-4 rounded-md transition duration-300 ease-in-out disabled:from-slate-600 disabled:to-slate-700 disabled:cursor-not-allowed disabled:opacity-50 shadow-lg hover:shadow-violet-500/30 active:scale-[0.98]"
+                    >
+                        Save Profile
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+export default JobProfilePanel;
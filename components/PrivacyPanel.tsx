@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import type { AnalyzedEmployee, PiiKind, RedactionLog, RedactionPolicy } from '../types';
+import { PII_KIND_LABELS, PII_KINDS } from '../services/redactionService';
+import { ShieldCheckIcon } from './icons';
+
+interface PrivacyPanelProps {
+    policy: RedactionPolicy;
+    logs: RedactionLog[];
+    employees: AnalyzedEmployee[];
+    onChangePolicy: (policy: RedactionPolicy) => void;
+    onClearLogs: () => void;
+    onClose: () => void;
+}
+
+const countByKind = (log: RedactionLog): [PiiKind, number][] =>
+    PII_KINDS
+        .map((kind): [PiiKind, number] => [kind, log.entries.filter(entry => entry.kind === kind).length])
+        .filter(([, count]) => count > 0);
+
+const PrivacyPanel: React.FC<PrivacyPanelProps> = ({ policy, logs, employees, onChangePolicy, onClearLogs, onClose }) => {
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const employeeNames = new Map(employees.map(emp => [emp.id, emp.name]));
+
+    const toggleKind = (kind: PiiKind, checked: boolean) =>
+        onChangePolicy({ ...policy, kinds: { ...policy.kinds, [kind]: checked } });
+
+    return (
+        <div className="fixed inset-0 z-20 flex items-center justify-center bg-slate-950/70 p-4" onClick={onClose}>
+            <div className="panel-3d aurora-border p-6 rounded-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto animate-fade-in" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-start gap-4 mb-4">
+                    <h2 className="text-xl font-semibold flex items-center gap-2 text-violet-300">
+                        <ShieldCheckIcon className="w-6 h-6" />
+                        Privacy
+                    </h2>
+                    <button onClick={onClose} className="text-slate-400 hover:text-white text-xl leading-none">&times;</button>
+                </div>
+                <p className="text-sm text-slate-400 mb-4">
+                    Personal details are removed in the browser before a resume is sent to the AI provider.
+                    Contact details found this way are filled back in locally, so profiles stay complete.
+                </p>
+
+                <section className="space-y-3 mb-6">
+                    <label className="flex items-center gap-2 text-sm text-slate-200">
+                        <input type="checkbox" checked={policy.enabled} onChange={(e) => onChangePolicy({ ...policy, enabled: e.target.checked })} className="accent-violet-500" />
+                        Redact resumes before analysis
+                    </label>
+                    <div className={`grid grid-cols-2 gap-2 pl-6 ${policy.enabled ? '' : 'opacity-50'}`}>
+                        {PII_KINDS.map(kind => (
+                            <label key={kind} className="flex items-center gap-2 text-sm text-slate-300">
+                                <input
+                                    type="checkbox"
+                                    checked={policy.kinds[kind]}
+                                    disabled={!policy.enabled}
+                                    onChange={(e) => toggleKind(kind, e.target.checked)}
+                                    className="accent-violet-500"
+                                />
+                                {PII_KIND_LABELS[kind]}
+                            </label>
+                        ))}
+                    </div>
+                    <label className={`flex items-start gap-2 text-sm text-slate-300 pl-6 ${policy.enabled ? '' : 'opacity-50'}`}>
+                        <input
+                            type="checkbox"
+                            checked={policy.withholdUnverifiedPages}
+                            disabled={!policy.enabled}
+                            onChange={(e) => onChangePolicy({ ...policy, withholdUnverifiedPages: e.target.checked })}
+                            className="accent-violet-500 mt-1"
+                        />
+                        <span>
+                            Withhold scanned pages that cannot be checked
+                            <span className="block text-xs text-slate-500">Pages with little or no text layer are sent as images otherwise, and may contain personal details.</span>
+                        </span>
+                    </label>
+                </section>
+
+                <section>
+                    <div className="flex justify-between items-center mb-2">
+                        <h3 className="text-sm font-semibold uppercase tracking-wider text-violet-300">Redaction log ({logs.length})</h3>
+                        {logs.length > 0 && (
+                            <button onClick={onClearLogs} className="text-sm text-red-300 hover:text-red-200 transition">Clear log</button>
+                        )}
+                    </div>
+                    {logs.length === 0 ? (
+                        <p className="text-sm text-slate-500 italic">No resumes have been redacted yet.</p>
+                    ) : (
+                        <ul className="space-y-2 text-sm">
+                            {[...logs].reverse().map(log => {
+                                const counts = countByKind(log);
+                                return (
+                                    <li key={log.id} className="bg-slate-800/50 p-3 rounded-md border border-slate-700">
+                                        <button
+                                            onClick={() => setExpandedId(expandedId === log.id ? null : log.id)}
+                                            className="w-full flex justify-between gap-2 text-left"
+                                        >
+                                            <span className="text-slate-200">
+                                                {log.fileName}
+                                                {log.employeeId && employeeNames.has(log.employeeId) && (
+                                                    <span className="text-slate-500"> · {employeeNames.get(log.employeeId)}</span>
+                                                )}
+                                            </span>
+                                            <span className="text-slate-400 text-xs">{new Date(log.createdAt).toLocaleString()}</span>
+                                        </button>
+                                        <p className="text-xs text-slate-400 mt-1">
+                                            {counts.length > 0
+                                                ? counts.map(([kind, count]) => `${count} × ${PII_KIND_LABELS[kind].toLowerCase()}`).join(', ')
+                                                : 'Nothing found to redact.'}
+                                        </p>
+                                        {log.withheldPages.length > 0 && (
+                                            <p className="text-xs text-sky-300 mt-1">Withheld pages: {log.withheldPages.join(', ')}</p>
+                                        )}
+                                        {log.unverifiedPages.length > 0 && (
+                                            <p className="text-xs text-amber-300 mt-1">Sent without checking (little or no text layer): pages {log.unverifiedPages.join(', ')}</p>
+                                        )}
+                                        {expandedId === log.id && log.entries.length > 0 && (
+                                            <ul className="mt-2 space-y-0.5 text-xs text-slate-400 font-mono">
+                                                {log.entries.map((entry, index) => (
+                                                    <li key={index}>
+                                                        {PII_KIND_LABELS[entry.kind]}: {entry.preview}
+                                                        <span className="text-slate-500"> ({entry.source === 'image' ? `masked on page ${entry.page}` : 'text'})</span>
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        )}
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    )}
+                </section>
+            </div>
+        </div>
+    );
+};
+
+export default PrivacyPanel;
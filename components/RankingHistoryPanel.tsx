@@ -0,0 +1,171 @@
+import React, { useMemo, useState } from 'react';
+import type { RankingRun } from '../types';
+import { compareRankingRuns, DEFAULT_DRIFT_THRESHOLD, findRankDrift } from '../services/rankingHistoryService';
+import { ClockIcon } from './icons';
+
+interface RankingHistoryPanelProps {
+    profileTitle: string;
+    // Runs of the active profile, oldest first.
+    runs: RankingRun[];
+    onClearHistory: () => void;
+    onClose: () => void;
+}
+
+const selectClassName = "bg-slate-900/50 border border-slate-700 rounded-md py-1 px-2 text-sm text-slate-200 focus:ring-2 focus:ring-violet-500 outline-none";
+
+const formatRun = (run: RankingRun): string =>
+    `${new Date(run.createdAt).toLocaleString()} · ${run.model}`;
+
+const Delta: React.FC<{ value: number; suffix?: string }> = ({ value, suffix = '' }) => {
+    if (value === 0) return <span className="text-slate-500">–</span>;
+    return (
+        <span className={value > 0 ? 'text-green-300' : 'text-red-300'}>
+            {value > 0 ? '▲' : '▼'}{Math.abs(value)}{suffix}
+        </span>
+    );
+};
+
+const RankingHistoryPanel: React.FC<RankingHistoryPanelProps> = ({ profileTitle, runs, onClearHistory, onClose }) => {
+    const [beforeId, setBeforeId] = useState(runs[runs.length - 2]?.id ?? '');
+    const [afterId, setAfterId] = useState(runs[runs.length - 1]?.id ?? '');
+    const [threshold, setThreshold] = useState(DEFAULT_DRIFT_THRESHOLD);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    const before = runs.find(run => run.id === beforeId);
+    const after = runs.find(run => run.id === afterId);
+    const comparison = useMemo(() => before && after ? compareRankingRuns(before, after) : [], [before, after]);
+    const drift = useMemo(() => findRankDrift(runs, threshold), [runs, threshold]);
+
+    return (
+        <div className="fixed inset-0 z-20 flex items-center justify-center bg-slate-950/70 p-4" onClick={onClose}>
+            <div className="panel-3d aurora-border p-6 rounded-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto animate-fade-in" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-start gap-4 mb-4">
+                    <h2 className="text-xl font-semibold flex items-center gap-2 text-violet-300">
+                        <ClockIcon className="w-6 h-6" />
+                        Ranking History · {profileTitle}
+                    </h2>
+                    <button onClick={onClose} className="text-slate-400 hover:text-white text-xl leading-none">&times;</button>
+                </div>
+
+                {runs.length === 0 ? (
+                    <p className="text-slate-400 text-center py-8">No ranking runs recorded for this profile yet.</p>
+                ) : (
+                    <div className="space-y-6">
+                        <section>
+                            <div className="flex justify-between items-center gap-3 mb-2 flex-wrap">
+                                <h3 className="text-sm font-semibold uppercase tracking-wider text-amber-300">Rank drift</h3>
+                                <label className="text-sm text-slate-400 flex items-center gap-2">
+                                    Flag spreads above
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        max={100}
+                                        value={threshold}
+                                        onChange={(e) => setThreshold(Math.max(0, Number(e.target.value) || 0))}
+                                        className={`${selectClassName} w-16`}
+                                    />
+                                    points
+                                </label>
+                            </div>
+                            {drift.length === 0 ? (
+                                <p className="text-sm text-slate-500 italic">No employee's score varied beyond the threshold across runs with unchanged inputs.</p>
+                            ) : (
+                                <ul className="space-y-1 text-sm">
+                                    {drift.map(entry => (
+                                        <li key={entry.employeeId} className="flex justify-between gap-2 text-slate-300">
+                                            <span>{entry.name}</span>
+                                            <span className="text-amber-300">
+                                                {entry.minRank}–{entry.maxRank} over {entry.runCount} runs
+                                            </span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </section>
+
+                        <section>
+                            <h3 className="text-sm font-semibold uppercase tracking-wider text-violet-300 mb-2">Runs ({runs.length})</h3>
+                            <ul className="space-y-1 text-sm text-slate-300">
+                                {[...runs].reverse().map(run => (
+                                    <li key={run.id} className="flex justify-between gap-2">
+                                        <span>{new Date(run.createdAt).toLocaleString()}</span>
+                                        <span className="text-slate-400">
+                                            {run.providerLabel} · {run.model} · prompt {run.promptVersion} · {run.results.length} people
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </section>
+
+                        <section>
+                            <h3 className="text-sm font-semibold uppercase tracking-wider text-violet-300 mb-2">Compare runs</h3>
+                            <div className="flex items-center gap-2 flex-wrap mb-3 text-sm text-slate-400">
+                                <select value={beforeId} onChange={(e) => setBeforeId(e.target.value)} className={selectClassName}>
+                                    <option value="">Select a run…</option>
+                                    {runs.map(run => <option key={run.id} value={run.id}>{formatRun(run)}</option>)}
+                                </select>
+                                →
+                                <select value={afterId} onChange={(e) => setAfterId(e.target.value)} className={selectClassName}>
+                                    <option value="">Select a run…</option>
+                                    {runs.map(run => <option key={run.id} value={run.id}>{formatRun(run)}</option>)}
+                                </select>
+                            </div>
+                            {before && after && before.promptVersion !== after.promptVersion && (
+                                <p className="text-xs text-amber-300 mb-2">These runs used different prompt versions ({before.promptVersion} vs {after.promptVersion}).</p>
+                            )}
+                            {comparison.length > 0 && (
+                                <table className="w-full text-sm">
+                                    <thead>
+                                        <tr className="text-left text-slate-400 border-b border-slate-700">
+                                            <th className="py-1 font-medium">Employee</th>
+                                            <th className="py-1 font-medium text-right">Score</th>
+                                            <th className="py-1 font-medium text-right">Δ</th>
+                                            <th className="py-1 font-medium text-right">Position</th>
+                                            <th className="py-1 font-medium text-right">Notes</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {comparison.map(row => (
+                                            <React.Fragment key={row.employeeId}>
+                                                <tr className="border-b border-slate-800 text-slate-300">
+                                                    <td className="py-1">{row.name}</td>
+                                                    <td className="py-1 text-right">{row.before?.rank ?? '—'} → {row.after?.rank ?? '—'}</td>
+                                                    <td className="py-1 text-right"><Delta value={row.scoreDelta} /></td>
+                                                    <td className="py-1 text-right">
+                                                        {row.before?.position ?? '—'} → {row.after?.position ?? '—'} <Delta value={row.positionDelta} />
+                                                    </td>
+                                                    <td className="py-1 text-right text-xs space-x-2">
+                                                        {row.inputsChanged && <span className="text-sky-300" title="The employee or profile changed between these runs">inputs changed</span>}
+                                                        {row.justificationChanged && (
+                                                            <button onClick={() => setExpandedId(expandedId === row.employeeId ? null : row.employeeId)} className="text-violet-300 hover:text-white">
+                                                                justification
+                                                            </button>
+                                                        )}
+                                                    </td>
+                                                </tr>
+                                                {expandedId === row.employeeId && (
+                                                    <tr className="text-xs text-slate-400">
+                                                        <td colSpan={5} className="py-2 space-y-1">
+                                                            <p><span className="text-slate-500">Before:</span> {row.before?.justification}</p>
+                                                            <p><span className="text-slate-500">After:</span> {row.after?.justification}</p>
+                                                        </td>
+                                                    </tr>
+                                                )}
+                                            </React.Fragment>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )}
+                        </section>
+
+                        <div className="flex justify-end">
+                            <button onClick={onClearHistory} className="text-sm text-red-300 hover:text-red-200 transition">Clear history for this profile</button>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default RankingHistoryPanel;
@@ -0,0 +1,21 @@
+import React from 'react';
+import { REPORT_FORMAT_LABELS, type ReportFormat } from '../services/reportExportService';
+import { ArrowDownTrayIcon } from './icons';
+
+interface ReportExportMenuProps {
+    onExport: (format: ReportFormat) => void;
+}
+
+const ReportExportMenu: React.FC<ReportExportMenuProps> = ({ onExport }) => (
+    <span className="flex items-center gap-2 text-sm text-slate-400">
+        <ArrowDownTrayIcon className="w-4 h-4" />
+        Export
+        {(Object.keys(REPORT_FORMAT_LABELS) as ReportFormat[]).map(format => (
+            <button key={format} onClick={() => onExport(format)} className="hover:text-white transition" title={format === 'pdf' ? 'Open a printable page to save as PDF' : `Download as ${REPORT_FORMAT_LABELS[format]}`}>
+                {REPORT_FORMAT_LABELS[format]}
+            </button>
+        ))}
+    </span>
+);
+
+export default ReportExportMenu;
@@ -0,0 +1,279 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { AnalyzedEmployee, RedactionLog, RedactionPolicy, ResumeQueueItem, ResumeQueueStatus } from '../types';
+import { analyzeResume } from '../services/aiService';
+import { hashFile } from '../services/duplicateDetectionService';
+import { createProvenance, DEFAULT_CAPACITY_HOURS } from '../services/employeeService';
+import { createRedactionLog, restoreRedactedContact } from '../services/redactionService';
+import { extractResumeContent, getResumeFormat, getResumeMimeType, SUPPORTED_RESUME_EXTENSIONS, type ResumeContent } from '../services/resumeExtractionService';
+import { readZipEntries } from '../services/zipService';
+import { UserPlusIcon, DocumentArrowUpIcon, SparklesIcon } from './icons';
+
+// Resumes rendered and analyzed at the same time; keeps memory and API rate limits in check.
+const MAX_CONCURRENT_RESUMES = 2;
+
+const ACTIVE_STATUSES: ResumeQueueStatus[] = ['extracting', 'analyzing'];
+
+const STATUS_STYLES: Record<ResumeQueueStatus, { label: string; className: string }> = {
+    pending: { label: 'Pending', className: 'bg-slate-700 text-slate-300' },
+    duplicate: { label: 'Duplicate', className: 'bg-amber-500/20 text-amber-300' },
+    extracting: { label: 'Extracting', className: 'bg-indigo-500/20 text-indigo-300 animate-pulse' },
+    analyzing: { label: 'Analyzing', className: 'bg-violet-500/20 text-violet-300 animate-pulse' },
+    done: { label: 'Done', className: 'bg-green-500/20 text-green-300' },
+    failed: { label: 'Failed', className: 'bg-red-500/20 text-red-300' },
+    cancelled: { label: 'Cancelled', className: 'bg-slate-700 text-slate-400' },
+};
+
+const isZipFile = (file: File) =>
+    file.type === 'application/zip' || file.type === 'application/x-zip-compressed' || file.name.toLowerCase().endsWith('.zip');
+
+const expandFiles = async (files: File[]): Promise<{ resumes: File[]; skipped: string[] }> => {
+    const resumes: File[] = [];
+    const skipped: string[] = [];
+    for (const file of files) {
+        if (getResumeFormat(file)) {
+            resumes.push(file);
+        } else if (isZipFile(file)) {
+            const entries = await readZipEntries(file, name => getResumeFormat({ name }) !== null && !name.startsWith('__MACOSX/'));
+            resumes.push(...entries.map(entry =>
+                new File([entry.data], entry.name.split('/').pop() ?? entry.name, { type: getResumeMimeType(getResumeFormat({ name: entry.name })!) })
+            ));
+        } else {
+            skipped.push(file.name);
+        }
+    }
+    return { resumes, skipped };
+};
+
+const fileNameToName = (fileName: string) =>
+    fileName.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ').trim();
+
+interface ResumeQueuePanelProps {
+    redactionPolicy: RedactionPolicy;
+    // `source` is the resume file the employee was analyzed from.
+    onAddEmployee: (employee: AnalyzedEmployee, source: File) => void;
+    // Hashes of resume files already on the roster, with whose they are.
+    knownFileHashes: Map<string, string>;
+    // Called once redacted content has been sent for analysis, whatever the outcome.
+    onRedactionLogged: (log: RedactionLog) => void;
+    onError: (message: string) => void;
+}
+
+const ResumeQueuePanel: React.FC<ResumeQueuePanelProps> = ({ redactionPolicy, onAddEmployee, knownFileHashes, onRedactionLogged, onError }) => {
+    const [items, setItems] = useState<ResumeQueueItem[]>([]);
+    const [isDragging, setIsDragging] = useState(false);
+    // Current run token per item. A ref rather than state so effects re-run by StrictMode never
+    // start an item twice, and so results of cancelled or superseded runs can be discarded.
+    const activeRuns = useRef(new Map<string, number>());
+    const nextRunToken = useRef(0);
+    // Files being processed in this queue, by hash, so one dropped twice is caught before it is added.
+    // Released once the item ends; from then on the roster's hashes catch repeats.
+    const claimedHashes = useRef(new Map<string, ResumeQueueItem>());
+    // Read when a run checks for duplicates, which may be after several other resumes were added.
+    const knownHashesRef = useRef(knownFileHashes);
+    knownHashesRef.current = knownFileHashes;
+
+    const updateItem = (id: string, changes: Partial<ResumeQueueItem>) => {
+        setItems(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+    };
+
+    const logRedaction = (item: ResumeQueueItem, content: ResumeContent, employeeId?: string) => {
+        if (!redactionPolicy.enabled) return;
+        onRedactionLogged(createRedactionLog(item.file.name, content, employeeId));
+    };
+
+    const processItem = async (item: ResumeQueueItem, runToken: number) => {
+        const isCancelled = () => activeRuns.current.get(item.id) !== runToken;
+        let sentContent: ResumeContent | null = null;
+        try {
+            updateItem(item.id, { status: 'extracting', error: undefined });
+            const fileHash = item.fileHash ?? await hashFile(item.file);
+            if (isCancelled()) return;
+            const claimedBy = claimedHashes.current.get(fileHash);
+            const owner = knownHashesRef.current.get(fileHash);
+            const duplicateOf = owner ? `${owner}'s resume`
+                : claimedBy && claimedBy.id !== item.id ? `${claimedBy.file.name}, earlier in this queue` : undefined;
+            if (duplicateOf && !item.allowDuplicate) {
+                activeRuns.current.delete(item.id);
+                updateItem(item.id, { status: 'duplicate', fileHash, duplicateOf });
+                return;
+            }
+            claimedHashes.current.set(fileHash, item);
+            updateItem(item.id, { fileHash });
+
+            const content = await extractResumeContent(item.file, redactionPolicy);
+            if (isCancelled()) return;
+
+            updateItem(item.id, { status: 'analyzing' });
+            sentContent = content;
+            const analysis = await analyzeResume(content);
+            if (isCancelled()) {
+                logRedaction(item, content);
+                return;
+            }
+
+            const id = crypto.randomUUID();
+            const details = restoreRedactedContact(analysis.details, content.redactions);
+            const name = details.name?.trim() || fileNameToName(item.file.name);
+            const extracted = { ...details, name };
+            onAddEmployee({
+                ...extracted,
+                id,
+                capacityHours: DEFAULT_CAPACITY_HOURS,
+                provenance: createProvenance({ ...analysis, details: extracted }, item.file.name, [], fileHash),
+            }, item.file);
+            logRedaction(item, content, id);
+            releaseHash(item.id);
+            updateItem(item.id, { status: 'done', employeeName: name });
+        } catch (err) {
+            console.error(err);
+            if (sentContent) logRedaction(item, sentContent);
+            releaseHash(item.id);
+            if (isCancelled()) return;
+            updateItem(item.id, { status: 'failed', error: err instanceof Error ? err.message : "Failed to analyze resume." });
+        }
+    };
+
+    useEffect(() => {
+        const activeCount = items.filter(item => ACTIVE_STATUSES.includes(item.status)).length;
+        const nextItems = items
+            .filter(item => item.status === 'pending' && !activeRuns.current.has(item.id))
+            .slice(0, Math.max(0, MAX_CONCURRENT_RESUMES - activeCount));
+        for (const item of nextItems) {
+            const runToken = ++nextRunToken.current;
+            activeRuns.current.set(item.id, runToken);
+            processItem(item, runToken);
+        }
+    }, [items]);
+
+    const enqueueFiles = async (files: File[]) => {
+        if (files.length === 0) return;
+        try {
+            const { resumes, skipped } = await expandFiles(files);
+            if (skipped.length > 0) {
+                onError(`Skipped unsupported files: ${skipped.join(', ')}. Please upload PDF, DOCX or TXT resumes, or a ZIP of them.`);
+            } else if (resumes.length === 0) {
+                onError("No resumes were found.");
+            }
+            setItems(prev => [
+                ...prev,
+                ...resumes.map(file => ({ id: crypto.randomUUID(), file, status: 'pending' as const })),
+            ]);
+        } catch (err) {
+            console.error(err);
+            onError(err instanceof Error ? err.message : "Failed to read the uploaded files.");
+        }
+    };
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        enqueueFiles(Array.from(e.target.files ?? []));
+        e.target.value = '';
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setIsDragging(false);
+        enqueueFiles(Array.from(e.dataTransfer.files));
+    };
+
+    const releaseHash = (id: string) => {
+        for (const [hash, claimant] of claimedHashes.current) {
+            if (claimant.id === id) claimedHashes.current.delete(hash);
+        }
+    };
+
+    const handleAddDuplicate = (id: string) => {
+        updateItem(id, { status: 'pending', allowDuplicate: true });
+    };
+
+    const handleRetry = (id: string) => {
+        activeRuns.current.delete(id);
+        updateItem(id, { status: 'pending', error: undefined });
+    };
+
+    const handleCancel = (id: string) => {
+        activeRuns.current.delete(id);
+        releaseHash(id);
+        updateItem(id, { status: 'cancelled' });
+    };
+
+    const handleClearFinished = () => {
+        setItems(prev => prev.filter(item => !['done', 'duplicate', 'cancelled'].includes(item.status)));
+    };
+
+    const activeCount = items.filter(item => item.status === 'pending' || ACTIVE_STATUSES.includes(item.status)).length;
+
+    return (
+        <div className="panel-3d aurora-border p-6 rounded-xl">
+            <h2 className="text-xl font-semibold mb-4 flex items-center gap-2 text-violet-300">
+                <UserPlusIcon className="w-6 h-6" />
+                Add Employees
+            </h2>
+            <label
+                htmlFor="resume-upload"
+                onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={handleDrop}
+                className={`cursor-pointer w-full flex flex-col items-center justify-center gap-2 bg-slate-900/50 border-2 border-dashed rounded-md p-6 text-slate-400 hover:border-violet-500 hover:text-slate-200 transition ${isDragging ? 'border-violet-500 text-slate-200' : 'border-slate-700'}`}
+            >
+                <DocumentArrowUpIcon className="w-8 h-8" />
+                <span>Drop resumes here or click to upload</span>
+                <span className="text-xs text-slate-500">PDF, DOCX or TXT files, or a ZIP of them · names are read from each resume</span>
+            </label>
+            <input
+                id="resume-upload"
+                type="file"
+                accept={[...SUPPORTED_RESUME_EXTENSIONS, '.zip'].join(',')}
+                multiple
+                onChange={handleFileChange}
+                className="hidden"
+            />
+
+            {items.length > 0 && (
+                <div className="mt-4">
+                    <div className="flex justify-between items-center mb-2 text-sm text-slate-400">
+                        <span className="flex items-center gap-2">
+                            {activeCount > 0 && <SparklesIcon className="w-4 h-4 animate-pulse text-violet-300" />}
+                            {activeCount > 0 ? `${activeCount} in queue` : 'Queue finished'}
+                        </span>
+                        <button onClick={handleClearFinished} className="hover:text-white transition">Clear finished</button>
+                    </div>
+                    <ul className="space-y-2 max-h-[30vh] overflow-y-auto pr-2 -mr-2">
+                        {items.map(item => (
+                            <li key={item.id} className="bg-slate-900/60 p-3 rounded-lg border border-slate-700/80 text-sm">
+                                <div className="flex items-center justify-between gap-3">
+                                    <div className="min-w-0">
+                                        <p className="truncate text-slate-200">{item.employeeName ?? item.file.name}</p>
+                                        {item.employeeName && <p className="truncate text-xs text-slate-500">{item.file.name}</p>}
+                                    </div>
+                                    <div className="flex items-center gap-2 shrink-0">
+                                        <span className={`text-xs font-medium px-2 py-0.5 rounded ${STATUS_STYLES[item.status].className}`}>
+                                            {STATUS_STYLES[item.status].label}
+                                        </span>
+                                        {item.status === 'duplicate' && (
+                                            <>
+                                                <button onClick={() => handleAddDuplicate(item.id)} className="text-violet-300 hover:text-white transition">Add anyway</button>
+                                                <button onClick={() => handleCancel(item.id)} className="text-slate-400 hover:text-red-300 transition">Skip</button>
+                                            </>
+                                        )}
+                                        {(item.status === 'failed' || item.status === 'cancelled') && (
+                                            <button onClick={() => handleRetry(item.id)} className="text-violet-300 hover:text-white transition">Retry</button>
+                                        )}
+                                        {(item.status === 'pending' || ACTIVE_STATUSES.includes(item.status)) && (
+                                            <button onClick={() => handleCancel(item.id)} className="text-slate-400 hover:text-red-300 transition">Cancel</button>
+                                        )}
+                                    </div>
+                                </div>
+                                {item.status === 'duplicate' && (
+                                    <p className="text-xs text-amber-300 mt-1">Same file as {item.duplicateOf}.</p>
+                                )}
+                                {item.error && <p className="text-xs text-red-300 mt-1">{item.error}</p>}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ResumeQueuePanel;
@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import type { AnalyzedEmployee, ProposalStatus, ProposedReassignment, RosterChatMessage, RosterCitation, Task } from '../types';
+import { askRoster, type RosterSnapshot } from '../services/aiService';
+import { assignedHours, missingSkills } from '../services/taskAssignmentService';
+import { ChatBubbleIcon, SparklesIcon } from './icons';
+
+const EXAMPLE_QUESTIONS = [
+    'Who could cover Kubernetes work this week?',
+    'Which three people have both React and people-management experience?',
+    'Who has the most spare capacity in the current plan?',
+];
+
+interface RosterChatPanelProps {
+    roster: RosterSnapshot;
+    messages: RosterChatMessage[];
+    onChangeMessages: (update: (prev: RosterChatMessage[]) => RosterChatMessage[]) => void;
+    // Returns false when the task or person no longer exists, leaving the proposal open.
+    onApplyProposal: (proposal: ProposedReassignment) => boolean;
+    onOpenEmployee: (employeeId: string) => void;
+    onClose: () => void;
+}
+
+const RosterChatPanel: React.FC<RosterChatPanelProps> = ({ roster, messages, onChangeMessages, onApplyProposal, onOpenEmployee, onClose }) => {
+    const [question, setQuestion] = useState('');
+    const [isAsking, setIsAsking] = useState(false);
+    const [askError, setAskError] = useState<string | null>(null);
+
+    const employeesById = new Map<string, AnalyzedEmployee>(roster.employees.map(emp => [emp.id, emp]));
+    const tasksById = new Map<string, Task>(roster.tasks.map(task => [task.id, task]));
+    const nameOf = (employeeId: string | null) => employeeId ? employeesById.get(employeeId)?.name ?? 'a removed employee' : 'unassigned';
+
+    const handleAsk = async (text: string) => {
+        const asked = text.trim();
+        if (!asked || isAsking) return;
+        const history = messages.map(({ role, text: turn }) => ({ role, text: turn }));
+        const message: RosterChatMessage = { id: crypto.randomUUID(), role: 'user', text: asked, citations: [], proposals: [] };
+        onChangeMessages(prev => [...prev, message]);
+        setQuestion('');
+        setIsAsking(true);
+        setAskError(null);
+        try {
+            const { answer, citations, proposals } = await askRoster(asked, history, roster);
+            onChangeMessages(prev => [...prev, {
+                id: crypto.randomUUID(),
+                role: 'assistant',
+                text: answer,
+                citations,
+                proposals: proposals.map(proposal => ({ ...proposal, status: 'proposed' })),
+            }]);
+        } catch (err) {
+            // The question goes back in the box so it can be sent again.
+            onChangeMessages(prev => prev.filter(entry => entry.id !== message.id));
+            setQuestion(asked);
+            setAskError(err instanceof Error ? err.message : 'The question could not be answered.');
+        } finally {
+            setIsAsking(false);
+        }
+    };
+
+    const setProposalStatus = (messageId: string, index: number, status: ProposalStatus) => {
+        onChangeMessages(prev => prev.map(entry => entry.id !== messageId ? entry : {
+            ...entry,
+            proposals: entry.proposals.map((proposal, i) => i === index ? { ...proposal, status } : proposal),
+        }));
+    };
+
+    const handleApply = (messageId: string, index: number, proposal: ProposedReassignment) => {
+        if (onApplyProposal(proposal)) setProposalStatus(messageId, index, 'applied');
+    };
+
+    // What the move would leave the new owner with, so it is checked before it is confirmed.
+    const proposalWarnings = (proposal: ProposedReassignment): string[] => {
+        const task = tasksById.get(proposal.taskId);
+        const employee = proposal.toEmployeeId ? employeesById.get(proposal.toEmployeeId) : undefined;
+        if (!task || !employee) return [];
+        const gaps = missingSkills(task, employee);
+        const current = roster.assignments.find(assignment => assignment.employeeId === employee.id);
+        const hours = (current ? assignedHours(current, roster.tasks) : 0) + task.effortHours;
+        return [
+            ...(gaps.length > 0 ? [`${employee.name} lacks ${gaps.join(', ')}`] : []),
+            ...(hours > employee.capacityHours ? [`${employee.name} would have ${hours} h against ${employee.capacityHours} h available`] : []),
+        ];
+    };
+
+    const citationGroups = (citations: RosterCitation[]) => {
+        const groups = new Map<string, string[]>();
+        for (const citation of citations) groups.set(citation.employeeId, [...(groups.get(citation.employeeId) ?? []), citation.fact]);
+        return [...groups];
+    };
+
+    return (
+        <div className="fixed inset-0 z-20 flex items-center justify-center bg-slate-950/70 p-4" onClick={onClose}>
+            <div className="panel-3d aurora-border p-6 rounded-xl w-full max-w-3xl max-h-[90vh] flex flex-col animate-fade-in" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-start gap-4 mb-4">
+                    <h2 className="text-xl font-semibold flex items-center gap-2 text-violet-300">
+                        <ChatBubbleIcon className="w-6 h-6" />
+                        Ask the Roster
+                    </h2>
+                    <div className="flex items-center gap-3">
+                        {messages.length > 0 && (
+                            <button onClick={() => onChangeMessages(() => [])} disabled={isAsking} className="text-sm text-slate-400 hover:text-white disabled:text-slate-600 transition">Clear</button>
+                        )}
+                        <button onClick={onClose} className="text-slate-400 hover:text-white text-xl leading-none">&times;</button>
+                    </div>
+                </div>
+
+                <div className="flex-1 overflow-y-auto space-y-4 pr-2 -mr-2 min-h-[12rem]">
+                    {messages.length === 0 && (
+                        <div className="text-sm text-slate-400 space-y-2">
+                            <p>Ask about skills, experience, rankings or the current task plan. Answers cite the people and resume facts they rely on, and suggested task moves only take effect once you apply them.</p>
+                            <div className="flex flex-wrap gap-2">
+                                {EXAMPLE_QUESTIONS.map(example => (
+                                    <button
+                                        key={example}
+                                        onClick={() => handleAsk(example)}
+                                        disabled={roster.employees.length === 0}
+                                        className="text-xs px-2 py-1 rounded border border-slate-700 hover:border-violet-500 hover:text-violet-200 disabled:opacity-50 disabled:hover:border-slate-700 transition"
+                                    >
+                                        {example}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                    {messages.map(message => message.role === 'user' ? (
+                        <p key={message.id} className="ml-auto max-w-[80%] w-fit bg-violet-600/30 border border-violet-500/40 text-slate-100 text-sm rounded-lg px-3 py-2">{message.text}</p>
+                    ) : (
+                        <div key={message.id} className="max-w-[90%] bg-slate-900/60 border border-slate-700/80 rounded-lg px-3 py-2 text-sm space-y-2 animate-fade-in">
+                            <p className="text-slate-200 whitespace-pre-line">{message.text}</p>
+                            {message.citations.length > 0 && (
+                                <ul className="text-xs text-slate-400 space-y-0.5 border-t border-slate-700/60 pt-2">
+                                    {citationGroups(message.citations).map(([employeeId, facts]) => (
+                                        <li key={employeeId}>
+                                            <button onClick={() => onOpenEmployee(employeeId)} className="text-violet-300 hover:text-white transition">{nameOf(employeeId)}</button>
+                                            {': '}{facts.join('; ')}
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                            {message.proposals.map((proposal, index) => {
+                                const task = tasksById.get(proposal.taskId);
+                                const owner = roster.assignments.find(assignment => assignment.taskIds.includes(proposal.taskId))?.employeeId ?? null;
+                                const warnings = proposal.status === 'proposed' ? proposalWarnings(proposal) : [];
+                                return (
+                                    <div key={index} className="border border-slate-700/80 rounded-md p-2 bg-slate-800/40">
+                                        <p className="text-slate-200">
+                                            Move "{task?.title ?? 'a removed task'}" from {nameOf(owner)} to {nameOf(proposal.toEmployeeId)}
+                                        </p>
+                                        <p className="text-xs text-slate-400">{proposal.reason}</p>
+                                        {warnings.map(warning => <p key={warning} className="text-xs text-amber-300">{warning}</p>)}
+                                        <div className="flex gap-3 mt-1 text-xs">
+                                            {proposal.status === 'proposed' ? (
+                                                <>
+                                                    <button onClick={() => handleApply(message.id, index, proposal)} disabled={!task} className="text-violet-300 hover:text-white disabled:text-slate-600 transition">Apply</button>
+                                                    <button onClick={() => setProposalStatus(message.id, index, 'dismissed')} className="text-slate-400 hover:text-white transition">Dismiss</button>
+                                                </>
+                                            ) : (
+                                                <span className={proposal.status === 'applied' ? 'text-green-300' : 'text-slate-500'}>
+                                                    {proposal.status === 'applied' ? 'Applied' : 'Dismissed'}
+                                                </span>
+                                            )}
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    ))}
+                    {isAsking && (
+                        <p className="text-sm text-slate-400 flex items-center gap-2">
+                            <SparklesIcon className="w-4 h-4 animate-pulse text-violet-300" />
+                            Thinking...
+                        </p>
+                    )}
+                </div>
+
+                {askError && <p className="text-sm text-red-300 mt-3">{askError}</p>}
+                <form
+                    onSubmit={(e) => { e.preventDefault(); handleAsk(question); }}
+                    className="flex gap-2 mt-4"
+                >
+                    <input
+                        type="text"
+                        value={question}
+                        onChange={(e) => setQuestion(e.target.value)}
+                        placeholder={roster.employees.length === 0 ? 'Add employees to ask about them' : 'Ask a question about the team...'}
+                        disabled={roster.employees.length === 0}
+                        className="flex-1 bg-slate-900/50 border border-slate-700 rounded-md py-2 px-3 text-sm text-slate-200 focus:ring-2 focus:ring-violet-500 outline-none disabled:opacity-50"
+                    />
+                    <button
+                        type="submit"
+                        disabled={isAsking || !question.trim() || roster.employees.length === 0}
+                        className="bg-gradient-to-r from-violet-600 to-indigo-600 hover:from-violet-700 hover:to-indigo-700 text-white font-bold py-2 px-4 rounded-md transition duration-300 ease-in-out disabled:from-slate-600 disabled:to-slate-700 disabled:cursor-not-allowed disabled:opacity-50 shadow-lg hover:shadow-violet-500/30 active:scale-[0.98]"
+                    >
+                        Ask
+                    </button>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+export default RosterChatPanel;
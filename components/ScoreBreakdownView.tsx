@@ -0,0 +1,31 @@
+import React from 'react';
+import type { ScoreBreakdown, ScoreComponent } from '../types';
+import { SCORE_COMPONENT_LABELS } from '../services/scoringService';
+
+interface ScoreBreakdownViewProps {
+    breakdown: ScoreBreakdown;
+}
+
+const ScoreBreakdownView: React.FC<ScoreBreakdownViewProps> = ({ breakdown }) => (
+    <div className="mt-3 space-y-1.5">
+        {(Object.keys(SCORE_COMPONENT_LABELS) as ScoreComponent[]).map(component => (
+            <div key={component} className="flex items-center gap-3 text-xs">
+                <span className="w-24 text-slate-400">{SCORE_COMPONENT_LABELS[component]}</span>
+                <div className="flex-1 h-1.5 bg-slate-700/70 rounded-full overflow-hidden">
+                    <div className="h-full bg-gradient-to-r from-violet-500 to-indigo-400 rounded-full" style={{ width: `${breakdown[component]}%` }} />
+                </div>
+                <span className="w-8 text-right text-slate-300 tabular-nums">{breakdown[component]}</span>
+            </div>
+        ))}
+        <p className="text-xs text-slate-400 pt-1">
+            Base score <span className="text-slate-200 font-medium">{breakdown.baseScore}</span>
+            {' · '}
+            AI adjustment{' '}
+            <span className={breakdown.llmAdjustment > 0 ? 'text-green-300' : breakdown.llmAdjustment < 0 ? 'text-red-300' : 'text-slate-300'}>
+                {breakdown.llmAdjustment > 0 ? '+' : ''}{breakdown.llmAdjustment}
+            </span>
+        </p>
+    </div>
+);
+
+export default ScoreBreakdownView;
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import type { LlmProviderId, LlmSettings, ProviderModels } from '../types';
+import { PROVIDER_LABELS } from '../services/settingsService';
+import { CogIcon } from './icons';
+
+interface SettingsPanelProps {
+    settings: LlmSettings;
+    accessToken: string;
+    onSave: (settings: LlmSettings, accessToken: string) => void;
+    onClose: () => void;
+}
+
+const inputClassName = "w-full bg-slate-900/50 border border-slate-700 rounded-md p-3 focus:ring-2 focus:ring-violet-500 focus:border-violet-500 outline-none transition placeholder-slate-400";
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, accessToken, onSave, onClose }) => {
+    const [draft, setDraft] = useState<LlmSettings>(settings);
+    const [tokenDraft, setTokenDraft] = useState(accessToken);
+    const models = draft.models[draft.provider];
+
+    const handleModelChange = (tier: keyof ProviderModels, value: string) => {
+        setDraft(prev => ({
+            ...prev,
+            models: { ...prev.models, [prev.provider]: { ...prev.models[prev.provider], [tier]: value } },
+        }));
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        onSave(draft, tokenDraft.trim());
+    };
+
+    return (
+        <div className="fixed inset-0 z-20 flex items-center justify-center bg-slate-950/70 p-4" onClick={onClose}>
+            <div className="panel-3d aurora-border p-6 rounded-xl w-full max-w-lg animate-fade-in" onClick={(e) => e.stopPropagation()}>
+                <h2 className="text-xl font-semibold mb-4 flex items-center gap-2 text-violet-300">
+                    <CogIcon className="w-6 h-6" />
+                    AI Provider Settings
+                </h2>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <label className="block">
+                        <span className="text-sm text-slate-400">Provider</span>
+                        <select
+                            value={draft.provider}
+                            onChange={(e) => setDraft(prev => ({ ...prev, provider: e.target.value as LlmProviderId }))}
+                            className={`${inputClassName} mt-1`}
+                        >
+                            {(Object.keys(PROVIDER_LABELS) as LlmProviderId[]).map(id => (
+                                <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>
+                            ))}
+                        </select>
+                    </label>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <label className="block">
+                            <span className="text-sm text-slate-400">Fast model</span>
+                            <input type="text" value={models.fast} onChange={(e) => handleModelChange('fast', e.target.value)} className={`${inputClassName} mt-1`} />
+                        </label>
+                        <label className="block">
+                            <span className="text-sm text-slate-400">Reasoning model</span>
+                            <input type="text" value={models.reasoning} onChange={(e) => handleModelChange('reasoning', e.target.value)} className={`${inputClassName} mt-1`} />
+                        </label>
+                    </div>
+
+                    {draft.provider === 'gemini' && (
+                        <p className="text-sm text-slate-400">Requests go through the API server, which uses its <code>GEMINI_API_KEY</code>.</p>
+                    )}
+
+                    {draft.provider === 'openai-compatible' && (
+                        <p className="text-sm text-slate-400">Requests go through the API server to the endpoint set in its <code>OPENAI_BASE_URL</code>, with <code>OPENAI_API_KEY</code> if the endpoint needs one.</p>
+                    )}
+
+                    {draft.provider === 'mock' && (
+                        <p className="text-sm text-slate-400">The offline demo returns deterministic sample data and never contacts an external service.</p>
+                    )}
+
+                    <label className="block">
+                        <span className="text-sm text-slate-400">API access token</span>
+                        <input
+                            type="password"
+                            value={tokenDraft}
+                            onChange={(e) => setTokenDraft(e.target.value)}
+                            placeholder="Only needed when the server sets API_TOKEN"
+                            autoComplete="off"
+                            className={`${inputClassName} mt-1`}
+                        />
+                    </label>
+
+                    <div className="flex justify-end gap-3 pt-2">
+                        <button type="button" onClick={onClose} className="py-2 px-4 rounded-md text-slate-300 hover:text-white transition">
+                            Cancel
+                        </button>
+                        <button
+                            type="submit"
+                            className="bg-gradient-to-r from-violet-600 to-indigo-600 hover:from-violet-700 hover:to-indigo-700 text-white font-bold py-2 px-4 rounded-md transition duration-300 ease-in-out shadow-lg hover:shadow-violet-500/30 active:scale-[0.98]"
+                        >
+                            Save
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,45 @@
+import React from 'react';
+import type { ProficiencyLevel, SkillCategory, SkillDefinition } from '../types';
+import { SKILL_CATEGORY_LABELS } from '../services/skillTaxonomyService';
+
+const CATEGORY_STYLES: Record<SkillCategory, string> = {
+    'language': 'bg-violet-500/20 text-violet-300',
+    'framework': 'bg-indigo-500/20 text-indigo-300',
+    'tool': 'bg-sky-500/20 text-sky-300',
+    'platform': 'bg-teal-500/20 text-teal-300',
+    'soft-skill': 'bg-amber-500/20 text-amber-300',
+    'domain': 'bg-pink-500/20 text-pink-300',
+};
+
+const LEVEL_MARKERS: Record<ProficiencyLevel, string> = {
+    beginner: '●',
+    intermediate: '●●',
+    advanced: '●●●',
+    expert: '●●●●',
+};
+
+interface SkillChipProps {
+    skill: string;
+    definition?: SkillDefinition;
+    level?: ProficiencyLevel;
+}
+
+const SkillChip: React.FC<SkillChipProps> = ({ skill, definition, level }) => {
+    const title = [
+        definition ? SKILL_CATEGORY_LABELS[definition.category] : 'Not in the skill taxonomy yet',
+        level,
+    ].filter(Boolean).join(' · ');
+
+    return (
+        <span
+            title={title}
+            className={`inline-flex items-center gap-1.5 text-xs font-medium px-2.5 py-1 rounded-full ${definition ? CATEGORY_STYLES[definition.category] : 'border border-dashed border-slate-500 text-slate-300'}`}
+        >
+            {skill}
+            {!definition && <span className="text-slate-400">?</span>}
+            {level && <span className="text-[0.6rem] tracking-tighter opacity-70">{LEVEL_MARKERS[level]}</span>}
+        </span>
+    );
+};
+
+export default SkillChip;
@@ -0,0 +1,144 @@
+import React, { useMemo, useState } from 'react';
+import type { AnalyzedEmployee, SkillCategory, SkillDefinition } from '../types';
+import { buildSkillIndex, findUnrecognizedSkills, SKILL_CATEGORY_LABELS } from '../services/skillTaxonomyService';
+import { TagIcon } from './icons';
+
+interface SkillTaxonomyPanelProps {
+    taxonomy: SkillDefinition[];
+    employees: AnalyzedEmployee[];
+    onSave: (taxonomy: SkillDefinition[]) => void;
+    onClose: () => void;
+}
+
+const inputClassName = "w-full bg-slate-900/50 border border-slate-700 rounded-md p-2 focus:ring-2 focus:ring-violet-500 focus:border-violet-500 outline-none transition placeholder-slate-400 text-sm";
+
+const CATEGORIES = Object.keys(SKILL_CATEGORY_LABELS) as SkillCategory[];
+
+const splitAliases = (value: string): string[] =>
+    [...new Set(value.split(',').map(alias => alias.trim()).filter(Boolean))];
+
+interface UnrecognizedSkillRowProps {
+    name: string;
+    count: number;
+    taxonomy: SkillDefinition[];
+    onAdd: (name: string, category: SkillCategory) => void;
+    onMap: (name: string, skillId: string) => void;
+}
+
+const UnrecognizedSkillRow: React.FC<UnrecognizedSkillRowProps> = ({ name, count, taxonomy, onAdd, onMap }) => {
+    const [category, setCategory] = useState<SkillCategory>('tool');
+    return (
+        <li className="flex flex-wrap items-center gap-2 bg-slate-900/60 p-2 rounded-lg border border-slate-700/80 text-sm">
+            <span className="flex-1 min-w-[8rem] text-slate-200">
+                {name} <span className="text-slate-500">· {count} {count === 1 ? 'person' : 'people'}</span>
+            </span>
+            <select value={category} onChange={(e) => setCategory(e.target.value as SkillCategory)} className={`${inputClassName} w-32`}>
+                {CATEGORIES.map(c => <option key={c} value={c}>{SKILL_CATEGORY_LABELS[c]}</option>)}
+            </select>
+            <button onClick={() => onAdd(name, category)} className="text-violet-300 hover:text-white transition">Add</button>
+            <select
+                value=""
+                onChange={(e) => e.target.value && onMap(name, e.target.value)}
+                className={`${inputClassName} w-40`}
+            >
+                <option value="">Map to existing…</option>
+                {taxonomy.map(definition => <option key={definition.id} value={definition.id}>{definition.name}</option>)}
+            </select>
+        </li>
+    );
+};
+
+const SkillTaxonomyPanel: React.FC<SkillTaxonomyPanelProps> = ({ taxonomy, employees, onSave, onClose }) => {
+    const [draft, setDraft] = useState<SkillDefinition[]>(taxonomy);
+    const [search, setSearch] = useState('');
+
+    const unrecognized = useMemo(() => findUnrecognizedSkills(employees, buildSkillIndex(draft)), [employees, draft]);
+
+    const sortedDraft = useMemo(() => {
+        const query = search.trim().toLowerCase();
+        return draft
+            .filter(definition => !query || [definition.name, ...definition.aliases].some(name => name.toLowerCase().includes(query)))
+            .sort((a, b) => a.category.localeCompare(b.category) || a.name.localeCompare(b.name));
+    }, [draft, search]);
+
+    const updateDefinition = (id: string, changes: Partial<SkillDefinition>) => {
+        setDraft(prev => prev.map(definition => definition.id === id ? { ...definition, ...changes } : definition));
+    };
+
+    const handleAddSkill = (name: string, category: SkillCategory) => {
+        setDraft(prev => [...prev, { id: crypto.randomUUID(), name, aliases: [], category }]);
+    };
+
+    const handleMapSkill = (name: string, skillId: string) => {
+        setDraft(prev => prev.map(definition => definition.id === skillId
+            ? { ...definition, aliases: [...definition.aliases, name] }
+            : definition));
+    };
+
+    return (
+        <div className="fixed inset-0 z-20 flex items-center justify-center bg-slate-950/70 p-4" onClick={onClose}>
+            <div className="panel-3d aurora-border p-6 rounded-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto animate-fade-in" onClick={(e) => e.stopPropagation()}>
+                <h2 className="text-xl font-semibold mb-4 flex items-center gap-2 text-violet-300">
+                    <TagIcon className="w-6 h-6" />
+                    Skill Taxonomy
+                </h2>
+
+                {unrecognized.length > 0 && (
+                    <section className="mb-6">
+                        <h3 className="text-sm font-semibold uppercase tracking-wider text-amber-300 mb-2">Needs curation ({unrecognized.length})</h3>
+                        <ul className="space-y-2">
+                            {unrecognized.map(({ name, count }) => (
+                                <UnrecognizedSkillRow key={name} name={name} count={count} taxonomy={draft} onAdd={handleAddSkill} onMap={handleMapSkill} />
+                            ))}
+                        </ul>
+                    </section>
+                )}
+
+                <section>
+                    <div className="flex items-center justify-between gap-3 mb-2">
+                        <h3 className="text-sm font-semibold uppercase tracking-wider text-violet-300">Skills ({draft.length})</h3>
+                        <button onClick={() => handleAddSkill('New Skill', 'tool')} className="text-sm text-violet-300 hover:text-white transition">+ Add skill</button>
+                    </div>
+                    <input type="text" value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search skills or aliases" className={`${inputClassName} mb-3`} />
+                    <div className="space-y-2">
+                        {sortedDraft.map(definition => (
+                            <div key={definition.id} className="grid grid-cols-[1fr_2fr_8rem_auto] items-center gap-2">
+                                <input type="text" value={definition.name} onChange={(e) => updateDefinition(definition.id, { name: e.target.value })} className={inputClassName} />
+                                <input
+                                    key={definition.aliases.join('|')}
+                                    type="text"
+                                    defaultValue={definition.aliases.join(', ')}
+                                    onBlur={(e) => updateDefinition(definition.id, { aliases: splitAliases(e.target.value) })}
+                                    placeholder="Aliases (comma-separated)"
+                                    className={inputClassName}
+                                />
+                                <select value={definition.category} onChange={(e) => updateDefinition(definition.id, { category: e.target.value as SkillCategory })} className={inputClassName}>
+                                    {CATEGORIES.map(c => <option key={c} value={c}>{SKILL_CATEGORY_LABELS[c]}</option>)}
+                                </select>
+                                <button
+                                    onClick={() => setDraft(prev => prev.filter(d => d.id !== definition.id))}
+                                    className="text-slate-400 hover:text-red-300 px-2"
+                                    title="Remove skill"
+                                >
+                                    &times;
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                </section>
+
+                <div className="flex justify-end gap-3 pt-6">
+                    <button onClick={onClose} className="py-2 px-4 rounded-md text-slate-300 hover:text-white transition">Cancel</button>
+                    <button
+                        onClick={() => onSave(draft.filter(definition => definition.name.trim()))}
+                        className="bg-gradient-to-r from-violet-600 to-indigo-600 hover:from-violet-700 hover:to-indigo-700 text-white font-bold py-2 px-4 rounded-md transition duration-300 ease-in-out shadow-lg hover:shadow-violet-500/30 active:scale-[0.98]"
+                    >
+                        Save Taxonomy
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SkillTaxonomyPanel;
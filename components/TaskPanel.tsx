@@ -0,0 +1,398 @@
+import React, { useMemo, useState } from 'react';
+import type { AnalyzedEmployee, AssignmentIssue, RankedEmployee, Task, TaskAssignment, TaskPriority, TaskTemplate } from '../types';
+import type { ReportFormat } from '../services/reportExportService';
+import { assignedHours, createTask, fromIsoDate, TASK_PRIORITIES, TASK_PRIORITY_LABELS } from '../services/taskAssignmentService';
+import { CalendarIcon, ClipboardListIcon, LockClosedIcon, LockOpenIcon, WandIcon } from './icons';
+import ReportExportMenu from './ReportExportMenu';
+
+interface TaskPanelProps {
+    // ISO date the tasks are planned for.
+    planDate: string;
+    // True once the plan's day has passed.
+    isPlanOutdated: boolean;
+    onStartNextDay: () => void;
+    templates: TaskTemplate[];
+    onApplyTemplate: (templateId: string) => void;
+    onOpenPlanning: () => void;
+    rankedEmployees: RankedEmployee[];
+    // People holding tasks who are not in the current ranking, e.g. added since it ran.
+    unrankedAssignees: AnalyzedEmployee[];
+    tasks: Task[];
+    assignments: TaskAssignment[];
+    issues: AssignmentIssue[];
+    onChangeTasks: (tasks: Task[]) => void;
+    onUpdateCapacity: (employeeId: string, capacityHours: number) => void;
+    // Moves a task to a person, or to the unassigned pool when `employeeId` is null.
+    onMoveTask: (taskId: string, employeeId: string | null) => void;
+    onTogglePin: (taskId: string) => void;
+    // With `keepPinned`, pinned tasks stay put and only the rest are reassigned.
+    onDistribute: (keepPinned: boolean) => void;
+    isDistributing: boolean;
+    // Why the current plan no longer matches the roster, oldest first.
+    staleReasons: string[];
+    onDismissStale: () => void;
+    onExportAssignments: (format: ReportFormat) => void;
+    onExportCalendar: (employeeId: string) => void;
+}
+
+const inputClassName = "w-full bg-slate-900/50 border border-slate-700 rounded-md p-2 focus:ring-2 focus:ring-teal-500 focus:border-teal-500 outline-none transition placeholder-slate-400 text-sm";
+
+const PRIORITY_STYLES: Record<TaskPriority, string> = {
+    critical: 'bg-red-500/20 text-red-300',
+    high: 'bg-amber-500/20 text-amber-300',
+    medium: 'bg-sky-500/20 text-sky-300',
+    low: 'bg-slate-700 text-slate-300',
+};
+
+const splitSkills = (value: string): string[] =>
+    [...new Set(value.split(',').map(skill => skill.trim()).filter(Boolean))];
+
+interface TaskRowProps {
+    task: Task;
+    tasks: Task[];
+    onChange: (changes: Partial<Task>) => void;
+    onRemove: () => void;
+}
+
+const TaskRow: React.FC<TaskRowProps> = ({ task, tasks, onChange, onRemove }) => {
+    const titles = new Map(tasks.map(t => [t.id, t.title]));
+    const dependencyOptions = tasks.filter(t => t.id !== task.id && !task.dependencies.includes(t.id));
+
+    return (
+        <li className="bg-slate-900/60 p-3 rounded-lg border border-slate-700/80 space-y-2">
+            <div className="flex items-center gap-2">
+                <input type="text" value={task.title} onChange={(e) => onChange({ title: e.target.value })} className={inputClassName} />
+                <button onClick={onRemove} className="text-slate-400 hover:text-red-300 px-2" title="Remove task">&times;</button>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+                <label className="flex items-center gap-1 text-xs text-slate-400">
+                    Hours
+                    <input
+                        type="number"
+                        min={0.25}
+                        step={0.25}
+                        value={task.effortHours}
+                        onChange={(e) => onChange({ effortHours: Math.max(0.25, Number(e.target.value) || 0) })}
+                        className={inputClassName}
+                    />
+                </label>
+                <select value={task.priority} onChange={(e) => onChange({ priority: e.target.value as TaskPriority })} className={inputClassName}>
+                    {TASK_PRIORITIES.map(priority => <option key={priority} value={priority}>{TASK_PRIORITY_LABELS[priority]}</option>)}
+                </select>
+                <input type="date" value={task.deadline} onChange={(e) => onChange({ deadline: e.target.value })} className={inputClassName} title="Deadline" />
+            </div>
+            <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer" title="Work people would rather avoid; it is spread evenly over time">
+                <input type="checkbox" checked={task.undesirable} onChange={(e) => onChange({ undesirable: e.target.checked })} className="accent-teal-500" />
+                Undesirable
+            </label>
+            <input
+                key={task.requiredSkills.join('|')}
+                type="text"
+                defaultValue={task.requiredSkills.join(', ')}
+                onBlur={(e) => onChange({ requiredSkills: splitSkills(e.target.value) })}
+                placeholder="Required skills (left empty, they are inferred)"
+                className={inputClassName}
+            />
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+                {task.dependencies.filter(dep => titles.has(dep)).map(dep => (
+                    <span key={dep} className="bg-slate-700 text-slate-300 px-2 py-0.5 rounded flex items-center gap-1">
+                        after {titles.get(dep) || 'untitled task'}
+                        <button onClick={() => onChange({ dependencies: task.dependencies.filter(d => d !== dep) })} className="hover:text-red-300">&times;</button>
+                    </span>
+                ))}
+                {dependencyOptions.length > 0 && (
+                    <select
+                        value=""
+                        onChange={(e) => e.target.value && onChange({ dependencies: [...task.dependencies, e.target.value] })}
+                        className="bg-slate-900/50 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-300 outline-none"
+                    >
+                        <option value="">+ Depends on…</option>
+                        {dependencyOptions.map(t => <option key={t.id} value={t.id}>{t.title || 'Untitled task'}</option>)}
+                    </select>
+                )}
+            </div>
+        </li>
+    );
+};
+
+interface AssignmentCardProps {
+    title: string;
+    workload: React.ReactNode;
+    tasks: Task[];
+    pinnedTaskIds: string[];
+    animationDelay: number;
+    onDropTask: (taskId: string) => void;
+    // Omitted for the unassigned pool, where there is nothing to pin.
+    onTogglePin?: (taskId: string) => void;
+    // Omitted for the unassigned pool, which has no calendar.
+    onExportCalendar?: () => void;
+}
+
+const TASK_DRAG_TYPE = 'application/x-task-id';
+
+const AssignmentCard: React.FC<AssignmentCardProps> = ({ title, workload, tasks, pinnedTaskIds, animationDelay, onDropTask, onTogglePin, onExportCalendar }) => {
+    const [isDragOver, setIsDragOver] = useState(false);
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setIsDragOver(false);
+        const taskId = e.dataTransfer.getData(TASK_DRAG_TYPE);
+        if (taskId && !tasks.some(task => task.id === taskId)) onDropTask(taskId);
+    };
+
+    return (
+        <div
+            onDragOver={(e) => { if (e.dataTransfer.types.includes(TASK_DRAG_TYPE)) { e.preventDefault(); setIsDragOver(true); } }}
+            onDragLeave={() => setIsDragOver(false)}
+            onDrop={handleDrop}
+            className={`bg-slate-900/60 p-4 rounded-lg border animate-fade-in transition ${isDragOver ? 'border-teal-400 bg-teal-500/10' : 'border-slate-700/80'}`}
+            style={{ animationDelay: `${animationDelay}ms` }}
+        >
+            <div className="flex justify-between items-baseline gap-2">
+                <h4 className="font-bold text-md text-teal-300">{title}</h4>
+                <span className="flex items-center gap-2">
+                    {workload}
+                    {onExportCalendar && tasks.length > 0 && (
+                        <button onClick={onExportCalendar} className="text-slate-500 hover:text-white transition" title="Download these tasks as a calendar file (.ics)">
+                            <CalendarIcon className="w-4 h-4" />
+                        </button>
+                    )}
+                </span>
+            </div>
+            {tasks.length === 0 ? (
+                <p className="mt-2 text-sm text-slate-500 italic">Drop tasks here</p>
+            ) : (
+                <ul className="mt-2 text-slate-300 space-y-1">
+                    {tasks.map(task => {
+                        const isPinned = pinnedTaskIds.includes(task.id);
+                        return (
+                            <li
+                                key={task.id}
+                                draggable
+                                onDragStart={(e) => { e.dataTransfer.setData(TASK_DRAG_TYPE, task.id); e.dataTransfer.effectAllowed = 'move'; }}
+                                className="flex items-center justify-between gap-2 text-sm cursor-grab active:cursor-grabbing rounded px-1 -mx-1 hover:bg-slate-800/60"
+                            >
+                                <span>{task.title}</span>
+                                <span className="flex items-center gap-1 shrink-0">
+                                    <span className={`text-xs px-1.5 rounded ${PRIORITY_STYLES[task.priority]}`}>{TASK_PRIORITY_LABELS[task.priority]}</span>
+                                    <span className="text-xs text-slate-400">{task.effortHours}h</span>
+                                    {onTogglePin && (
+                                        <button
+                                            onClick={() => onTogglePin(task.id)}
+                                            className={isPinned ? 'text-teal-300 hover:text-white' : 'text-slate-500 hover:text-white'}
+                                            title={isPinned ? 'Pinned: kept on redistribution. Click to unpin.' : 'Pin to keep this assignment on redistribution'}
+                                        >
+                                            {isPinned ? <LockClosedIcon className="w-4 h-4" /> : <LockOpenIcon className="w-4 h-4" />}
+                                        </button>
+                                    )}
+                                </span>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+const TaskPanel: React.FC<TaskPanelProps> = ({ planDate, isPlanOutdated, onStartNextDay, templates, onApplyTemplate, onOpenPlanning, rankedEmployees, unrankedAssignees, tasks, assignments, issues, onChangeTasks, onUpdateCapacity, onMoveTask, onTogglePin, onDistribute, isDistributing, staleReasons, onDismissStale, onExportAssignments, onExportCalendar }) => {
+    const [newTasks, setNewTasks] = useState('');
+
+    const assignmentMap = useMemo(() =>
+        new Map(assignments.map(assignment => [assignment.employeeId, assignment])),
+        [assignments]
+    );
+    const taskMap = useMemo(() => new Map(tasks.map(task => [task.id, task])), [tasks]);
+    const unassignedTasks = useMemo(() => {
+        const assigned = new Set(assignments.flatMap(assignment => assignment.taskIds));
+        return tasks.filter(task => !assigned.has(task.id));
+    }, [tasks, assignments]);
+    const pinnedCount = assignments.reduce((sum, assignment) => sum + assignment.pinnedTaskIds.length, 0);
+
+    const handleAddTasks = () => {
+        const created = newTasks.split('\n').filter(line => line.trim() !== '').map(createTask);
+        if (created.length === 0) return;
+        onChangeTasks([...tasks, ...created]);
+        setNewTasks('');
+    };
+
+    const updateTask = (id: string, changes: Partial<Task>) => {
+        onChangeTasks(tasks.map(task => task.id === id ? { ...task, ...changes } : task));
+    };
+
+    const removeTask = (id: string) => {
+        onChangeTasks(tasks
+            .filter(task => task.id !== id)
+            .map(task => ({ ...task, dependencies: task.dependencies.filter(dep => dep !== id) })));
+    };
+
+    return (
+        <div className="panel-3d aurora-border p-6 rounded-xl">
+            <h2 className="text-xl font-semibold mb-4 flex items-center gap-2 text-teal-300">
+                <ClipboardListIcon className="w-6 h-6" />
+                Daily Task Distribution
+            </h2>
+            <div className="flex justify-between items-center gap-2 mb-3 flex-wrap text-sm">
+                <span className={isPlanOutdated ? 'text-amber-300' : 'text-slate-400'}>
+                    Plan for {fromIsoDate(planDate).toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric' })}
+                </span>
+                <div className="flex items-center gap-3">
+                    <button onClick={onOpenPlanning} className="text-slate-400 hover:text-white transition">Templates &amp; history</button>
+                    <button
+                        onClick={onStartNextDay}
+                        className={isPlanOutdated ? 'text-amber-300 hover:text-white font-semibold transition' : 'text-teal-300 hover:text-white transition'}
+                        title="Record this day's assignments, carry over unassigned tasks and add the templates that repeat on the new day"
+                    >
+                        {isPlanOutdated ? "Start today's plan" : 'Start next day'}
+                    </button>
+                </div>
+            </div>
+            <textarea
+                value={newTasks}
+                onChange={(e) => setNewTasks(e.target.value)}
+                placeholder="Enter daily tasks, one per line..."
+                rows={3}
+                className="w-full bg-slate-900/50 border border-slate-700 rounded-md p-3 focus:ring-2 focus:ring-teal-500 focus:border-teal-500 outline-none transition placeholder-slate-400"
+            />
+            <div className="flex justify-between items-center mt-2">
+                <button onClick={handleAddTasks} disabled={!newTasks.trim()} className="text-sm text-teal-300 hover:text-white disabled:text-slate-600 disabled:cursor-not-allowed transition">
+                    + Add tasks
+                </button>
+                <div className="flex items-center gap-3">
+                    {templates.length > 0 && (
+                        <select
+                            value=""
+                            onChange={(e) => e.target.value && onApplyTemplate(e.target.value)}
+                            className="bg-slate-900/50 border border-slate-700 rounded-md px-2 py-1 text-sm text-slate-300 outline-none"
+                        >
+                            <option value="">+ From template…</option>
+                            {templates.map(template => <option key={template.id} value={template.id}>{template.name || 'Untitled template'}</option>)}
+                        </select>
+                    )}
+                    {tasks.length > 0 && (
+                        <button onClick={() => onChangeTasks([])} className="text-sm text-slate-400 hover:text-red-300 transition">Clear all</button>
+                    )}
+                </div>
+            </div>
+
+            {tasks.length > 0 && (
+                <ul className="space-y-2 mt-4 max-h-[40vh] overflow-y-auto pr-2 -mr-2">
+                    {tasks.map(task => (
+                        <TaskRow key={task.id} task={task} tasks={tasks} onChange={(changes) => updateTask(task.id, changes)} onRemove={() => removeTask(task.id)} />
+                    ))}
+                </ul>
+            )}
+
+            {rankedEmployees.length > 0 && (
+                <details className="mt-4 text-sm">
+                    <summary className="cursor-pointer text-slate-400 hover:text-white">Availability (hours in this plan)</summary>
+                    <div className="grid grid-cols-2 gap-2 mt-2">
+                        {rankedEmployees.map(emp => (
+                            <label key={emp.id} className="flex items-center justify-between gap-2 text-slate-300">
+                                <span className="truncate">{emp.name}</span>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step={0.5}
+                                    value={emp.capacityHours}
+                                    onChange={(e) => onUpdateCapacity(emp.id, Math.max(0, Number(e.target.value) || 0))}
+                                    className={`${inputClassName} w-20`}
+                                />
+                            </label>
+                        ))}
+                    </div>
+                </details>
+            )}
+
+            <button
+                onClick={() => onDistribute(false)}
+                disabled={rankedEmployees.length === 0 || tasks.length === 0 || isDistributing}
+                className="w-full mt-4 flex justify-center items-center gap-2 bg-gradient-to-r from-teal-600 to-green-600 hover:from-teal-700 hover:to-green-700 text-white font-bold py-3 px-4 rounded-md transition duration-300 ease-in-out disabled:from-slate-600 disabled:to-slate-700 disabled:cursor-not-allowed disabled:opacity-50 shadow-lg hover:shadow-teal-500/30 active:scale-[0.98]"
+            >
+                <WandIcon className="w-5 h-5"/>
+                {isDistributing ? 'Assigning...' : 'Distribute Tasks'}
+            </button>
+            {rankedEmployees.length === 0 && (
+                <p className="text-xs text-slate-500 mt-2 text-center">Rank the roster first; ranks break ties between equally suited people.</p>
+            )}
+
+            {assignments.length > 0 && (
+                <div className="mt-6">
+                    <div className="flex justify-between items-center gap-2 mb-3">
+                        <h3 className="text-lg font-semibold text-teal-300">Task Assignments</h3>
+                        {pinnedCount > 0 && (
+                            <button
+                                onClick={() => onDistribute(true)}
+                                disabled={isDistributing}
+                                className="text-sm text-teal-300 hover:text-white disabled:text-slate-600 disabled:cursor-not-allowed transition"
+                                title="Keep pinned tasks where they are and reassign everything else"
+                            >
+                                Redistribute the rest ({pinnedCount} pinned)
+                            </button>
+                        )}
+                    </div>
+                    <div className="flex justify-end mb-3">
+                        <ReportExportMenu onExport={onExportAssignments} />
+                    </div>
+                    {staleReasons.length > 0 && (
+                        <div className="mb-3 text-sm text-amber-200 bg-amber-900/30 border border-amber-700/60 rounded-lg p-3 animate-fade-in">
+                            <div className="flex justify-between items-start gap-3">
+                                <div>
+                                    <p className="font-semibold">This plan was made before these changes:</p>
+                                    <ul className="list-disc list-inside text-amber-200/80 mt-1">
+                                        {[...new Set(staleReasons)].map(reason => <li key={reason}>{reason}</li>)}
+                                    </ul>
+                                </div>
+                                <div className="flex gap-3 shrink-0">
+                                    <button onClick={() => onDistribute(pinnedCount > 0)} disabled={isDistributing} className="hover:text-white disabled:text-slate-600 transition">Redistribute</button>
+                                    <button onClick={onDismissStale} className="text-amber-200/70 hover:text-white transition" title="Keep the plan as it is">Dismiss</button>
+                                </div>
+                            </div>
+                        </div>
+                    )}
+                    {issues.length > 0 && (
+                        <ul className="mb-3 space-y-1 text-sm text-amber-300 bg-amber-500/10 border border-amber-500/30 rounded-lg p-3">
+                            {issues.map((issue, index) => <li key={index}>{issue.message}</li>)}
+                        </ul>
+                    )}
+                    <p className="text-xs text-slate-500 mb-2">Drag tasks between people to reassign them; moved tasks are pinned.</p>
+                    <div className="space-y-3 max-h-[50vh] overflow-y-auto pr-2 -mr-2">
+                        {[...rankedEmployees, ...unrankedAssignees].map((employee, index) => {
+                            const assignment = assignmentMap.get(employee.id);
+                            const hours = assignment ? assignedHours(assignment, tasks) : 0;
+                            return (
+                                <AssignmentCard
+                                    key={employee.id}
+                                    title={index < rankedEmployees.length ? employee.name : `${employee.name} (not ranked)`}
+                                    workload={
+                                        <span className={`text-xs ${hours > employee.capacityHours ? 'text-red-300' : 'text-slate-400'}`}>
+                                            {hours}h / {employee.capacityHours}h
+                                        </span>
+                                    }
+                                    tasks={(assignment?.taskIds ?? []).map(id => taskMap.get(id)).filter((task): task is Task => Boolean(task))}
+                                    pinnedTaskIds={assignment?.pinnedTaskIds ?? []}
+                                    animationDelay={index * 70}
+                                    onDropTask={(taskId) => onMoveTask(taskId, employee.id)}
+                                    onTogglePin={onTogglePin}
+                                    onExportCalendar={() => onExportCalendar(employee.id)}
+                                />
+                            );
+                        })}
+                        {unassignedTasks.length > 0 && (
+                            <AssignmentCard
+                                title="Unassigned"
+                                workload={<span className="text-xs text-slate-400">{unassignedTasks.reduce((sum, task) => sum + task.effortHours, 0)}h</span>}
+                                tasks={unassignedTasks}
+                                pinnedTaskIds={[]}
+                                animationDelay={(rankedEmployees.length + unrankedAssignees.length) * 70}
+                                onDropTask={(taskId) => onMoveTask(taskId, null)}
+                            />
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TaskPanel;
@@ -0,0 +1,273 @@
+import React, { useMemo, useState } from 'react';
+import type { AnalyzedEmployee, JobProfile, SkillCategory, Task } from '../types';
+import { suggestTeamPriorities, type TeamPriorities } from '../services/aiService';
+import { SKILL_CATEGORY_LABELS, type SkillIndex } from '../services/skillTaxonomyService';
+import {
+    buildSkillCoverage,
+    COVERAGE_LEVELS,
+    experienceDistribution,
+    findSkillGaps,
+    medianExperience,
+    singlePointSkills,
+    targetSkillsFor,
+    type GapStatus,
+} from '../services/teamCoverageService';
+import { ChartBarIcon, SparklesIcon } from './icons';
+
+interface TeamCoveragePanelProps {
+    employees: AnalyzedEmployee[];
+    skillIndex: SkillIndex;
+    profiles: JobProfile[];
+    activeProfileId: string;
+    tasks: Task[];
+    onOpenEmployee: (employeeId: string) => void;
+    onClose: () => void;
+}
+
+// Target skill sets come from a job profile or from the current tasks.
+const TASKS_TARGET = 'tasks';
+
+const inputClassName = "bg-slate-900/50 border border-slate-700 rounded-md py-1 px-2 text-sm text-slate-200 focus:ring-2 focus:ring-violet-500 outline-none";
+
+const GAP_STYLES: Record<GapStatus, { label: string; className: string }> = {
+    missing: { label: 'Missing', className: 'bg-red-500/20 text-red-300' },
+    single: { label: 'One person', className: 'bg-amber-500/20 text-amber-300' },
+    covered: { label: 'Covered', className: 'bg-green-500/20 text-green-300' },
+};
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+    <section>
+        <h3 className="text-sm font-semibold uppercase tracking-wider text-violet-300 mb-2">{title}</h3>
+        {children}
+    </section>
+);
+
+const TeamCoveragePanel: React.FC<TeamCoveragePanelProps> = ({ employees, skillIndex, profiles, activeProfileId, tasks, onOpenEmployee, onClose }) => {
+    const [target, setTarget] = useState(activeProfileId);
+    const [extraSkills, setExtraSkills] = useState('');
+    const [category, setCategory] = useState<SkillCategory | 'all' | 'unrecognized'>('all');
+    const [priorities, setPriorities] = useState<TeamPriorities | null>(null);
+    const [isSuggesting, setIsSuggesting] = useState(false);
+    const [suggestError, setSuggestError] = useState<string | null>(null);
+
+    const namesById = new Map<string, string>(employees.map(emp => [emp.id, emp.name]));
+    const coverage = useMemo(() => buildSkillCoverage(employees, skillIndex), [employees, skillIndex]);
+    const singlePoints = singlePointSkills(coverage);
+    const distribution = experienceDistribution(employees);
+    const largestBucket = Math.max(1, ...distribution.map(bucket => bucket.employeeIds.length));
+    const mostHolders = Math.max(1, ...coverage.map(entry => entry.holderIds.length));
+
+    const targetSkills = [
+        ...(target === TASKS_TARGET ? targetSkillsFor(null, tasks) : targetSkillsFor(profiles.find(profile => profile.id === target) ?? null, [])),
+        ...extraSkills.split(',').map(skill => skill.trim()).filter(Boolean),
+    ];
+    const gaps = findSkillGaps(coverage, targetSkills, skillIndex);
+    const openGaps = gaps.filter(gap => gap.status !== 'covered');
+    const shownCoverage = coverage.filter(entry => category === 'all'
+        || (category === 'unrecognized' ? entry.category === null : entry.category === category));
+
+    const changeTarget = (update: () => void) => {
+        update();
+        // Suggestions were made for the previous gaps.
+        setPriorities(null);
+        setSuggestError(null);
+    };
+
+    const handleSuggest = async () => {
+        setIsSuggesting(true);
+        setSuggestError(null);
+        try {
+            setPriorities(await suggestTeamPriorities(openGaps, employees));
+        } catch (err) {
+            setSuggestError(err instanceof Error ? err.message : 'Failed to suggest priorities.');
+        } finally {
+            setIsSuggesting(false);
+        }
+    };
+
+    const names = (employeeIds: string[]) => employeeIds.map((id, index) => (
+        <React.Fragment key={id}>
+            {index > 0 && ', '}
+            <button onClick={() => onOpenEmployee(id)} className="text-slate-200 hover:text-violet-300 transition">{namesById.get(id) ?? 'Unknown'}</button>
+        </React.Fragment>
+    ));
+
+    return (
+        <div className="fixed inset-0 z-20 flex items-center justify-center bg-slate-950/70 p-4" onClick={onClose}>
+            <div className="panel-3d aurora-border p-6 rounded-xl w-full max-w-5xl max-h-[90vh] overflow-y-auto animate-fade-in" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-start gap-4 mb-4">
+                    <h2 className="text-xl font-semibold flex items-center gap-2 text-violet-300">
+                        <ChartBarIcon className="w-6 h-6" />
+                        Team Coverage
+                    </h2>
+                    <button onClick={onClose} className="text-slate-400 hover:text-white text-xl leading-none">&times;</button>
+                </div>
+
+                {employees.length === 0 ? (
+                    <p className="text-sm text-slate-400 italic">Add employees to see how the team's skills and experience are covered.</p>
+                ) : (
+                    <div className="space-y-6">
+                        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-center">
+                            {[
+                                { label: 'People', value: employees.length },
+                                { label: 'Distinct skills', value: coverage.length },
+                                { label: 'Held by one person', value: singlePoints.length },
+                                { label: 'Median experience', value: `${medianExperience(employees)} yrs` },
+                            ].map(stat => (
+                                <div key={stat.label} className="bg-slate-900/60 border border-slate-700/80 rounded-lg p-3">
+                                    <p className="text-2xl font-semibold text-slate-100">{stat.value}</p>
+                                    <p className="text-xs text-slate-400">{stat.label}</p>
+                                </div>
+                            ))}
+                        </div>
+
+                        <Section title="Gaps against a target">
+                            <div className="flex items-center gap-3 flex-wrap text-sm text-slate-400 mb-3">
+                                <label className="flex items-center gap-2">
+                                    Target
+                                    <select value={target} onChange={(e) => changeTarget(() => setTarget(e.target.value))} className={inputClassName}>
+                                        {profiles.map(profile => <option key={profile.id} value={profile.id}>{profile.title}</option>)}
+                                        <option value={TASKS_TARGET}>Current tasks</option>
+                                    </select>
+                                </label>
+                                <label className="flex items-center gap-2 flex-1 min-w-[14rem]">
+                                    plus
+                                    <input
+                                        type="text"
+                                        value={extraSkills}
+                                        onChange={(e) => changeTarget(() => setExtraSkills(e.target.value))}
+                                        placeholder="Other skills, comma separated"
+                                        className={`${inputClassName} flex-1`}
+                                    />
+                                </label>
+                            </div>
+                            {gaps.length === 0 ? (
+                                <p className="text-sm text-slate-500 italic">This target lists no skills.</p>
+                            ) : (
+                                <table className="w-full text-sm">
+                                    <tbody>
+                                        {gaps.map(gap => (
+                                            <tr key={gap.skill} className="border-b border-slate-800 text-slate-300 align-top">
+                                                <td className="py-1.5 pr-3 text-slate-200">{gap.skill}</td>
+                                                <td className="py-1.5 pr-3">
+                                                    <span className={`text-xs font-medium px-2 py-0.5 rounded ${GAP_STYLES[gap.status].className}`}>{GAP_STYLES[gap.status].label}</span>
+                                                </td>
+                                                <td className="py-1.5 pr-3 text-slate-400">
+                                                    {gap.holderIds.length > 0 ? names(gap.holderIds) : '—'}
+                                                </td>
+                                                <td className="py-1.5 text-slate-500 capitalize">{gap.bestLevel ?? ''}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )}
+                            <div className="mt-3 bg-slate-900/40 border border-slate-700/80 rounded-md p-4 space-y-3">
+                                <button
+                                    onClick={handleSuggest}
+                                    disabled={isSuggesting || openGaps.length === 0}
+                                    className="flex items-center gap-2 bg-gradient-to-r from-violet-600 to-indigo-600 hover:from-violet-700 hover:to-indigo-700 text-white font-bold py-2 px-4 rounded-md transition duration-300 ease-in-out disabled:from-slate-600 disabled:to-slate-700 disabled:cursor-not-allowed disabled:opacity-50 shadow-lg hover:shadow-violet-500/30 active:scale-[0.98]"
+                                >
+                                    <SparklesIcon className="w-5 h-5" />
+                                    {isSuggesting ? 'Suggesting...' : priorities ? 'Suggest Again' : 'Suggest Training & Hiring Priorities'}
+                                </button>
+                                {openGaps.length === 0 && gaps.length > 0 && <p className="text-sm text-slate-400">Every target skill is held by at least two people.</p>}
+                                {suggestError && <p className="text-sm text-red-300">{suggestError}</p>}
+                                {priorities && (
+                                    <div className="space-y-2 animate-fade-in">
+                                        <p className="text-sm text-slate-200">{priorities.summary}</p>
+                                        <ol className="space-y-2 text-sm list-decimal list-inside">
+                                            {priorities.priorities.map(priority => (
+                                                <li key={priority.skill} className="text-slate-300">
+                                                    <span className={`text-xs font-medium px-2 py-0.5 rounded mr-2 ${priority.action === 'hire' ? 'bg-indigo-500/20 text-indigo-300' : 'bg-teal-500/20 text-teal-300'}`}>
+                                                        {priority.action === 'hire' ? 'Hire' : 'Train'}
+                                                    </span>
+                                                    <span className="font-semibold text-slate-100">{priority.skill}</span>: {priority.rationale}
+                                                    {priority.employeeIds.length > 0 && (
+                                                        <span className="block text-xs text-slate-400 ml-6">Best placed to learn it: {names(priority.employeeIds)}</span>
+                                                    )}
+                                                </li>
+                                            ))}
+                                        </ol>
+                                    </div>
+                                )}
+                            </div>
+                        </Section>
+
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                            <Section title="Single points of failure">
+                                {singlePoints.length === 0 ? (
+                                    <p className="text-sm text-slate-500 italic">Every skill is held by at least two people.</p>
+                                ) : (
+                                    <ul className="text-sm space-y-1 max-h-64 overflow-y-auto pr-2">
+                                        {singlePoints.map(entry => (
+                                            <li key={entry.skill} className="flex justify-between gap-3">
+                                                <span className="text-slate-200">{entry.skill}</span>
+                                                <span className="text-slate-400">{names(entry.holderIds)}</span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </Section>
+                            <Section title="Experience distribution">
+                                <ul className="space-y-2 text-sm">
+                                    {distribution.map(bucket => (
+                                        <li key={bucket.label} className="grid grid-cols-[5rem_1fr_2rem] items-center gap-3">
+                                            <span className="text-slate-400">{bucket.label}</span>
+                                            <div className="h-2 bg-slate-800 rounded">
+                                                <div className="h-2 rounded bg-violet-500" style={{ width: `${(bucket.employeeIds.length / largestBucket) * 100}%` }} />
+                                            </div>
+                                            <span className="text-slate-300 text-right">{bucket.employeeIds.length}</span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </Section>
+                        </div>
+
+                        <Section title="Skills heatmap">
+                            <label className="text-sm text-slate-400 flex items-center gap-2 mb-2">
+                                Category
+                                <select value={category} onChange={(e) => setCategory(e.target.value as typeof category)} className={inputClassName}>
+                                    <option value="all">All</option>
+                                    {(Object.keys(SKILL_CATEGORY_LABELS) as SkillCategory[]).map(key => (
+                                        <option key={key} value={key}>{SKILL_CATEGORY_LABELS[key]}</option>
+                                    ))}
+                                    <option value="unrecognized">Not in taxonomy</option>
+                                </select>
+                            </label>
+                            <div className="overflow-x-auto max-h-96 overflow-y-auto">
+                                <table className="w-full text-sm">
+                                    <thead>
+                                        <tr className="text-left border-b border-slate-700 text-slate-400">
+                                            <th className="py-2 pr-3 font-medium">Skill</th>
+                                            {COVERAGE_LEVELS.map(level => <th key={level} className="py-2 px-2 font-medium text-center capitalize">{level}</th>)}
+                                            <th className="py-2 px-2 font-medium text-center">People</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {shownCoverage.map(entry => (
+                                            <tr key={entry.skill} className="border-b border-slate-800 text-slate-300">
+                                                <td className="py-1 pr-3 text-slate-200">{entry.skill}</td>
+                                                {COVERAGE_LEVELS.map(level => (
+                                                    <td
+                                                        key={level}
+                                                        className="py-1 px-2 text-center"
+                                                        style={{ backgroundColor: entry.levels[level] > 0 ? `rgba(139, 92, 246, ${0.15 + 0.6 * entry.levels[level] / mostHolders})` : undefined }}
+                                                    >
+                                                        {entry.levels[level] || ''}
+                                                    </td>
+                                                ))}
+                                                <td className={`py-1 px-2 text-center font-semibold ${entry.holderIds.length === 1 ? 'text-amber-300' : ''}`}>{entry.holderIds.length}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </Section>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default TeamCoveragePanel;
@@ -0,0 +1,128 @@
+import {
+    API_ROUTES,
+    type AnalyzeResumeBody,
+    type AskRosterBody,
+    type CompareCandidatesBody,
+    type CompareCandidatesResponse,
+    type InferTaskSkillsBody,
+    type InferTaskSkillsResponse,
+    type RankEmployeesBody,
+    type RankingStreamLine,
+    type SuggestTeamPrioritiesBody,
+} from '../services/apiContract';
+import { analyzeResume, askRoster, compareCandidates, inferTaskSkills, rankEmployees, suggestTeamPriorities } from '../services/geminiService';
+import { getActiveProvider, type LlmCredentials, type LlmProvider } from '../services/llm';
+import { normalizeLlmSettings } from '../services/settingsService';
+import { exactPath, HttpError, readJson, sendJson, toErrorBody, type Route } from './http';
+
+// A provider that is not configured on this server is the caller's choice to change, not a server fault.
+const resolveProvider = (settings: unknown, credentials: LlmCredentials): LlmProvider => {
+    try {
+        return getActiveProvider(normalizeLlmSettings(settings), credentials);
+    } catch (error) {
+        throw new HttpError(400, error instanceof Error ? error.message : String(error));
+    }
+};
+
+const requireArrays = (body: object, keys: string[]): void => {
+    const missing = keys.filter(key => !Array.isArray((body as Record<string, unknown>)[key]));
+    if (missing.length > 0) {
+        throw new HttpError(400, `The request needs ${missing.join(' and ')} as lists.`);
+    }
+};
+
+/** Resume analysis, ranking, task skill inference, comparisons, roster questions and team priorities, wrapping geminiService. */
+export const createAiRoutes = (credentials: LlmCredentials): Route[] => [
+    {
+        method: 'POST',
+        pattern: exactPath(API_ROUTES.analyzeResume),
+        handler: async (req, res) => {
+            const body = await readJson<AnalyzeResumeBody>(req);
+            if (!body.content || typeof body.content !== 'object') {
+                throw new HttpError(400, "The request needs the extracted resume content.");
+            }
+            requireArrays(body.content, ['images']);
+            const provider = resolveProvider(body.settings, credentials);
+            sendJson(res, 200, await analyzeResume(provider, body.content));
+        },
+    },
+    {
+        method: 'POST',
+        pattern: exactPath(API_ROUTES.rankEmployees),
+        handler: async (req, res) => {
+            const body = await readJson<RankEmployeesBody>(req);
+            requireArrays(body, ['employees']);
+            if (!body.profile || typeof body.profile !== 'object') {
+                throw new HttpError(400, "The request needs a job profile.");
+            }
+            const provider = resolveProvider(body.settings, credentials);
+            // Large rosters are ranked in batches; progress is streamed so the app can show it.
+            res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+            const writeLine = (line: RankingStreamLine) => res.write(`${JSON.stringify(line)}\n`);
+            try {
+                const result = await rankEmployees(provider, body.employees, body.profile, {
+                    blind: body.blind === true,
+                    onProgress: progress => writeLine({ progress }),
+                });
+                writeLine({ result });
+            } catch (error) {
+                writeLine({ error: toErrorBody(error) });
+            }
+            res.end();
+        },
+    },
+    {
+        method: 'POST',
+        pattern: exactPath(API_ROUTES.inferTaskSkills),
+        handler: async (req, res) => {
+            const body = await readJson<InferTaskSkillsBody>(req);
+            requireArrays(body, ['tasks', 'knownSkills']);
+            const provider = resolveProvider(body.settings, credentials);
+            const skills = await inferTaskSkills(provider, body.tasks, body.knownSkills);
+            const response: InferTaskSkillsResponse = { skills: Object.fromEntries(skills) };
+            sendJson(res, 200, response);
+        },
+    },
+    {
+        method: 'POST',
+        pattern: exactPath(API_ROUTES.compareCandidates),
+        handler: async (req, res) => {
+            const body = await readJson<CompareCandidatesBody>(req);
+            requireArrays(body, ['employees', 'tasks']);
+            const provider = resolveProvider(body.settings, credentials);
+            const { assessments, ...verdict } = await compareCandidates(provider, body.employees, body.role ?? null, body.tasks);
+            const response: CompareCandidatesResponse = { ...verdict, assessments: Object.fromEntries(assessments) };
+            sendJson(res, 200, response);
+        },
+    },
+    {
+        method: 'POST',
+        pattern: exactPath(API_ROUTES.askRoster),
+        handler: async (req, res) => {
+            const body = await readJson<AskRosterBody>(req);
+            if (typeof body.question !== 'string' || !body.question.trim()) {
+                throw new HttpError(400, "The request needs a question.");
+            }
+            if (!body.roster || typeof body.roster !== 'object') {
+                throw new HttpError(400, "The request needs the roster to answer from.");
+            }
+            requireArrays(body, ['history']);
+            requireArrays(body.roster, ['employees', 'tasks', 'assignments']);
+            const provider = resolveProvider(body.settings, credentials);
+            sendJson(res, 200, await askRoster(provider, body.question.trim(), body.history, body.roster));
+        },
+    },
+    {
+        method: 'POST',
+        pattern: exactPath(API_ROUTES.suggestTeamPriorities),
+        handler: async (req, res) => {
+            const body = await readJson<SuggestTeamPrioritiesBody>(req);
+            requireArrays(body, ['gaps', 'employees']);
+            if (body.gaps.length === 0) {
+                throw new HttpError(400, "The request needs at least one skill gap.");
+            }
+            const provider = resolveProvider(body.settings, credentials);
+            sendJson(res, 200, await suggestTeamPriorities(provider, body.gaps, body.employees));
+        },
+    },
+];
@@ -0,0 +1,105 @@
+import { timingSafeEqual } from 'node:crypto';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { ApiErrorBody } from '../services/apiContract';
+import { LlmError } from '../services/llm/errors';
+
+// Large enough for a resume with rendered page images.
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+
+/** A failure with the HTTP status to answer it with. */
+export class HttpError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+export interface Route {
+    method: string;
+    // Capture groups are passed to the handler, e.g. an id taken from the path.
+    pattern: RegExp;
+    handler: (req: IncomingMessage, res: ServerResponse, params: string[]) => Promise<void>;
+}
+
+export const exactPath = (path: string): RegExp => new RegExp(`^${path}$`);
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '::1'];
+
+export const isLoopbackHost = (hostname: string): boolean => LOOPBACK_HOSTS.includes(hostname.replace(/^\[(.*)\]$/, '$1'));
+
+/**
+ * Whether the Host header and the Origin, when there is one, name this machine or one of
+ * `allowedHosts`. Turns away pages on other sites, including ones whose name was
+ * rebound to this machine's address.
+ */
+export const hasAllowedOrigin = (req: IncomingMessage, allowedHosts: string[]): boolean => {
+    const isAllowed = (url: string) => {
+        try {
+            const { hostname } = new URL(url);
+            return isLoopbackHost(hostname) || allowedHosts.includes(hostname);
+        } catch {
+            return false;
+        }
+    };
+    return isAllowed(`http://${req.headers.host ?? ''}`) && (req.headers.origin === undefined || isAllowed(req.headers.origin));
+};
+
+/** Whether the request carries `token` as its bearer token, compared in constant time. */
+export const hasBearerToken = (req: IncomingMessage, token: string): boolean => {
+    const header = req.headers.authorization ?? '';
+    const presented = Buffer.from(header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '');
+    const expected = Buffer.from(token);
+    return presented.length === expected.length && timingSafeEqual(presented, expected);
+};
+
+export const readBody = (req: IncomingMessage): Promise<Buffer> => new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size <= MAX_BODY_BYTES) chunks.push(chunk);
+    });
+    req.on('end', () => size > MAX_BODY_BYTES
+        ? reject(new HttpError(413, `The request is larger than ${MAX_BODY_BYTES / 1024 / 1024} MB.`))
+        : resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+});
+
+// Only JSON is accepted, so a plain form on another site cannot post to the API.
+export const readJson = async <T extends object>(req: IncomingMessage): Promise<T> => {
+    const mediaType = req.headers['content-type']?.split(';')[0].trim().toLowerCase();
+    if (mediaType !== 'application/json') {
+        throw new HttpError(415, "The request body must be sent as application/json.");
+    }
+    const body = await readBody(req);
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(body.toString('utf8'));
+    } catch {
+        throw new HttpError(400, "The request body is not valid JSON.");
+    }
+    if (!parsed || typeof parsed !== 'object') {
+        throw new HttpError(400, "The request body must be a JSON object.");
+    }
+    return parsed as T;
+};
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown): void => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+};
+
+export const toErrorBody = (error: unknown): ApiErrorBody => error instanceof LlmError
+    ? { message: error.message, kind: error.kind }
+    : { message: error instanceof Error ? error.message : String(error) };
+
+// Model failures are the upstream provider's, so they answer as a bad gateway.
+export const sendError = (res: ServerResponse, error: unknown): void => {
+    const status = error instanceof HttpError ? error.status : error instanceof LlmError ? 502 : 500;
+    if (status === 500) console.error("Unhandled API error:", error);
+    if (res.headersSent) {
+        res.end();
+        return;
+    }
+    sendJson(res, status, { error: toErrorBody(error) });
+};
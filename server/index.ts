@@ -0,0 +1,64 @@
+import { createServer } from 'node:http';
+import path from 'node:path';
+import type { LlmCredentials } from '../services/llm';
+import { createAiRoutes } from './aiRoutes';
+import { hasAllowedOrigin, hasBearerToken, HttpError, isLoopbackHost, sendError } from './http';
+import { createWorkspaceRoutes } from './workspaceRoutes';
+import { createWorkspaceStore } from './workspaceStore';
+
+// The same files Vite reads; variables already set in the environment take precedence.
+for (const file of ['.env.local', '.env']) {
+    try {
+        process.loadEnvFile(file);
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+}
+
+const port = Number(process.env.API_PORT) || 3001;
+// Only the Vite dev or preview server talks to the API, so it listens locally by default.
+const host = process.env.API_HOST || '127.0.0.1';
+const dataDir = path.resolve(process.env.DATA_DIR || 'data');
+// Required on every request when set. Anyone who can reach the app without it can read the roster and spend the API keys.
+const apiToken = process.env.API_TOKEN ?? '';
+// Names the app is opened under besides this machine's; requests for any other host or origin are refused.
+const allowedHosts = (process.env.ALLOWED_HOSTS ?? '').split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+
+if (!isLoopbackHost(host) && !apiToken) {
+    throw new Error(`API_HOST=${host} makes the API reachable from other machines; set API_TOKEN too.`);
+}
+
+const credentials: LlmCredentials = {
+    geminiApiKey: process.env.GEMINI_API_KEY ?? '',
+    openAiBaseUrl: process.env.OPENAI_BASE_URL ?? 'http://localhost:11434/v1',
+    openAiApiKey: process.env.OPENAI_API_KEY ?? '',
+};
+
+const routes = [
+    ...createAiRoutes(credentials),
+    ...createWorkspaceRoutes(createWorkspaceStore(dataDir)),
+];
+
+const server = createServer(async (req, res) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    try {
+        if (!hasAllowedOrigin(req, allowedHosts)) {
+            throw new HttpError(403, "Requests from this host or origin are not allowed. Add its name to ALLOWED_HOSTS.");
+        }
+        if (apiToken && !hasBearerToken(req, apiToken)) {
+            throw new HttpError(401, "The API server needs an access token. Enter it in Settings.");
+        }
+        const route = routes.find(candidate => candidate.method === req.method && candidate.pattern.test(pathname));
+        if (!route) {
+            throw new HttpError(404, `No API route for ${req.method} ${pathname}.`);
+        }
+        await route.handler(req, res, pathname.match(route.pattern)!.slice(1));
+    } catch (error) {
+        sendError(res, error);
+    }
+});
+
+server.listen(port, host, () => {
+    console.log(`API server listening on http://${host}:${port}, storing data in ${dataDir}`);
+    if (!apiToken) console.warn("API_TOKEN is not set, so the API accepts every request; keep the app on this machine.");
+});
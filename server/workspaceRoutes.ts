@@ -0,0 +1,96 @@
+import { API_ROUTES, FILE_NAME_HEADER, type ResumeFileList, type SaveWorkspaceBody, type SaveWorkspaceResponse, type WorkspaceRevisionResponse } from '../services/apiContract';
+import { exactPath, HttpError, readBody, readJson, sendJson, type Route } from './http';
+import type { WorkspaceStore } from './workspaceStore';
+
+// Employee ids are UUIDs; anything else is refused before it can name a path on disk.
+const resumeFilePattern = new RegExp(`^${API_ROUTES.resumeFiles}/([\\w-]+)$`);
+
+const decodeFileName = (encoded: string): string => {
+    try {
+        return decodeURIComponent(encoded);
+    } catch {
+        throw new HttpError(400, `The ${FILE_NAME_HEADER} header is not a valid URI-encoded file name.`);
+    }
+};
+
+/** The shared workspace and the resume files behind it. */
+export const createWorkspaceRoutes = (store: WorkspaceStore): Route[] => [
+    {
+        method: 'GET',
+        pattern: exactPath(API_ROUTES.workspace),
+        handler: async (_req, res) => {
+            sendJson(res, 200, await store.loadWorkspace());
+        },
+    },
+    {
+        method: 'GET',
+        pattern: exactPath(API_ROUTES.workspaceRevision),
+        handler: async (_req, res) => {
+            const response: WorkspaceRevisionResponse = { revision: (await store.loadWorkspace()).revision };
+            sendJson(res, 200, response);
+        },
+    },
+    {
+        method: 'PUT',
+        pattern: exactPath(API_ROUTES.workspace),
+        handler: async (req, res) => {
+            const body = await readJson<SaveWorkspaceBody>(req);
+            if (!Number.isInteger(body.baseRevision) || !body.workspace || typeof body.workspace !== 'object') {
+                throw new HttpError(400, "The request needs the workspace and the revision it is based on.");
+            }
+            const revision = await store.saveWorkspace(body.baseRevision, body.workspace);
+            if (revision === null) {
+                throw new HttpError(409, "The workspace was saved by someone else in the meantime.");
+            }
+            const response: SaveWorkspaceResponse = { revision };
+            sendJson(res, 200, response);
+        },
+    },
+    {
+        method: 'GET',
+        pattern: exactPath(API_ROUTES.resumeFiles),
+        handler: async (_req, res) => {
+            const response: ResumeFileList = { ids: await store.listResumeFileIds() };
+            sendJson(res, 200, response);
+        },
+    },
+    {
+        method: 'GET',
+        pattern: resumeFilePattern,
+        handler: async (_req, res, [employeeId]) => {
+            const file = await store.loadResumeFile(employeeId);
+            if (!file) {
+                throw new HttpError(404, "No resume file is stored for this employee.");
+            }
+            res.writeHead(200, {
+                'Content-Type': file.type || 'application/octet-stream',
+                // The type is whatever the uploader sent; opened directly, the file downloads instead of rendering on this origin.
+                'X-Content-Type-Options': 'nosniff',
+                'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(file.name)}`,
+                [FILE_NAME_HEADER]: encodeURIComponent(file.name),
+            });
+            res.end(file.data);
+        },
+    },
+    {
+        method: 'PUT',
+        pattern: resumeFilePattern,
+        handler: async (req, res, [employeeId]) => {
+            const name = req.headers[FILE_NAME_HEADER.toLowerCase()];
+            await store.saveResumeFile(employeeId, {
+                name: typeof name === 'string' ? decodeFileName(name) : employeeId,
+                type: req.headers['content-type'] ?? '',
+                data: await readBody(req),
+            });
+            res.writeHead(204).end();
+        },
+    },
+    {
+        method: 'DELETE',
+        pattern: resumeFilePattern,
+        handler: async (_req, res, [employeeId]) => {
+            await store.deleteResumeFile(employeeId);
+            res.writeHead(204).end();
+        },
+    },
+];
@@ -0,0 +1,112 @@
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { Workspace } from '../types';
+import type { StoredWorkspace } from '../services/apiContract';
+
+export interface StoredResumeFile {
+    name: string;
+    type: string;
+    data: Buffer;
+}
+
+export interface WorkspaceStore {
+    loadWorkspace(): Promise<StoredWorkspace>;
+    // Resolves to the new revision, or null when someone saved after `baseRevision`.
+    saveWorkspace(baseRevision: number, workspace: Workspace): Promise<number | null>;
+    saveResumeFile(employeeId: string, file: StoredResumeFile): Promise<void>;
+    loadResumeFile(employeeId: string): Promise<StoredResumeFile | null>;
+    listResumeFileIds(): Promise<string[]>;
+    deleteResumeFile(employeeId: string): Promise<void>;
+}
+
+const isMissing = (error: unknown) => (error as NodeJS.ErrnoException).code === 'ENOENT';
+
+// Written beside the target and renamed over it, so a crash never leaves half a file.
+const writeAtomically = async (filePath: string, data: string | Buffer): Promise<void> => {
+    await mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.tmp`;
+    await writeFile(tempPath, data);
+    await rename(tempPath, filePath);
+};
+
+/**
+ * One shared workspace in `dataDir/workspace.json`, and resume files in `dataDir/resumes`
+ * as the original bytes beside a JSON file with their name and type.
+ */
+export const createWorkspaceStore = (dataDir: string): WorkspaceStore => {
+    const workspacePath = path.join(dataDir, 'workspace.json');
+    const resumeDir = path.join(dataDir, 'resumes');
+    // The last workspace written to disk stays in memory, so loads and revision checks need not read it again.
+    let current: StoredWorkspace | null = null;
+    let pendingSave: Promise<unknown> = Promise.resolve();
+
+    const loadWorkspace = async (): Promise<StoredWorkspace> => {
+        if (!current) {
+            try {
+                current = JSON.parse(await readFile(workspacePath, 'utf8')) as StoredWorkspace;
+            } catch (error) {
+                if (!isMissing(error)) throw error;
+                current = { revision: 0, workspace: null };
+            }
+        }
+        return current;
+    };
+
+    const resumePaths = (employeeId: string) => ({
+        data: path.join(resumeDir, employeeId),
+        meta: path.join(resumeDir, `${employeeId}.json`),
+    });
+
+    return {
+        loadWorkspace,
+
+        saveWorkspace: (baseRevision, workspace) => {
+            // Saves run one at a time, each checked against what the previous one left on disk.
+            // The revision only advances once the write succeeded, so a failed write can be retried.
+            const save = pendingSave.catch(() => undefined).then(async () => {
+                const stored = await loadWorkspace();
+                if (stored.revision !== baseRevision) return null;
+                const next: StoredWorkspace = { revision: stored.revision + 1, workspace };
+                await writeAtomically(workspacePath, JSON.stringify(next));
+                current = next;
+                return next.revision;
+            });
+            pendingSave = save;
+            return save;
+        },
+
+        saveResumeFile: async (employeeId, { name, type, data }) => {
+            const paths = resumePaths(employeeId);
+            await writeAtomically(paths.data, data);
+            await writeAtomically(paths.meta, JSON.stringify({ name, type }));
+        },
+
+        loadResumeFile: async (employeeId) => {
+            const paths = resumePaths(employeeId);
+            try {
+                const meta = JSON.parse(await readFile(paths.meta, 'utf8')) as Omit<StoredResumeFile, 'data'>;
+                return { ...meta, data: await readFile(paths.data) };
+            } catch (error) {
+                if (isMissing(error)) return null;
+                throw error;
+            }
+        },
+
+        listResumeFileIds: async () => {
+            try {
+                return (await readdir(resumeDir))
+                    .filter(name => name.endsWith('.json'))
+                    .map(name => name.slice(0, -'.json'.length));
+            } catch (error) {
+                if (isMissing(error)) return [];
+                throw error;
+            }
+        },
+
+        deleteResumeFile: async (employeeId) => {
+            const paths = resumePaths(employeeId);
+            await rm(paths.meta, { force: true });
+            await rm(paths.data, { force: true });
+        },
+    };
+};
@@ -0,0 +1,91 @@
+import type { AnalyzedEmployee, JobProfile, Task } from '../types';
+import {
+    API_ROUTES,
+    type AnalyzeResumeBody,
+    type AskRosterBody,
+    type CompareCandidatesBody,
+    type CompareCandidatesResponse,
+    type InferTaskSkillsBody,
+    type InferTaskSkillsResponse,
+    type RankEmployeesBody,
+    type RankingStreamLine,
+    type SuggestTeamPrioritiesBody,
+} from './apiContract';
+import { apiRequest, assertOk, fromErrorBody, jsonRequest, postJson } from './apiClient';
+import type { ResumeAnalysis } from './employeeService';
+import type { ComparisonVerdict, RankingOptions, RankingResult, RosterAnswer, RosterChatTurn, RosterSnapshot, TeamPriorities } from './geminiService';
+import type { ResumeContent } from './resumeExtractionService';
+import { getLlmSettings } from './settingsService';
+import type { SkillGap } from './teamCoverageService';
+
+// The app's side of the model requests in geminiService, which runs on the API server
+// so provider credentials never reach the browser.
+
+export type {
+    CandidateAssessment,
+    ComparisonVerdict,
+    PriorityAction,
+    RankingOptions,
+    RankingResult,
+    RosterAnswer,
+    RosterChatTurn,
+    RosterSnapshot,
+    TeamPriorities,
+    TeamPriority,
+} from './geminiService';
+
+export const analyzeResume = (content: ResumeContent): Promise<ResumeAnalysis> => {
+    const body: AnalyzeResumeBody = { settings: getLlmSettings(), content };
+    return postJson<ResumeAnalysis>(API_ROUTES.analyzeResume, body, 'Resume analysis failed');
+};
+
+export const rankEmployees = async (employees: AnalyzedEmployee[], profile: JobProfile, options: RankingOptions = {}): Promise<RankingResult> => {
+    const body: RankEmployeesBody = { settings: getLlmSettings(), employees, profile, blind: options.blind === true };
+    const response = await apiRequest(API_ROUTES.rankEmployees, jsonRequest('POST', body));
+    await assertOk(response, 'Ranking failed');
+
+    const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+    let buffered = '';
+    for (;;) {
+        const { value, done } = await reader.read();
+        buffered += value ?? '';
+        const lines = buffered.split('\n');
+        buffered = lines.pop()!;
+        for (const line of lines.filter(Boolean)) {
+            const message = JSON.parse(line) as RankingStreamLine;
+            if ('progress' in message) {
+                options.onProgress?.(message.progress);
+            } else if ('result' in message) {
+                return message.result;
+            } else {
+                throw fromErrorBody(message.error);
+            }
+        }
+        if (done) {
+            throw new Error("The API server ended the ranking without a result.");
+        }
+    }
+};
+
+/** Skills per task id. Tasks the model gave no usable answer for are left out. */
+export const inferTaskSkills = async (tasks: Task[], knownSkills: string[]): Promise<Map<string, string[]>> => {
+    const body: InferTaskSkillsBody = { settings: getLlmSettings(), tasks, knownSkills };
+    const { skills } = await postJson<InferTaskSkillsResponse>(API_ROUTES.inferTaskSkills, body, 'Task skill inference failed');
+    return new Map(Object.entries<string[]>(skills));
+};
+
+export const compareCandidates = async (employees: AnalyzedEmployee[], role: JobProfile | null, tasks: Task[]): Promise<ComparisonVerdict> => {
+    const body: CompareCandidatesBody = { settings: getLlmSettings(), employees, role, tasks };
+    const { assessments, ...verdict } = await postJson<CompareCandidatesResponse>(API_ROUTES.compareCandidates, body, 'Comparison failed');
+    return { ...verdict, assessments: new Map(Object.entries(assessments)) };
+};
+
+export const askRoster = (question: string, history: RosterChatTurn[], roster: RosterSnapshot): Promise<RosterAnswer> => {
+    const body: AskRosterBody = { settings: getLlmSettings(), question, history, roster };
+    return postJson<RosterAnswer>(API_ROUTES.askRoster, body, 'The roster question could not be answered');
+};
+
+export const suggestTeamPriorities = (gaps: SkillGap[], employees: AnalyzedEmployee[]): Promise<TeamPriorities> => {
+    const body: SuggestTeamPrioritiesBody = { settings: getLlmSettings(), gaps, employees };
+    return postJson<TeamPriorities>(API_ROUTES.suggestTeamPriorities, body, 'Team priorities could not be suggested');
+};
@@ -0,0 +1,49 @@
+import type { ApiErrorBody } from './apiContract';
+import { LlmError } from './llm/errors';
+import { getAccessToken } from './settingsService';
+
+/** A failed call to the API server that is not a model failure. */
+export class ApiError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+        this.name = 'ApiError';
+    }
+}
+
+// Model failures keep their kind across the wire.
+export const fromErrorBody = (body: ApiErrorBody, status = 500): Error =>
+    body.kind ? new LlmError(body.kind, body.message) : new ApiError(status, body.message);
+
+/** Sends a request to the API server with the access token, if one is set; only an unreachable server throws. */
+export const apiRequest = async (path: string, init: RequestInit = {}): Promise<Response> => {
+    const headers = new Headers(init.headers);
+    const token = getAccessToken();
+    if (token) headers.set('Authorization', `Bearer ${token}`);
+    try {
+        return await fetch(path, { ...init, headers });
+    } catch (error) {
+        console.error(`Error calling ${path}:`, error);
+        throw new ApiError(0, 'The API server could not be reached. Start it with "npm run server".');
+    }
+};
+
+/** Throws the error the server reported, or `fallback` with the status when it sent none. */
+export const assertOk = async (response: Response, fallback: string): Promise<void> => {
+    if (response.ok) return;
+    const body = await response.json().catch(() => null) as { error?: ApiErrorBody } | null;
+    throw body?.error
+        ? fromErrorBody(body.error, response.status)
+        : new ApiError(response.status, `${fallback} (${response.status} ${response.statusText}).`);
+};
+
+export const jsonRequest = (method: string, body: unknown): RequestInit => ({
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+});
+
+export const postJson = async <T>(path: string, body: unknown, fallback: string): Promise<T> => {
+    const response = await apiRequest(path, jsonRequest('POST', body));
+    await assertOk(response, fallback);
+    return response.json();
+};
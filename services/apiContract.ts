@@ -0,0 +1,104 @@
+import type { AnalyzedEmployee, JobProfile, LlmSettings, Task, Workspace } from '../types';
+import type { CandidateAssessment, ComparisonVerdict, RankingResult, RosterChatTurn, RosterSnapshot } from './geminiService';
+import type { SkillGap } from './teamCoverageService';
+import type { LlmErrorKind } from './llm/errors';
+import type { RankingProgress } from './rankingCalibrationService';
+import type { ResumeContent } from './resumeExtractionService';
+
+// Paths and bodies shared by the API server (server/) and the app.
+export const API_ROUTES = {
+    analyzeResume: '/api/resumes/analyze',
+    rankEmployees: '/api/rankings',
+    inferTaskSkills: '/api/tasks/skills',
+    compareCandidates: '/api/comparisons',
+    askRoster: '/api/roster-questions',
+    suggestTeamPriorities: '/api/team-priorities',
+    workspace: '/api/workspace',
+    workspaceRevision: '/api/workspace/revision',
+    resumeFiles: '/api/resume-files',
+} as const;
+
+// Resume uploads carry their original file name, URI-encoded, in this header.
+export const FILE_NAME_HEADER = 'X-File-Name';
+
+export interface ApiErrorBody {
+    message: string;
+    // Set for model failures, so the app can say whether to fix settings, wait or retry.
+    kind?: LlmErrorKind;
+}
+
+// Every model request names the provider and models chosen in this browser's settings.
+interface ModelRequestBody {
+    settings: LlmSettings;
+}
+
+export interface AnalyzeResumeBody extends ModelRequestBody {
+    content: ResumeContent;
+}
+
+export interface RankEmployeesBody extends ModelRequestBody {
+    employees: AnalyzedEmployee[];
+    profile: JobProfile;
+    blind: boolean;
+}
+
+// The ranking response is newline-delimited JSON: progress after each batch, then the result or an error.
+export type RankingStreamLine =
+    | { progress: RankingProgress }
+    | { result: RankingResult }
+    | { error: ApiErrorBody };
+
+export interface InferTaskSkillsBody extends ModelRequestBody {
+    tasks: Task[];
+    knownSkills: string[];
+}
+
+export interface InferTaskSkillsResponse {
+    skills: Record<string, string[]>;
+}
+
+export interface CompareCandidatesBody extends ModelRequestBody {
+    employees: AnalyzedEmployee[];
+    role: JobProfile | null;
+    tasks: Task[];
+}
+
+export type CompareCandidatesResponse = Omit<ComparisonVerdict, 'assessments'> & {
+    assessments: Record<string, CandidateAssessment>;
+};
+
+export interface AskRosterBody extends ModelRequestBody {
+    question: string;
+    history: RosterChatTurn[];
+    roster: RosterSnapshot;
+}
+
+export interface SuggestTeamPrioritiesBody extends ModelRequestBody {
+    gaps: SkillGap[];
+    employees: AnalyzedEmployee[];
+}
+
+export interface StoredWorkspace {
+    // Bumped on every save; 0 while the server holds no workspace yet.
+    revision: number;
+    workspace: Workspace | null;
+}
+
+export interface SaveWorkspaceBody {
+    // The revision the change was made on; the save is refused when someone saved since.
+    baseRevision: number;
+    workspace: Workspace;
+}
+
+export interface SaveWorkspaceResponse {
+    revision: number;
+}
+
+// Polled by the app, so it only fetches the workspace when someone saved.
+export interface WorkspaceRevisionResponse {
+    revision: number;
+}
+
+export interface ResumeFileList {
+    ids: string[];
+}
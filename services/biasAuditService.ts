@@ -0,0 +1,73 @@
+import type { AnalyzedEmployee, JobProfile } from '../types';
+import { rankEmployees } from './aiService';
+import { swapEmployeeNames } from './pseudonymizationService';
+
+// Score change (0-100 points) from a name swap that the audit reports as significant.
+export const DEFAULT_BIAS_THRESHOLD = 3;
+
+export interface BiasAuditRow {
+    employeeId: string;
+    name: string;
+    // The name this employee's resume was scored under in the counterfactual run.
+    counterfactualName: string;
+    baselineRank: number;
+    counterfactualRank: number;
+    delta: number;
+    // How far the score moved between two runs on identical input: the model's own run-to-run noise.
+    noise: number;
+    // The name-swap change exceeds the noise by more than the threshold.
+    significant: boolean;
+}
+
+export interface BiasAuditReport {
+    profileId: string;
+    createdAt: string;
+    threshold: number;
+    rows: BiasAuditRow[];
+}
+
+/**
+ * Ranks the roster three times with the real-name prompt: twice as-is and once with
+ * names rotated between employees. Deterministic sub-scores ignore names, but the
+ * model's bounded review varies between identical runs, so only the part of a
+ * name-swap change beyond what the two unchanged runs differ by is attributed to the name.
+ */
+export const runBiasAudit = async (
+    employees: AnalyzedEmployee[],
+    profile: JobProfile,
+    threshold: number = DEFAULT_BIAS_THRESHOLD,
+): Promise<BiasAuditReport> => {
+    if (employees.length < 2) {
+        throw new Error("A bias audit needs at least two employees to swap names between.");
+    }
+    const swapped = swapEmployeeNames(employees);
+    const baseline = await rankEmployees(employees, profile);
+    const repeat = await rankEmployees(employees, profile);
+    const counterfactual = await rankEmployees(swapped, profile);
+    const repeatRanks = new Map(repeat.ranked.map(emp => [emp.id, emp.rank]));
+    const counterfactualRanks = new Map(counterfactual.ranked.map(emp => [emp.id, emp.rank]));
+    const counterfactualNames = new Map(swapped.map(emp => [emp.id, emp.name]));
+
+    return {
+        profileId: profile.id,
+        createdAt: new Date().toISOString(),
+        threshold,
+        rows: baseline.ranked
+            .map(emp => {
+                const counterfactualRank = counterfactualRanks.get(emp.id) ?? emp.rank;
+                const delta = counterfactualRank - emp.rank;
+                const noise = Math.abs((repeatRanks.get(emp.id) ?? emp.rank) - emp.rank);
+                return {
+                    employeeId: emp.id,
+                    name: emp.name,
+                    counterfactualName: counterfactualNames.get(emp.id) ?? emp.name,
+                    baselineRank: emp.rank,
+                    counterfactualRank,
+                    delta,
+                    noise,
+                    significant: Math.abs(delta) - noise > threshold,
+                };
+            })
+            .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta)),
+    };
+};
@@ -0,0 +1,101 @@
+import type { AnalyzedEmployee, DayPlanRecord, Task, TaskAssignment, TaskTemplate } from '../types';
+import { applyTaskDefaults, fromIsoDate, toIsoDate } from './taskAssignmentService';
+
+// Older days are dropped first; enough for the longest fairness window with room to spare.
+export const MAX_PLAN_HISTORY_DAYS = 90;
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const todayIsoDate = (): string => toIsoDate(new Date());
+
+export const createTemplate = (name: string, tasks: Task[]): TaskTemplate => ({
+    id: crypto.randomUUID(),
+    name: name.trim(),
+    tasks: tasks.map(task => ({ ...task })),
+    repeatOn: [],
+});
+
+/** Fills fields an older or hand-edited workspace may lack. */
+export const applyTemplateDefaults = (template: Partial<TaskTemplate>): TaskTemplate => ({
+    id: template.id ?? crypto.randomUUID(),
+    name: template.name ?? '',
+    tasks: Array.isArray(template.tasks) ? template.tasks.map(applyTaskDefaults) : [],
+    repeatOn: Array.isArray(template.repeatOn) ? template.repeatOn.filter(day => Number.isInteger(day) && day >= 0 && day <= 6) : [],
+});
+
+/** Copies a template's tasks with fresh ids, keeping dependencies between them. */
+export const instantiateTemplate = (template: TaskTemplate): Task[] => {
+    const ids = new Map(template.tasks.map(task => [task.id, crypto.randomUUID()]));
+    return template.tasks.map(task => ({
+        ...task,
+        id: ids.get(task.id)!,
+        dependencies: task.dependencies.flatMap(dep => ids.has(dep) ? [ids.get(dep)!] : []),
+    }));
+};
+
+export const templatesDueOn = (templates: TaskTemplate[], isoDate: string): TaskTemplate[] => {
+    const weekday = fromIsoDate(isoDate).getDay();
+    return templates.filter(template => template.repeatOn.includes(weekday));
+};
+
+/** Snapshot of who did what on the plan's day. */
+export const recordDayPlan = (
+    date: string,
+    tasks: Task[],
+    assignments: TaskAssignment[],
+    employees: AnalyzedEmployee[],
+): DayPlanRecord => {
+    const tasksById = new Map(tasks.map(task => [task.id, task]));
+    const names = new Map(employees.map(emp => [emp.id, emp.name]));
+    const entries = assignments.flatMap(assignment => assignment.taskIds.flatMap(id => {
+        const task = tasksById.get(id);
+        return task ? [{
+            employeeId: assignment.employeeId,
+            employeeName: names.get(assignment.employeeId) ?? 'Unknown',
+            taskTitle: task.title,
+            effortHours: task.effortHours,
+            priority: task.priority,
+            undesirable: task.undesirable,
+        }] : [];
+    }));
+    return { date, entries, unassignedCount: tasks.length - entries.length };
+};
+
+export const appendDayPlan = (history: DayPlanRecord[], record: DayPlanRecord): DayPlanRecord[] =>
+    [...history.filter(day => day.date !== record.date), record]
+        .sort((a, b) => a.date.localeCompare(b.date))
+        .slice(-MAX_PLAN_HISTORY_DAYS);
+
+export interface NextDayPlan {
+    history: DayPlanRecord[];
+    // Unassigned tasks carried over, then tasks from the templates due on the new day.
+    tasks: Task[];
+    date: string;
+}
+
+/**
+ * Closes the current day: its assignments go into history (a day with none is not
+ * recorded), tasks nobody took on carry over, and templates scheduled for the new
+ * day's weekday are added.
+ */
+export const startNextDay = (
+    current: { date: string; tasks: Task[]; assignments: TaskAssignment[] },
+    history: DayPlanRecord[],
+    templates: TaskTemplate[],
+    employees: AnalyzedEmployee[],
+    nextDate: string,
+): NextDayPlan => {
+    const record = recordDayPlan(current.date, current.tasks, current.assignments, employees);
+    const assigned = new Set(current.assignments.flatMap(assignment => assignment.taskIds));
+    const carried = current.tasks.filter(task => !assigned.has(task.id));
+    const carriedIds = new Set(carried.map(task => task.id));
+    return {
+        history: record.entries.length > 0 ? appendDayPlan(history, record) : history,
+        tasks: [
+            // Finished work no longer blocks anything.
+            ...carried.map(task => ({ ...task, dependencies: task.dependencies.filter(dep => carriedIds.has(dep)) })),
+            ...templatesDueOn(templates, nextDate).flatMap(instantiateTemplate),
+        ],
+        date: nextDate,
+    };
+};
@@ -0,0 +1,14 @@
+import { toIsoDate } from './taskAssignmentService';
+
+/** Hands generated content to the browser as a file download. */
+export const downloadFile = (content: BlobPart, fileName: string, type: string): void => {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+// Dates in file names, e.g. "2024-05-31", in local time like the rest of the app.
+export const fileDateStamp = (date: Date = new Date()): string => toIsoDate(date);
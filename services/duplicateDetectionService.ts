@@ -0,0 +1,179 @@
+import type { AnalyzedEmployee, ResumeField } from '../types';
+import { RESUME_FIELD_LABELS } from './employeeService';
+import { normalizeSkillKey } from './skillTaxonomyService';
+
+// Pairs scoring at least this are shown as possible duplicates.
+export const DUPLICATE_THRESHOLD = 0.65;
+
+// How much each signal counts when the file and email do not settle it.
+const NAME_WEIGHT = 0.6;
+const SKILL_WEIGHT = 0.25;
+const SUMMARY_WEIGHT = 0.15;
+
+// Shorter words are mostly filler and say nothing about who wrote the summary.
+const MIN_SUMMARY_WORD_LENGTH = 4;
+
+export interface DuplicateMatch {
+    // The entry that came first on the roster; merging keeps the later one's resume as current.
+    earlierId: string;
+    laterId: string;
+    // 0-1.
+    score: number;
+    reasons: string[];
+}
+
+/** SHA-256 of the file contents, hex encoded. */
+export const hashFile = async (file: File): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Order-independent, so "Doe, Jane" and "Jane Doe" compare equal.
+const nameTokens = (name: string): string[] =>
+    name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().split(/[^a-z0-9]+/).filter(Boolean).sort();
+
+const bigrams = (value: string): string[] =>
+    Array.from({ length: Math.max(value.length - 1, 0) }, (_, i) => value.slice(i, i + 2));
+
+// Dice coefficient over character pairs, which tolerates typos and missing middle names better than exact matching.
+const nameSimilarity = (a: string, b: string): number => {
+    const left = bigrams(nameTokens(a).join(' '));
+    const right = bigrams(nameTokens(b).join(' '));
+    if (left.length === 0 || right.length === 0) return 0;
+    const remaining = [...right];
+    let shared = 0;
+    for (const pair of left) {
+        const index = remaining.indexOf(pair);
+        if (index === -1) continue;
+        remaining.splice(index, 1);
+        shared++;
+    }
+    return (2 * shared) / (left.length + right.length);
+};
+
+const jaccard = (a: Set<string>, b: Set<string>): number => {
+    if (a.size === 0 || b.size === 0) return 0;
+    const shared = [...a].filter(value => b.has(value)).length;
+    return shared / (a.size + b.size - shared);
+};
+
+const skillKeys = (employee: AnalyzedEmployee) => new Set<string>(employee.skills.map(normalizeSkillKey).filter(Boolean));
+
+const summaryWords = (employee: AnalyzedEmployee) =>
+    new Set<string>(employee.summary.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length >= MIN_SUMMARY_WORD_LENGTH));
+
+// Every resume file an entry has been built from, including merged-in earlier versions.
+const fileHashes = (employee: AnalyzedEmployee): string[] => [
+    employee.provenance?.sourceFileHash,
+    ...(employee.resumeHistory ?? []).map(version => version.provenance?.sourceFileHash),
+].filter((hash): hash is string => !!hash);
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+/** The key a pair is remembered under once someone marks it as two different people. */
+export const duplicatePairKey = (a: string, b: string): string => [a, b].sort().join(':');
+
+const scorePair = (earlier: AnalyzedEmployee, later: AnalyzedEmployee): Omit<DuplicateMatch, 'earlierId' | 'laterId'> => {
+    const laterHashes = new Set(fileHashes(later));
+    if (fileHashes(earlier).some(hash => laterHashes.has(hash))) {
+        return { score: 1, reasons: ['Same resume file'] };
+    }
+    const name = nameSimilarity(earlier.name, later.name);
+    const skills = jaccard(skillKeys(earlier), skillKeys(later));
+    const summary = jaccard(summaryWords(earlier), summaryWords(later));
+    const reasons: string[] = [];
+    if (name >= 0.99) reasons.push('Same name');
+    else if (name > 0) reasons.push(`Similar names (${percent(name)})`);
+    if (skills > 0) reasons.push(`${percent(skills)} of skills shared`);
+    if (summary > 0) reasons.push(`${percent(summary)} summary overlap`);
+
+    const email = earlier.contact.email.trim().toLowerCase();
+    if (email && email === later.contact.email.trim().toLowerCase()) {
+        return { score: Math.max(0.9, NAME_WEIGHT * name + SKILL_WEIGHT * skills + SUMMARY_WEIGHT * summary), reasons: ['Same email address', ...reasons] };
+    }
+    return { score: NAME_WEIGHT * name + SKILL_WEIGHT * skills + SUMMARY_WEIGHT * summary, reasons };
+};
+
+// Only pairs sharing a file, an email or a name token are scored, so large rosters stay cheap.
+const blockingKeys = (employee: AnalyzedEmployee): string[] => [
+    ...fileHashes(employee).map(hash => `file:${hash}`),
+    ...(employee.contact.email.trim() ? [`email:${employee.contact.email.trim().toLowerCase()}`] : []),
+    ...nameTokens(employee.name).filter(token => token.length > 1).map(token => `name:${token}`),
+];
+
+/** Likely duplicate pairs on the roster, most likely first. Pairs in `dismissed` are skipped. */
+export const findDuplicates = (employees: AnalyzedEmployee[], dismissed: string[] = []): DuplicateMatch[] => {
+    const skipped = new Set(dismissed);
+    const blocks = new Map<string, number[]>();
+    employees.forEach((employee, index) => {
+        for (const key of new Set(blockingKeys(employee))) {
+            blocks.set(key, [...(blocks.get(key) ?? []), index]);
+        }
+    });
+    const candidates = new Set<string>();
+    for (const indexes of blocks.values()) {
+        for (let i = 0; i < indexes.length; i++) {
+            for (let j = i + 1; j < indexes.length; j++) candidates.add(`${indexes[i]}:${indexes[j]}`);
+        }
+    }
+    const matches: DuplicateMatch[] = [];
+    for (const candidate of candidates) {
+        const [earlier, later] = candidate.split(':').map(index => employees[Number(index)]);
+        if (skipped.has(duplicatePairKey(earlier.id, later.id))) continue;
+        const { score, reasons } = scorePair(earlier, later);
+        if (score >= DUPLICATE_THRESHOLD) matches.push({ earlierId: earlier.id, laterId: later.id, score, reasons });
+    }
+    return matches.sort((a, b) => b.score - a.score);
+};
+
+// Availability is set by hand, so it is chosen like the resume fields when merging.
+export type MergeField = ResumeField | 'capacityHours';
+
+export type MergeSource = 'earlier' | 'later';
+
+export const MERGE_FIELD_LABELS: Record<MergeField, string> = {
+    ...RESUME_FIELD_LABELS,
+    capacityHours: 'Availability',
+};
+
+const MERGE_FIELDS = Object.keys(MERGE_FIELD_LABELS) as MergeField[];
+
+const isEmpty = (value: unknown): boolean => {
+    if (Array.isArray(value)) return value.length === 0;
+    if (typeof value === 'string') return value.trim() === '';
+    if (typeof value === 'number') return value === 0;
+    if (value && typeof value === 'object') return Object.values(value).every(isEmpty);
+    return value == null;
+};
+
+/** The newer resume's value for every field, except where it is empty and the earlier one is not. */
+export const defaultMergeChoices = (earlier: AnalyzedEmployee, later: AnalyzedEmployee): Record<MergeField, MergeSource> =>
+    Object.fromEntries(MERGE_FIELDS.map(field => [field, isEmpty(later[field]) && !isEmpty(earlier[field]) ? 'earlier' : 'later'])) as Record<MergeField, MergeSource>;
+
+/**
+ * Combines two entries for the same person. The result keeps the later entry's id and
+ * extraction record; the earlier entry's resume is kept in its history. Fields taken from
+ * the earlier entry count as manual edits, so re-analyzing the newer resume keeps them.
+ */
+export const mergeEmployees = (earlier: AnalyzedEmployee, later: AnalyzedEmployee, choices: Record<MergeField, MergeSource>): AnalyzedEmployee => {
+    const { id, capacityHours, provenance, resumeHistory, ...details } = earlier;
+    const taken = MERGE_FIELDS.filter(field => choices[field] === 'earlier');
+    const manualFields = new Set(later.provenance?.manualFields ?? []);
+    for (const field of taken) {
+        if (field !== 'capacityHours') manualFields.add(field);
+    }
+    const history = [
+        ...(resumeHistory ?? []),
+        ...(later.resumeHistory ?? []),
+        { employeeId: id, details, provenance, mergedAt: new Date().toISOString() },
+    ].sort((a, b) => (a.provenance?.extractedAt ?? a.mergedAt).localeCompare(b.provenance?.extractedAt ?? b.mergedAt));
+    return {
+        ...later,
+        ...Object.fromEntries(taken.map(field => [field, earlier[field]])),
+        provenance: later.provenance && {
+            ...later.provenance,
+            manualFields: MERGE_FIELDS.filter((field): field is ResumeField => field !== 'capacityHours' && manualFields.has(field)),
+        },
+        resumeHistory: history,
+    };
+};
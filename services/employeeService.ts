@@ -0,0 +1,138 @@
+import type { AnalyzedEmployee, EmployeeProvenance, ResumeField } from '../types';
+
+// What a resume can tell us; id and planning fields are assigned by the app.
+export type ResumeDetails = Pick<AnalyzedEmployee, ResumeField>;
+
+export interface ResumeAnalysis {
+    details: ResumeDetails;
+    providerLabel: string;
+    model: string;
+}
+
+export const RESUME_FIELD_LABELS: Record<ResumeField, string> = {
+    name: 'Name',
+    summary: 'Summary',
+    skills: 'Skills',
+    skillLevels: 'Skill levels',
+    experienceYears: 'Experience',
+    workHistory: 'Work history',
+    education: 'Education',
+    certifications: 'Certifications',
+    languages: 'Languages',
+    location: 'Location',
+    contact: 'Contact',
+};
+
+export const RESUME_FIELDS = Object.keys(RESUME_FIELD_LABELS) as ResumeField[];
+
+// One working day, used until someone's availability is set.
+export const DEFAULT_CAPACITY_HOURS = 8;
+
+const asArray = <T>(value: T[] | undefined): T[] => Array.isArray(value) ? value : [];
+
+/**
+ * Fills fields that a model response or an older saved workspace may lack,
+ * so the rest of the app can treat every resume field as present.
+ */
+export const applyResumeDefaults = (data: Partial<ResumeDetails>): ResumeDetails => ({
+    name: data.name ?? '',
+    summary: data.summary ?? '',
+    skills: asArray(data.skills),
+    skillLevels: data.skillLevels && typeof data.skillLevels === 'object' ? data.skillLevels : {},
+    experienceYears: Number.isFinite(data.experienceYears) ? data.experienceYears! : 0,
+    workHistory: asArray(data.workHistory),
+    education: asArray(data.education),
+    certifications: asArray(data.certifications),
+    languages: asArray(data.languages),
+    location: data.location ?? '',
+    contact: {
+        email: data.contact?.email ?? '',
+        phone: data.contact?.phone ?? '',
+        links: asArray(data.contact?.links),
+    },
+});
+
+/** Resume defaults plus the planning fields the app adds once a person joins the roster. */
+export const applyEmployeeDefaults = <T extends AnalyzedEmployee>(employee: T): T => ({
+    ...employee,
+    ...applyResumeDefaults(employee),
+    capacityHours: Number.isFinite(employee.capacityHours) && employee.capacityHours >= 0 ? employee.capacityHours : DEFAULT_CAPACITY_HOURS,
+    provenance: employee.provenance && {
+        ...employee.provenance,
+        extracted: applyResumeDefaults(employee.provenance.extracted),
+        manualFields: asArray(employee.provenance.manualFields).filter(field => RESUME_FIELDS.includes(field)),
+    },
+    resumeHistory: employee.resumeHistory && employee.resumeHistory.map(version => ({
+        ...version,
+        details: applyResumeDefaults(version.details),
+    })),
+});
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+export const createProvenance = (
+    analysis: ResumeAnalysis,
+    sourceFileName: string,
+    manualFields: ResumeField[] = [],
+    sourceFileHash?: string,
+): EmployeeProvenance => ({
+    extracted: analysis.details,
+    extractedAt: new Date().toISOString(),
+    providerLabel: analysis.providerLabel,
+    model: analysis.model,
+    sourceFileName,
+    sourceFileHash,
+    manualFields,
+});
+
+/**
+ * Marks the fields an edit changed as manual, and unmarks any that were edited back to
+ * the extracted value. Employees without provenance are returned as edited.
+ */
+export const recordManualEdits = (previous: AnalyzedEmployee, edited: AnalyzedEmployee): AnalyzedEmployee => {
+    const provenance = previous.provenance;
+    if (!provenance) return edited;
+    const manual = new Set(provenance.manualFields);
+    for (const field of RESUME_FIELDS) {
+        if (sameValue(previous[field], edited[field])) continue;
+        if (sameValue(edited[field], provenance.extracted[field])) manual.delete(field); else manual.add(field);
+    }
+    return { ...edited, provenance: { ...provenance, manualFields: RESUME_FIELDS.filter(field => manual.has(field)) } };
+};
+
+/** Puts one manually edited field back to the value the model extracted. */
+export const revertToExtracted = (employee: AnalyzedEmployee, field: ResumeField): AnalyzedEmployee => {
+    const provenance = employee.provenance;
+    if (!provenance) return employee;
+    return {
+        ...employee,
+        [field]: provenance.extracted[field],
+        provenance: { ...provenance, manualFields: provenance.manualFields.filter(manual => manual !== field) },
+    };
+};
+
+/** Takes a fresh analysis as the extracted values, keeping every manually edited field as it is. */
+export const applyReanalysis = (employee: AnalyzedEmployee, analysis: ResumeAnalysis, sourceFileName: string): AnalyzedEmployee => {
+    const manualFields = employee.provenance?.manualFields ?? [];
+    const details = { ...analysis.details, name: analysis.details.name.trim() || employee.name };
+    const kept = Object.fromEntries(manualFields.map(field => [field, employee[field]]));
+    return {
+        ...employee,
+        ...details,
+        ...kept,
+        // The stored file is what gets re-analyzed, so its hash carries over.
+        provenance: createProvenance({ ...analysis, details }, sourceFileName, manualFields, employee.provenance?.sourceFileHash),
+    };
+};
+
+// Fields that feed the scoring engine and ranking prompts; editing them makes rankings stale.
+const RANKING_FIELDS: (keyof ResumeDetails)[] = ['summary', 'skills', 'skillLevels', 'experienceYears', 'workHistory'];
+
+export const affectsRanking = (before: AnalyzedEmployee, after: AnalyzedEmployee): boolean =>
+    RANKING_FIELDS.some(field => !sameValue(before[field], after[field]));
+
+// Fields the task solver matches and budgets on; changing them makes a task plan stale.
+const ASSIGNMENT_FIELDS: (keyof AnalyzedEmployee)[] = ['skills', 'skillLevels', 'capacityHours'];
+
+export const affectsAssignments = (before: AnalyzedEmployee, after: AnalyzedEmployee): boolean =>
+    ASSIGNMENT_FIELDS.some(field => !sameValue(before[field], after[field]));
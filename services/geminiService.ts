@@ -1,130 +1,531 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import type { AnalyzedEmployee, RankedEmployee, TaskAssignment } from '../types';
+import { Type, type Schema } from "@google/genai";
+import type {
+    AnalyzedEmployee,
+    JobProfile,
+    ProficiencyLevel,
+    ProposedReassignment,
+    RankedEmployee,
+    RankingRun,
+    RosterChatMessage,
+    RosterCitation,
+    Task,
+    TaskAssignment,
+} from '../types';
+import { applyResumeDefaults, type ResumeAnalysis, type ResumeDetails } from './employeeService';
+import { requestItems, requestJson, withContext, type LlmProvider, type LlmRequest, type LlmTaskInputs } from './llm';
+import { REDACTION_PROMPT_NOTE } from './redactionService';
+import type { ResumeContent } from './resumeExtractionService';
+import { pseudonymizeEmployees } from './pseudonymizationService';
+import { calibrateAdjustments, planRankingBatches, type RankingProgress } from './rankingCalibrationService';
+import { createRankingRun } from './rankingHistoryService';
+import { applyLlmAdjustment, computeScoreBreakdown, MAX_LLM_ADJUSTMENT } from './scoringService';
+import { normalizeSkillKey, PROFICIENCY_LEVELS } from './skillTaxonomyService';
+import type { SkillGap } from './teamCoverageService';
 
-if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable is not set");
-}
+const buildResumePrompt = (content: ResumeContent): string => {
+    const sources = [
+        content.text ? 'the extracted resume text below' : null,
+        content.images.length > 0 ? 'the provided image(s) of scanned pages' : null,
+    ].filter(Boolean).join(' and ');
+    const truncationNote = content.truncated ? ' Only the first pages of a longer document are included.' : '';
+    const redactionNote = content.redactions.length > 0 ? ` ${REDACTION_PROMPT_NOTE} Black boxes on page images hide removed details.` : '';
+    const textBlock = content.text ? `\n\nResume text:\n---\n${content.text}\n---` : '';
+    return `Analyze the resume from ${sources}.${truncationNote}${redactionNote} Extract the candidate's full name, a concise professional summary, a list of key skills with an estimated proficiency level for each, the total years of professional experience as a number, their dated work history, education, certifications, spoken languages, location and contact details. Use an empty string or empty list for anything the resume does not state. Provide the output in a structured JSON format.${textBlock}`;
+};
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const RESUME_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        name: { type: Type.STRING, description: "The candidate's full name as written on the resume." },
+        summary: { type: Type.STRING, description: "A concise professional summary of the candidate." },
+        skills: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "A list of the candidate's key technical and soft skills."
+        },
+        skillLevels: {
+            type: Type.ARRAY,
+            description: "Estimated proficiency for each listed skill, based on how and for how long it was used.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    skill: { type: Type.STRING },
+                    level: { type: Type.STRING, enum: PROFICIENCY_LEVELS },
+                },
+                required: ["skill", "level"]
+            }
+        },
+        experienceYears: { type: Type.NUMBER, description: "Total years of professional experience." },
+        workHistory: {
+            type: Type.ARRAY,
+            description: "Work history, most recent first.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    employer: { type: Type.STRING },
+                    title: { type: Type.STRING },
+                    startDate: { type: Type.STRING, description: "YYYY-MM, or YYYY if the month is not stated." },
+                    endDate: { type: Type.STRING, description: "YYYY-MM, YYYY, or \"Present\" for a current role." },
+                },
+                required: ["employer", "title", "startDate", "endDate"]
+            }
+        },
+        education: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    institution: { type: Type.STRING },
+                    degree: { type: Type.STRING },
+                    field: { type: Type.STRING },
+                    graduationYear: { type: Type.STRING },
+                },
+                required: ["institution", "degree", "field", "graduationYear"]
+            }
+        },
+        certifications: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    name: { type: Type.STRING },
+                    issuer: { type: Type.STRING },
+                    year: { type: Type.STRING },
+                },
+                required: ["name", "issuer", "year"]
+            }
+        },
+        languages: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Spoken languages." },
+        location: { type: Type.STRING, description: "City and country, as stated on the resume." },
+        contact: {
+            type: Type.OBJECT,
+            properties: {
+                email: { type: Type.STRING },
+                phone: { type: Type.STRING },
+                links: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Profile or portfolio URLs such as LinkedIn or GitHub." },
+            },
+            required: ["email", "phone", "links"]
+        }
+    },
+    required: ["name", "summary", "skills", "skillLevels", "experienceYears", "workHistory", "education", "certifications", "languages", "location", "contact"]
+};
+
+type ResumeResponse = Omit<ResumeDetails, 'skillLevels'> & { skillLevels: { skill: string; level: ProficiencyLevel }[] };
 
-export const analyzeResumeFromPdfImages = async (
-    pdfImages: { mimeType: string, data: string }[]
-): Promise<{ summary: string; skills: string[]; experienceYears: number; }> => {
+export const analyzeResume = async (
+    provider: LlmProvider,
+    content: ResumeContent
+): Promise<ResumeAnalysis> => {
     try {
-        const imageParts = pdfImages.map(image => ({
-            inlineData: {
-                mimeType: image.mimeType,
-                data: image.data,
-            }
-        }));
+        const { skillLevels, ...details } = await requestJson<ResumeResponse, 'analyzeResume'>(provider, {
+            task: 'analyzeResume',
+            tier: 'fast',
+            prompt: buildResumePrompt(content),
+            images: content.images,
+            input: { pageCount: content.pageCount },
+            schema: RESUME_SCHEMA,
+        });
+        return {
+            details: applyResumeDefaults({
+                ...details,
+                skillLevels: Object.fromEntries(
+                    skillLevels.map(entry => [entry.skill, entry.level])
+                ),
+            }),
+            providerLabel: provider.label,
+            model: provider.modelName('fast'),
+        };
+
+    } catch (error) {
+        console.error("Error analyzing resume:", error);
+        throw withContext(error, `Failed to analyze resume with ${provider.label}`);
+    }
+};
+
+// Recorded with each ranking run; bump it whenever the ranking prompt or schema changes
+// so history shows which runs were produced the same way.
+export const RANKING_PROMPT_VERSION = 'hybrid-review-v1';
 
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: {
-                parts: [
-                    ...imageParts,
-                    { text: "Analyze the resume from the provided image(s). Extract a concise professional summary, a list of key skills, and the total years of professional experience as a number. Provide the output in a structured JSON format." }
-                ]
+export interface RankingOptions {
+    // Send pseudonyms instead of names; results are mapped back by id.
+    blind?: boolean;
+    // Called after each batch of a large roster has been reviewed.
+    onProgress?: (progress: RankingProgress) => void;
+}
+
+export interface RankingResult {
+    ranked: RankedEmployee[];
+    run: RankingRun;
+}
+
+type RankingInputs = LlmTaskInputs['rankEmployees'];
+
+const buildRankingRequest = (employeeData: RankingInputs['employees'], profileData: RankingInputs['profile']): LlmRequest<'rankEmployees'> => ({
+    task: 'rankEmployees',
+    tier: 'fast',
+    prompt: `Each employee below already has deterministic sub-scores (0-100) for skill match, experience, seniority and domain fit against the job profile, combined into a baseScore. Review each employee qualitatively against the profile and its weighted criteria (weight 1 = minor, 5 = critical), looking for strengths or weaknesses the sub-scores cannot capture. Return an integer adjustment between -${MAX_LLM_ADJUSTMENT} and ${MAX_LLM_ADJUSTMENT} to apply to the baseScore, and a brief justification that refers to the profile. Use 0 when the sub-scores are already fair. The job profile is: ${JSON.stringify(profileData)}. The employee data is provided as a JSON string: ${JSON.stringify(employeeData)}`,
+    input: { employees: employeeData, profile: profileData },
+    schema: {
+        type: Type.ARRAY,
+        items: {
+            type: Type.OBJECT,
+            properties: {
+                id: { type: Type.STRING },
+                adjustment: { type: Type.INTEGER, description: `Qualitative adjustment between -${MAX_LLM_ADJUSTMENT} and ${MAX_LLM_ADJUSTMENT}.` },
+                justification: { type: Type.STRING },
             },
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        summary: { type: Type.STRING, description: "A concise professional summary of the candidate." },
-                        skills: {
-                            type: Type.ARRAY,
-                            items: { type: Type.STRING },
-                            description: "A list of the candidate's key technical and soft skills."
-                        },
-                        experienceYears: { type: Type.NUMBER, description: "Total years of professional experience." }
-                    },
-                    required: ["summary", "skills", "experienceYears"]
-                }
-            }
+            required: ["id", "adjustment", "justification"]
+        }
+    }
+});
+
+interface RankingReview {
+    id: string;
+    adjustment: number;
+    justification: string;
+}
+
+export const rankEmployees = async (provider: LlmProvider, employees: AnalyzedEmployee[], profile: JobProfile, options: RankingOptions = {}): Promise<RankingResult> => {
+    try {
+        const breakdowns = new Map(employees.map(emp => [emp.id, computeScoreBreakdown(emp, profile)]));
+        const promptEmployees = options.blind ? pseudonymizeEmployees(employees) : employees;
+        const employeeData = promptEmployees.map(({ id, name, summary, skills, experienceYears }) => {
+            const { llmAdjustment: _pending, ...subScores } = breakdowns.get(id)!;
+            return { id, name, summary, skills, experienceYears, subScores };
         });
+        const { id: _profileId, scoringWeights: _weights, ...profileData } = profile;
 
-        return JSON.parse(response.text);
+        const employeeDataById = new Map(employeeData.map(emp => [emp.id, emp]));
+        const plan = planRankingBatches(new Map(employeeData.map(emp => [emp.id, emp.subScores.baseScore])));
+        const justifications = new Map<string, string>();
+        const batchAdjustments: Map<string, number>[] = [];
+
+        // Batches run one after another to stay within provider rate limits.
+        for (const [index, batchIds] of plan.batches.entries()) {
+            const batchData = batchIds.map(id => employeeDataById.get(id)!);
+            // Employees the model still skips after re-asks keep their deterministic score.
+            const { items: reviews } = await requestItems<RankingReview, 'rankEmployees'>(provider, buildRankingRequest(batchData, profileData), {
+                idKey: 'id',
+                expectedIds: batchIds,
+                narrow: ids => buildRankingRequest(batchData.filter(emp => ids.includes(emp.id)), profileData),
+            });
+            batchAdjustments.push(new Map(reviews.map(review => [review.id, review.adjustment])));
+            reviews.forEach(review => {
+                if (!justifications.has(review.id)) justifications.set(review.id, review.justification);
+            });
+            options.onProgress?.({ completedBatches: index + 1, totalBatches: plan.batches.length });
+        }
+        const adjustments = calibrateAdjustments(plan, batchAdjustments);
+
+        const rankedEmployees: RankedEmployee[] = employees.map(emp => {
+            const { rank, breakdown } = applyLlmAdjustment(breakdowns.get(emp.id)!, adjustments.get(emp.id) ?? 0);
+            return {
+                ...emp,
+                rank,
+                breakdown,
+                justification: justifications.get(emp.id) ?? 'Scored locally; the model returned no usable review for this employee.',
+            };
+        });
+
+        // Ties fall back to the deterministic score, then the name, so the order never depends on batching.
+        rankedEmployees.sort((a, b) => b.rank - a.rank
+            || b.breakdown.baseScore - a.breakdown.baseScore
+            || a.name.localeCompare(b.name)
+            || a.id.localeCompare(b.id));
+        const promptVersion = [
+            RANKING_PROMPT_VERSION,
+            options.blind ? 'blind' : null,
+            plan.batches.length > 1 ? 'calibrated' : null,
+        ].filter(Boolean).join('+');
+        return {
+            ranked: rankedEmployees,
+            run: createRankingRun(profile, employees, rankedEmployees, {
+                providerLabel: provider.label,
+                model: provider.modelName('fast'),
+                promptVersion,
+            }),
+        };
 
     } catch (error) {
-        console.error("Error analyzing resume:", error);
-        throw new Error("Failed to analyze resume with Gemini API.");
+        console.error("Error ranking employees:", error);
+        throw withContext(error, `Failed to rank employees with ${provider.label}`);
+    }
+};
+
+const buildTaskSkillsRequest = (taskData: LlmTaskInputs['inferTaskSkills']['tasks'], knownSkills: string[]): LlmRequest<'inferTaskSkills'> => ({
+    task: 'inferTaskSkills',
+    tier: 'fast',
+    prompt: `For each task below, list the skills someone needs to complete it. Use names from this skill list wherever one fits: ${JSON.stringify(knownSkills)}. Only name a skill outside the list when nothing in it applies, and return an empty list for tasks that need no particular skill. Refer to each task by its "id". Tasks: ${JSON.stringify(taskData)}`,
+    input: { tasks: taskData, knownSkills },
+    schema: {
+        type: Type.ARRAY,
+        items: {
+            type: Type.OBJECT,
+            properties: {
+                taskId: { type: Type.STRING },
+                requiredSkills: {
+                    type: Type.ARRAY,
+                    items: { type: Type.STRING }
+                }
+            },
+            required: ["taskId", "requiredSkills"]
+        }
+    }
+});
+
+/** Skills per task id. Tasks the model gave no usable answer for are left out. */
+export const inferTaskSkills = async (provider: LlmProvider, tasks: Task[], knownSkills: string[]): Promise<Map<string, string[]>> => {
+    try {
+        const taskData = tasks.map(({ id, title }) => ({ id, title }));
+        const { items } = await requestItems<{ taskId: string; requiredSkills: string[] }, 'inferTaskSkills'>(provider, buildTaskSkillsRequest(taskData, knownSkills), {
+            idKey: 'taskId',
+            expectedIds: taskData.map(task => task.id),
+            narrow: ids => buildTaskSkillsRequest(taskData.filter(task => ids.includes(task.id)), knownSkills),
+        });
+        return new Map(items.map(entry => [entry.taskId, entry.requiredSkills]));
+    } catch (error) {
+        console.error("Error inferring task skills:", error);
+        throw withContext(error, `Failed to infer task skills with ${provider.label}`);
     }
 };
 
+export interface CandidateAssessment {
+    strengths: string[];
+    concerns: string[];
+}
+
+export interface ComparisonVerdict {
+    // Empty when the model did not pick one of the compared employees.
+    winnerId: string;
+    verdict: string;
+    assessments: Map<string, CandidateAssessment>;
+}
+
+const profileForPrompt = ({ id: _id, scoringWeights: _weights, ...profile }: JobProfile) => profile;
 
-export const rankEmployees = async (employees: AnalyzedEmployee[]): Promise<RankedEmployee[]> => {
+/** Asks for a head-to-head verdict on two or more employees against a role, a set of tasks, or both. */
+export const compareCandidates = async (provider: LlmProvider, employees: AnalyzedEmployee[], role: JobProfile | null, tasks: Task[]): Promise<ComparisonVerdict> => {
     try {
-        const employeeData = employees.map(({ id, name, summary, skills, experienceYears }) => ({ id, name, summary, skills, experienceYears }));
-        
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: `Analyze the following employee data. Based on their summary, skills, and years of experience, assign a rank from 1 to 100 to each employee, where 100 is the most qualified. Provide a brief justification for each rank. The employee data is provided as a JSON string: ${JSON.stringify(employeeData)}`,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.ARRAY,
-                    items: {
-                        type: Type.OBJECT,
-                        properties: {
-                            id: { type: Type.STRING },
-                            rank: { type: Type.INTEGER },
-                            justification: { type: Type.STRING },
-                        },
-                        required: ["id", "rank", "justification"]
+        const candidates = employees.map(({ id, name, summary, skills, experienceYears, workHistory }) => ({ id, name, summary, skills, experienceYears, workHistory }));
+        const roleData = role ? profileForPrompt(role) : null;
+        const taskData = tasks.map(({ title, requiredSkills, effortHours }) => ({ title, requiredSkills, effortHours }));
+        const target = [
+            roleData ? `the role ${JSON.stringify(roleData)}` : null,
+            taskData.length > 0 ? `these tasks ${JSON.stringify(taskData)}` : null,
+        ].filter(Boolean).join(' and ');
+
+        const response = await requestJson<{ winnerId: string; verdict: string; candidates: ({ id: string } & CandidateAssessment)[] }, 'compareCandidates'>(provider, {
+            task: 'compareCandidates',
+            tier: 'reasoning',
+            prompt: `Compare the candidates below head to head for ${target}. Pick the one who fits best and return their "id" as winnerId, a short verdict explaining the choice and the trade-offs, and for each candidate (by "id") a few concrete strengths and concerns. Base everything on the data given. Candidates: ${JSON.stringify(candidates)}`,
+            input: { candidates, role: roleData, tasks: taskData },
+            schema: {
+                type: Type.OBJECT,
+                properties: {
+                    winnerId: { type: Type.STRING },
+                    verdict: { type: Type.STRING },
+                    candidates: {
+                        type: Type.ARRAY,
+                        items: {
+                            type: Type.OBJECT,
+                            properties: {
+                                id: { type: Type.STRING },
+                                strengths: { type: Type.ARRAY, items: { type: Type.STRING } },
+                                concerns: { type: Type.ARRAY, items: { type: Type.STRING } },
+                            },
+                            required: ["id", "strengths", "concerns"]
+                        }
                     }
-                }
+                },
+                required: ["winnerId", "verdict", "candidates"]
             }
         });
 
-        const rankedData: { id: string; rank: number; justification: string; }[] = JSON.parse(response.text);
-        
-        const rankedEmployees = employees.map(emp => {
-            const ranking = rankedData.find(r => r.id === emp.id);
-            if (ranking) {
-                return { ...emp, ...ranking };
+        const ids = new Set(employees.map(emp => emp.id));
+        return {
+            winnerId: ids.has(response.winnerId) ? response.winnerId : '',
+            verdict: response.verdict,
+            assessments: new Map(response.candidates
+                .filter(entry => ids.has(entry.id))
+                .map(({ id, strengths, concerns }) => [id, { strengths, concerns }])),
+        };
+    } catch (error) {
+        console.error("Error comparing candidates:", error);
+        throw withContext(error, `Failed to compare candidates with ${provider.label}`);
+    }
+};
+
+// The data an "ask the roster" question is answered from.
+export interface RosterSnapshot {
+    employees: AnalyzedEmployee[];
+    // The active profile's ranking, once it has been ranked.
+    ranking: { profile: JobProfile; results: Pick<RankedEmployee, 'id' | 'rank' | 'justification'>[] } | null;
+    tasks: Task[];
+    assignments: TaskAssignment[];
+}
+
+export type RosterChatTurn = Pick<RosterChatMessage, 'role' | 'text'>;
+
+export interface RosterAnswer {
+    answer: string;
+    citations: RosterCitation[];
+    proposals: ProposedReassignment[];
+}
+
+// Earlier turns sent along for follow-up questions; older ones are dropped to keep the prompt small.
+const MAX_ROSTER_CHAT_TURNS = 6;
+
+/** Answers a free-form question about the roster, citing the facts used and suggesting task moves where asked. */
+export const askRoster = async (provider: LlmProvider, question: string, history: RosterChatTurn[], roster: RosterSnapshot): Promise<RosterAnswer> => {
+    try {
+        const owners = new Map(roster.assignments.flatMap(assignment => assignment.taskIds.map(taskId => [taskId, assignment.employeeId] as const)));
+        const ranks = new Map((roster.ranking?.results ?? []).map(result => [result.id, result]));
+        const people = roster.employees.map(emp => ({
+            id: emp.id,
+            name: emp.name,
+            summary: emp.summary,
+            skills: emp.skills.map(skill => emp.skillLevels[skill] ? `${skill} (${emp.skillLevels[skill]})` : skill),
+            experienceYears: emp.experienceYears,
+            workHistory: emp.workHistory,
+            education: emp.education,
+            certifications: emp.certifications.map(cert => cert.name),
+            languages: emp.languages,
+            location: emp.location,
+            capacityHours: emp.capacityHours,
+            ...(ranks.has(emp.id) ? { rankScore: ranks.get(emp.id)!.rank, rankJustification: ranks.get(emp.id)!.justification } : {}),
+        }));
+        const taskData = roster.tasks.map(({ id, title, requiredSkills, effortHours, priority, deadline }) => ({
+            id, title, requiredSkills, effortHours, priority, deadline, assignedTo: owners.get(id) ?? null,
+        }));
+        const conversation = history.slice(-MAX_ROSTER_CHAT_TURNS).map(turn => `${turn.role === 'user' ? 'Manager' : 'Assistant'}: ${turn.text}`).join('\n');
+        const rankingNote = roster.ranking ? ` Scores (0-100) are from the latest ranking for the role "${roster.ranking.profile.title}".` : '';
+
+        const response = await requestJson<Omit<RosterAnswer, 'proposals'> & { proposals: { taskId: string; toEmployeeId: string; reason: string }[] }, 'askRoster'>(provider, {
+            task: 'askRoster',
+            tier: 'reasoning',
+            prompt: `You answer a manager's questions about their team using only the employee and task data below; say so when the data does not answer the question, and never invent people or facts. Refer to people by name. For every employee your answer relies on, add a citation with their "id" and the specific fact used, in a few words (for example "Kubernetes (advanced)" or "Staff Backend Engineer at Streamwise since 2020"). Only when the manager asks to move, cover or rebalance work, propose reassignments by task "id", with the "id" of the employee to take it (an empty string to unassign it) and a short reason; otherwise return no proposals.${rankingNote}${conversation ? `\n\nConversation so far:\n${conversation}` : ''}\n\nQuestion: ${question}\n\nEmployees: ${JSON.stringify(people)}\n\nTasks: ${JSON.stringify(taskData)}`,
+            input: {
+                question,
+                employees: roster.employees.map(({ id, name, skills }) => ({ id, name, skills })),
+                tasks: taskData.map(({ id, title, assignedTo }) => ({ id, title, assignedTo })),
+            },
+            schema: {
+                type: Type.OBJECT,
+                properties: {
+                    answer: { type: Type.STRING },
+                    citations: {
+                        type: Type.ARRAY,
+                        items: {
+                            type: Type.OBJECT,
+                            properties: {
+                                employeeId: { type: Type.STRING },
+                                fact: { type: Type.STRING },
+                            },
+                            required: ["employeeId", "fact"]
+                        }
+                    },
+                    proposals: {
+                        type: Type.ARRAY,
+                        items: {
+                            type: Type.OBJECT,
+                            properties: {
+                                taskId: { type: Type.STRING },
+                                toEmployeeId: { type: Type.STRING, description: "Empty string to unassign the task." },
+                                reason: { type: Type.STRING },
+                            },
+                            required: ["taskId", "toEmployeeId", "reason"]
+                        }
+                    }
+                },
+                required: ["answer", "citations", "proposals"]
             }
-            return { ...emp, rank: 0, justification: 'Not ranked' };
         });
 
-        return rankedEmployees.sort((a, b) => b.rank - a.rank);
-
+        // Anything pointing at people or tasks that do not exist, or at a move that changes nothing, is dropped.
+        const employeeIds = new Set(roster.employees.map(emp => emp.id));
+        const taskIds = new Set(roster.tasks.map(task => task.id));
+        return {
+            answer: response.answer,
+            citations: response.citations.filter(citation => employeeIds.has(citation.employeeId) && citation.fact.trim()),
+            proposals: response.proposals
+                .map(({ taskId, toEmployeeId, reason }) => ({ taskId, toEmployeeId: toEmployeeId || null, reason }))
+                .filter(proposal => taskIds.has(proposal.taskId)
+                    && (proposal.toEmployeeId === null || employeeIds.has(proposal.toEmployeeId))
+                    && (owners.get(proposal.taskId) ?? null) !== proposal.toEmployeeId),
+        };
     } catch (error) {
-        console.error("Error ranking employees:", error);
-        throw new Error("Failed to rank employees with Gemini API.");
+        console.error("Error answering roster question:", error);
+        throw withContext(error, `Failed to answer the question with ${provider.label}`);
     }
 };
 
-export const distributeTasks = async (employees: RankedEmployee[], tasks: string[]): Promise<TaskAssignment[]> => {
+export type PriorityAction = 'train' | 'hire';
+
+export interface TeamPriority {
+    skill: string;
+    action: PriorityAction;
+    rationale: string;
+    // People best placed to learn the skill; empty for hires.
+    employeeIds: string[];
+}
+
+export interface TeamPriorities {
+    summary: string;
+    // Most urgent first.
+    priorities: TeamPriority[];
+}
+
+/** Asks which skill gaps to close first, and whether by training existing people or hiring. */
+export const suggestTeamPriorities = async (provider: LlmProvider, gaps: SkillGap[], employees: AnalyzedEmployee[]): Promise<TeamPriorities> => {
     try {
-        const employeeData = employees.map(({ id, name, rank, skills }) => ({ id, name, rank, skills }));
-
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-pro",
-            contents: `Here is a list of ranked employees with their skills: ${JSON.stringify(employeeData)}. And here is a list of daily tasks: ${JSON.stringify(tasks)}. Distribute the tasks to the most suitable employees based on their rank and skills. Assign tasks fairly and efficiently. Each task should be assigned to only one employee.`,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.ARRAY,
-                    items: {
-                        type: Type.OBJECT,
-                        properties: {
-                            employeeId: { type: Type.STRING },
-                            tasks: {
-                                type: Type.ARRAY,
-                                items: { type: Type.STRING }
-                            }
-                        },
-                        required: ["employeeId", "tasks"]
+        const gapData = gaps.map(gap => ({ skill: gap.skill, holders: gap.holderIds.length }));
+        const people = employees.map(({ id, name, skills, experienceYears }) => ({ id, name, skills, experienceYears }));
+        const response = await requestJson<TeamPriorities, 'suggestTeamPriorities'>(provider, {
+            task: 'suggestTeamPriorities',
+            tier: 'reasoning',
+            prompt: `A team is short on the skills below: "holders" is how many people list each one, so 0 means nobody has it and 1 means the team depends on a single person. Decide which gaps to close first and how. For each gap worth closing, most urgent first, say whether to train existing people or hire, with a short rationale based on the team's data; for training, give the "id" of up to three employees best placed to learn it from related skills and experience. Finish with a one or two sentence summary of the overall priorities. Gaps: ${JSON.stringify(gapData)}. Employees: ${JSON.stringify(people)}`,
+            input: { gaps: gapData, employees: people },
+            schema: {
+                type: Type.OBJECT,
+                properties: {
+                    summary: { type: Type.STRING },
+                    priorities: {
+                        type: Type.ARRAY,
+                        items: {
+                            type: Type.OBJECT,
+                            properties: {
+                                skill: { type: Type.STRING },
+                                action: { type: Type.STRING, enum: ['train', 'hire'] },
+                                rationale: { type: Type.STRING },
+                                employeeIds: { type: Type.ARRAY, items: { type: Type.STRING } },
+                            },
+                            required: ["skill", "action", "rationale", "employeeIds"]
+                        }
                     }
-                }
+                },
+                required: ["summary", "priorities"]
             }
         });
 
-        const assignments: TaskAssignment[] = JSON.parse(response.text);
-        return assignments;
+        // Only the gaps that were asked about, each once, with people who are on the roster.
+        const gapNames = new Map(gaps.map(gap => [normalizeSkillKey(gap.skill), gap.skill]));
+        const employeeIds = new Set(employees.map(emp => emp.id));
+        const seen = new Set<string>();
+        return {
+            summary: response.summary,
+            priorities: response.priorities.flatMap(priority => {
+                const key = normalizeSkillKey(priority.skill);
+                if (!gapNames.has(key) || seen.has(key)) return [];
+                seen.add(key);
+                return [{
+                    ...priority,
+                    skill: gapNames.get(key)!,
+                    employeeIds: priority.action === 'train' ? priority.employeeIds.filter(id => employeeIds.has(id)) : [],
+                }];
+            }),
+        };
     } catch (error) {
-        console.error("Error distributing tasks:", error);
-        throw new Error("Failed to distribute tasks with Gemini API.");
+        console.error("Error suggesting team priorities:", error);
+        throw withContext(error, `Failed to suggest team priorities with ${provider.label}`);
     }
-};
\ No newline at end of file
+};
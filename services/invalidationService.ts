@@ -0,0 +1,52 @@
+import type { Invalidation, InvalidationScope, RankedEmployee } from '../types';
+
+// Older entries are dropped first; a long editing session should not grow the workspace unbounded.
+export const MAX_INVALIDATIONS = 100;
+
+export const createInvalidation = (
+    scope: InvalidationScope,
+    reason: string,
+    target: Pick<Invalidation, 'profileId' | 'employeeId'> = {},
+): Invalidation => ({
+    id: crypto.randomUUID(),
+    scope,
+    ...target,
+    reason,
+    createdAt: new Date().toISOString(),
+});
+
+/**
+ * One ranking invalidation per profile whose ranking includes the employee, or per
+ * ranked profile when the change is not about a single employee.
+ */
+export const invalidateRankings = (
+    rankings: Record<string, RankedEmployee[]>,
+    reason: string,
+    employeeId?: string,
+): Invalidation[] =>
+    Object.entries<RankedEmployee[]>(rankings)
+        .filter(([, ranked]) => ranked.length > 0 && (!employeeId || ranked.some(emp => emp.id === employeeId)))
+        .map(([profileId]) => createInvalidation('ranking', reason, { profileId, employeeId }));
+
+export const appendInvalidations = (existing: Invalidation[], added: Invalidation[]): Invalidation[] =>
+    added.length === 0 ? existing : [...existing, ...added].slice(-MAX_INVALIDATIONS);
+
+export const rankingInvalidations = (invalidations: Invalidation[], profileId: string): Invalidation[] =>
+    invalidations.filter(inv => inv.scope === 'ranking' && inv.profileId === profileId);
+
+export const assignmentInvalidations = (invalidations: Invalidation[]): Invalidation[] =>
+    invalidations.filter(inv => inv.scope === 'assignments');
+
+/**
+ * Drops what a new ranking resolves: everything recorded against the profile, or after a
+ * partial re-rank only the entries caused by the re-ranked employees.
+ */
+export const resolveRankingInvalidations = (invalidations: Invalidation[], profileId: string, employeeIds?: string[]): Invalidation[] =>
+    invalidations.filter(inv => !(
+        inv.scope === 'ranking'
+        && inv.profileId === profileId
+        && (!employeeIds || (inv.employeeId !== undefined && employeeIds.includes(inv.employeeId)))
+    ));
+
+export const resolveAssignmentInvalidations = (invalidations: Invalidation[]): Invalidation[] =>
+    invalidations.filter(inv => inv.scope !== 'assignments');
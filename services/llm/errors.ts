@@ -0,0 +1,68 @@
+// What went wrong with a model request, so the UI can say more than "failed".
+export type LlmErrorKind = 'auth' | 'quota' | 'safety' | 'parse' | 'transient' | 'unknown';
+
+export const LLM_ERROR_TITLES: Record<LlmErrorKind, string> = {
+    auth: 'AI provider rejected the credentials',
+    quota: 'AI provider rate limit or quota reached',
+    safety: "Blocked by the AI provider's safety filters",
+    parse: 'Unusable AI response',
+    transient: 'AI provider unavailable',
+    unknown: 'AI request failed',
+};
+
+const KIND_DETAILS: Record<Exclude<LlmErrorKind, 'unknown' | 'parse'>, string> = {
+    auth: 'the API key or credentials were rejected. Check them in Settings.',
+    quota: 'the rate limit or quota was exceeded, even after retrying. Wait a moment and try again.',
+    safety: "the request or its response was blocked by the provider's safety filters.",
+    transient: 'the provider could not be reached or is overloaded, even after retrying.',
+};
+
+export class LlmError extends Error {
+    constructor(
+        readonly kind: LlmErrorKind,
+        message: string,
+        // HTTP status of the failed call, when there was one.
+        readonly status?: number,
+    ) {
+        super(message);
+        this.name = 'LlmError';
+    }
+
+    // Rate limits and outages usually clear up; everything else fails the same way again.
+    get retryable(): boolean {
+        return this.kind === 'quota' || this.kind === 'transient';
+    }
+}
+
+export const kindFromStatus = (status: number, message = ''): LlmErrorKind => {
+    if (status === 401 || status === 403) return 'auth';
+    // Gemini answers an invalid key with 400 rather than 401.
+    if (status === 400 && /api[ _-]?key/i.test(message)) return 'auth';
+    if (status === 429) return 'quota';
+    if (status === 408 || status >= 500) return 'transient';
+    return 'unknown';
+};
+
+/** Classifies whatever a provider threw: SDK errors carrying a status, fetch failures, or our own errors. */
+export const toLlmError = (error: unknown): LlmError => {
+    if (error instanceof LlmError) return error;
+    const message = error instanceof Error ? error.message : String(error);
+    const status = (error as { status?: unknown } | null)?.status;
+    if (typeof status === 'number') {
+        return new LlmError(kindFromStatus(status, message), message, status);
+    }
+    // fetch rejects with a TypeError when the network request itself fails.
+    if (error instanceof TypeError && /fetch|network/i.test(message)) {
+        return new LlmError('transient', message);
+    }
+    return new LlmError('unknown', message);
+};
+
+/** Prefixes a classified error with what the app was trying to do, keeping its kind. */
+export const withContext = (error: unknown, context: string): LlmError => {
+    const llmError = toLlmError(error);
+    const detail = llmError.kind === 'unknown' || llmError.kind === 'parse'
+        ? llmError.message
+        : KIND_DETAILS[llmError.kind];
+    return new LlmError(llmError.kind, `${context}: ${detail}`, llmError.status);
+};
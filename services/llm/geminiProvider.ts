@@ -0,0 +1,55 @@
+import { FinishReason, GoogleGenAI } from "@google/genai";
+import type { LlmSettings } from '../../types';
+import { LlmError } from './errors';
+import type { LlmCredentials, LlmProvider, LlmRequest, LlmTask } from './types';
+
+let client: GoogleGenAI | null = null;
+
+const BLOCKED_FINISH_REASONS: string[] = [FinishReason.SAFETY, FinishReason.BLOCKLIST, FinishReason.PROHIBITED_CONTENT, FinishReason.SPII];
+
+// The client is created on first use so the server can start without an API key.
+const getClient = (apiKey: string): GoogleGenAI => {
+    if (!client) {
+        client = new GoogleGenAI({ apiKey });
+    }
+    return client;
+};
+
+export const createGeminiProvider = (settings: LlmSettings, credentials: LlmCredentials): LlmProvider => ({
+    label: 'Gemini',
+
+    configurationError: () =>
+        credentials.geminiApiKey ? null : "GEMINI_API_KEY is not set on the server. Add it to .env.local and restart the server, or switch to another provider in Settings.",
+
+    modelName: (tier) => settings.models.gemini[tier],
+
+    generateJson: async <K extends LlmTask>(request: LlmRequest<K>): Promise<string> => {
+        const imageParts = (request.images ?? []).map(image => ({
+            inlineData: {
+                mimeType: image.mimeType,
+                data: image.data,
+            }
+        }));
+
+        const response = await getClient(credentials.geminiApiKey).models.generateContent({
+            model: settings.models.gemini[request.tier],
+            contents: imageParts.length > 0
+                ? { parts: [...imageParts, { text: request.prompt }] }
+                : request.prompt,
+            config: {
+                responseMimeType: "application/json",
+                responseSchema: request.schema,
+            }
+        });
+
+        const blockReason = response.promptFeedback?.blockReason;
+        if (blockReason) {
+            throw new LlmError('safety', `Gemini blocked the prompt (${blockReason}).`);
+        }
+        const finishReason = response.candidates?.[0]?.finishReason;
+        if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) {
+            throw new LlmError('safety', `Gemini stopped the response (${finishReason}).`);
+        }
+        return response.text ?? '';
+    },
+});
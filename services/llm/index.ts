@@ -0,0 +1,30 @@
+import type { LlmSettings } from '../../types';
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+import type { LlmCredentials, LlmProvider } from './types';
+
+export type { InlineImage, LlmCredentials, LlmProvider, LlmRequest, LlmTask, LlmTaskInputs, ModelTier } from './types';
+export { LLM_ERROR_TITLES, LlmError, withContext, type LlmErrorKind } from './errors';
+export { MAX_REASKS, requestItems, requestJson, type ItemResult } from './requests';
+
+export const createProvider = (settings: LlmSettings, credentials: LlmCredentials): LlmProvider => {
+    switch (settings.provider) {
+        case 'gemini':
+            return createGeminiProvider(settings, credentials);
+        case 'openai-compatible':
+            return createOpenAiCompatibleProvider(settings, credentials);
+        case 'mock':
+            return createMockProvider();
+    }
+};
+
+// Resolves the provider chosen in settings, failing fast when it is not usable.
+export const getActiveProvider = (settings: LlmSettings, credentials: LlmCredentials): LlmProvider => {
+    const provider = createProvider(settings, credentials);
+    const configurationError = provider.configurationError();
+    if (configurationError) {
+        throw new Error(configurationError);
+    }
+    return provider;
+};
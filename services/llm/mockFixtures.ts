@@ -0,0 +1,194 @@
+import type { ResumeDetails } from '../employeeService';
+import type { LlmRequest, LlmTask } from './types';
+
+// Stable 32-bit FNV-1a hash so the same input always yields the same fixture.
+export const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const SAMPLE_RESUMES: ResumeDetails[] = [
+    {
+        name: "Maya Thompson",
+        summary: "Full-stack engineer with a strong frontend focus, experienced in building accessible React applications and mentoring junior developers.",
+        skills: ["React.js", "TypeScript", "NodeJS", "CSS3", "Mentoring", "Accessibility"],
+        skillLevels: {},
+        experienceYears: 6,
+        workHistory: [
+            { employer: "Brightline Health", title: "Senior Frontend Engineer", startDate: "2021-03", endDate: "Present" },
+            { employer: "Pixel Forge", title: "Software Engineer", startDate: "2018-06", endDate: "2021-02" },
+        ],
+        education: [{ institution: "University of Toronto", degree: "BSc", field: "Computer Science", graduationYear: "2018" }],
+        certifications: [],
+        languages: ["English", "French"],
+        location: "Toronto, Canada",
+        contact: { email: "maya.thompson@example.com", phone: "", links: ["https://github.com/maya-example"] },
+    },
+    {
+        name: "Daniel Okafor",
+        summary: "Backend developer specializing in distributed systems, cloud infrastructure and reliable data pipelines.",
+        skills: ["Golang", "K8s", "Postgres", "AWS", "Terraform"],
+        skillLevels: {},
+        experienceYears: 9,
+        workHistory: [
+            { employer: "Streamwise", title: "Staff Backend Engineer", startDate: "2020-01", endDate: "Present" },
+            { employer: "Cloudnine Systems", title: "Backend Developer", startDate: "2015-09", endDate: "2019-12" },
+        ],
+        education: [{ institution: "University of Lagos", degree: "BEng", field: "Electrical Engineering", graduationYear: "2015" }],
+        certifications: [{ name: "AWS Certified Solutions Architect", issuer: "Amazon Web Services", year: "2021" }],
+        languages: ["English", "Yoruba"],
+        location: "London, United Kingdom",
+        contact: { email: "daniel.okafor@example.com", phone: "", links: ["https://linkedin.com/in/daniel-example"] },
+    },
+    {
+        name: "Sofia Martinez",
+        summary: "Data analyst who turns raw business data into dashboards and actionable reports for stakeholders.",
+        skills: ["SQL", "Python", "Tableau", "Statistics", "Communication Skills"],
+        skillLevels: {},
+        experienceYears: 3,
+        workHistory: [
+            { employer: "Retail Insights Co.", title: "Data Analyst", startDate: "2022-02", endDate: "Present" },
+            { employer: "Marketly", title: "Junior Analyst", startDate: "2021-01", endDate: "2022-01" },
+        ],
+        education: [{ institution: "Universidad de Barcelona", degree: "MSc", field: "Statistics", graduationYear: "2020" }],
+        certifications: [{ name: "Tableau Desktop Specialist", issuer: "Tableau", year: "2022" }],
+        languages: ["Spanish", "English"],
+        location: "Barcelona, Spain",
+        contact: { email: "sofia.martinez@example.com", phone: "", links: [] },
+    },
+    {
+        name: "Liam Chen",
+        summary: "Project coordinator with a background in QA, comfortable running releases and keeping cross-functional teams aligned.",
+        skills: ["Project Management", "QA", "Jira", "Agile/Scrum", "Stakeholder Management"],
+        skillLevels: {},
+        experienceYears: 5,
+        workHistory: [
+            { employer: "Northwind Software", title: "Project Coordinator", startDate: "2022-05", endDate: "Present" },
+            { employer: "Northwind Software", title: "QA Analyst", startDate: "2019-08", endDate: "2022-04" },
+        ],
+        education: [{ institution: "University of Washington", degree: "BA", field: "Business Administration", graduationYear: "2019" }],
+        certifications: [{ name: "Professional Scrum Master I", issuer: "Scrum.org", year: "2023" }],
+        languages: ["English", "Mandarin"],
+        location: "Seattle, USA",
+        contact: { email: "liam.chen@example.com", phone: "", links: [] },
+    },
+    {
+        name: "Aisha Rahman",
+        summary: "Junior mobile developer who has shipped two consumer apps and is eager to grow into a full-stack role.",
+        skills: ["Kotlin", "Swift", "Firebase", "RESTful APIs", "Jetpack Compose"],
+        skillLevels: {},
+        experienceYears: 1,
+        workHistory: [
+            { employer: "Appsmith Studio", title: "Junior Mobile Developer", startDate: "2023-07", endDate: "Present" },
+        ],
+        education: [{ institution: "BRAC University", degree: "BSc", field: "Computer Science and Engineering", graduationYear: "2023" }],
+        certifications: [],
+        languages: ["Bengali", "English"],
+        location: "Dhaka, Bangladesh",
+        contact: { email: "aisha.rahman@example.com", phone: "", links: ["https://github.com/aisha-example"] },
+    },
+];
+
+const tokenize = (text: string): Set<string> =>
+    new Set(text.toLowerCase().split(/[^a-z0-9+#.]+/).filter(Boolean));
+
+type MockFixtures = { [K in LlmTask]: (request: LlmRequest<K>) => unknown };
+
+export const MOCK_FIXTURES: MockFixtures = {
+    analyzeResume: (request) => {
+        const seed = [request.prompt, ...(request.images ?? []).map(image => image.data.slice(-256))].join('|');
+        const resume = SAMPLE_RESUMES[hashString(seed) % SAMPLE_RESUMES.length];
+        const level = resume.experienceYears >= 8 ? 'expert' : resume.experienceYears >= 4 ? 'advanced' : 'intermediate';
+        return {
+            ...resume,
+            skillLevels: resume.skills.map((skill, index) => ({ skill, level: index === 0 ? level : 'intermediate' })),
+        };
+    },
+
+    rankEmployees: (request) => {
+        const { employees, profile } = request.input;
+        return employees.map(emp => {
+            const { skillMatch, experience } = emp.subScores;
+            const strongest = skillMatch >= experience ? 'skill match' : 'experience';
+            return {
+                id: emp.id,
+                adjustment: (hashString(emp.id) % 7) - 3,
+                justification: `Strongest on ${strongest} for ${profile.title}, with ${emp.experienceYears} years across ${emp.skills.length} listed skills.`,
+            };
+        });
+    },
+
+    inferTaskSkills: (request) => {
+        const { tasks, knownSkills } = request.input;
+        return tasks.map(task => {
+            const titleTokens = tokenize(task.title);
+            return {
+                taskId: task.id,
+                requiredSkills: knownSkills.filter(skill => skill.toLowerCase().split(/\s+/).every(word => titleTokens.has(word))),
+            };
+        });
+    },
+
+    compareCandidates: (request) => {
+        const { candidates, role, tasks } = request.input;
+        const wanted = [...new Set([
+            ...(role ? [...role.requiredSkills, ...role.niceToHaveSkills] : []),
+            ...tasks.flatMap(task => task.requiredSkills),
+        ].map(skill => skill.toLowerCase()))];
+        const assessed = candidates.map(candidate => {
+            const skills = new Set(candidate.skills.map(skill => skill.toLowerCase()));
+            const matched = wanted.filter(skill => skills.has(skill));
+            return { candidate, matched, missing: wanted.filter(skill => !skills.has(skill)) };
+        });
+        const score = ({ candidate, matched }: typeof assessed[number]) => matched.length * 10 + candidate.experienceYears;
+        const best = assessed.reduce((a, b) => score(b) > score(a) ? b : a);
+        return {
+            winnerId: best.candidate.id,
+            verdict: `${best.candidate.name} fits best, covering ${best.matched.length} of ${wanted.length} wanted skills with ${best.candidate.experienceYears} years of experience.`,
+            candidates: assessed.map(({ candidate, matched, missing }) => ({
+                id: candidate.id,
+                strengths: matched.length > 0 ? [`Has ${matched.join(', ')}`] : [`${candidate.experienceYears} years of experience`],
+                concerns: missing.length > 0 ? [`No listed ${missing.join(', ')}`] : [],
+            })),
+        };
+    },
+
+    askRoster: (request) => {
+        const { question, employees, tasks } = request.input;
+        const words = tokenize(question);
+        const lowered = question.toLowerCase();
+        const matches = employees
+            .map(emp => ({ emp, skills: emp.skills.filter(skill => words.has(skill.toLowerCase())) }))
+            .filter(match => match.skills.length > 0);
+        if (matches.length === 0) {
+            return { answer: "No one on the roster lists a skill named in the question.", citations: [], proposals: [] };
+        }
+        // A task named in the question goes to the first match who does not already have it.
+        const task = tasks.find(candidate => lowered.includes(candidate.title.toLowerCase()));
+        const taker = task && matches.find(match => match.emp.id !== task.assignedTo);
+        return {
+            answer: `${matches.map(match => match.emp.name).join(', ')} ${matches.length === 1 ? 'lists' : 'list'} ${[...new Set(matches.flatMap(match => match.skills))].join(', ')}.`,
+            citations: matches.map(match => ({ employeeId: match.emp.id, fact: `Skills: ${match.skills.join(', ')}` })),
+            proposals: task && taker ? [{ taskId: task.id, toEmployeeId: taker.emp.id, reason: `${taker.emp.name} lists ${taker.skills.join(', ')}.` }] : [],
+        };
+    },
+
+    suggestTeamPriorities: (request) => {
+        const { gaps, employees } = request.input;
+        const bySeniority = [...employees].sort((a, b) => b.experienceYears - a.experienceYears);
+        // Skills nobody has are hired for; thinly held ones are taught to the most experienced people without them.
+        return {
+            summary: `${gaps.filter(gap => gap.holders === 0).length} target skills are missing and ${gaps.filter(gap => gap.holders === 1).length} rest on one person.`,
+            priorities: gaps.map(gap => {
+                const learners = bySeniority.filter(emp => !emp.skills.some(skill => skill.toLowerCase() === gap.skill.toLowerCase())).slice(0, 2);
+                return gap.holders === 0
+                    ? { skill: gap.skill, action: 'hire', rationale: `Nobody on the team lists ${gap.skill}.`, employeeIds: [] }
+                    : { skill: gap.skill, action: 'train', rationale: `Only one person lists ${gap.skill}; a second would remove the single point of failure.`, employeeIds: learners.map(emp => emp.id) };
+            }),
+        };
+    },
+};
@@ -0,0 +1,19 @@
+import type { LlmProvider, LlmRequest, LlmTask } from './types';
+import { MOCK_FIXTURES } from './mockFixtures';
+
+const MOCK_LATENCY_MS = 400;
+
+export const createMockProvider = (): LlmProvider => ({
+    label: 'Offline demo (mock)',
+
+    configurationError: () => null,
+
+    modelName: () => 'fixtures',
+
+    generateJson: async <K extends LlmTask>(request: LlmRequest<K>): Promise<string> => {
+        // A short delay keeps loading states visible when demoing the flow.
+        await new Promise(resolve => setTimeout(resolve, MOCK_LATENCY_MS));
+        const fixture = MOCK_FIXTURES[request.task] as (request: LlmRequest<K>) => unknown;
+        return JSON.stringify(fixture(request));
+    },
+});
@@ -0,0 +1,79 @@
+import type { Schema } from "@google/genai";
+import type { LlmSettings } from '../../types';
+import { kindFromStatus, LlmError } from './errors';
+import type { LlmCredentials, LlmProvider, LlmRequest, LlmTask } from './types';
+
+// Gemini schemas use upper-case OpenAPI type names; JSON Schema expects lower-case.
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+    const jsonSchema: Record<string, unknown> = {};
+    if (schema.type) jsonSchema.type = schema.type.toLowerCase();
+    if (schema.description) jsonSchema.description = schema.description;
+    if (schema.enum) jsonSchema.enum = schema.enum;
+    if (schema.items) jsonSchema.items = toJsonSchema(schema.items);
+    if (schema.properties) {
+        jsonSchema.properties = Object.fromEntries(
+            Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+        );
+    }
+    if (schema.required) jsonSchema.required = schema.required;
+    return jsonSchema;
+};
+
+interface ChatCompletionResponse {
+    choices?: { message?: { content?: string | null; refusal?: string | null }; finish_reason?: string }[];
+}
+
+export const createOpenAiCompatibleProvider = (settings: LlmSettings, credentials: LlmCredentials): LlmProvider => ({
+    label: 'OpenAI-compatible endpoint',
+
+    configurationError: () =>
+        credentials.openAiBaseUrl.trim() ? null : "OPENAI_BASE_URL is not set on the server. Add it to .env.local and restart the server, or switch to another provider in Settings.",
+
+    modelName: (tier) => settings.models['openai-compatible'][tier],
+
+    generateJson: async <K extends LlmTask>(request: LlmRequest<K>): Promise<string> => {
+        const imageParts = (request.images ?? []).map(image => ({
+            type: 'image_url',
+            image_url: { url: `data:${image.mimeType};base64,${image.data}` },
+        }));
+
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (credentials.openAiApiKey) {
+            headers.Authorization = `Bearer ${credentials.openAiApiKey}`;
+        }
+
+        const response = await fetch(`${credentials.openAiBaseUrl.replace(/\/+$/, '')}/chat/completions`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({
+                model: settings.models['openai-compatible'][request.tier],
+                messages: [{
+                    role: 'user',
+                    content: imageParts.length > 0
+                        ? [...imageParts, { type: 'text', text: request.prompt }]
+                        : request.prompt,
+                }],
+                response_format: {
+                    type: 'json_schema',
+                    json_schema: { name: request.task, schema: toJsonSchema(request.schema) },
+                },
+            }),
+        });
+
+        if (!response.ok) {
+            const detail = await response.text().catch(() => '');
+            throw new LlmError(
+                kindFromStatus(response.status, detail),
+                `OpenAI-compatible endpoint responded with ${response.status} ${response.statusText}`,
+                response.status,
+            );
+        }
+
+        const body: ChatCompletionResponse = await response.json();
+        const choice = body.choices?.[0];
+        if (choice?.finish_reason === 'content_filter' || choice?.message?.refusal) {
+            throw new LlmError('safety', choice.message?.refusal || 'The endpoint filtered the response.');
+        }
+        return choice?.message?.content ?? '';
+    },
+});
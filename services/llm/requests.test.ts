@@ -0,0 +1,213 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { Type, type Schema } from '@google/genai';
+import { LlmError } from './errors';
+import { createMockProvider } from './mockProvider';
+import { MAX_REASKS, requestItems, requestJson } from './requests';
+import type { LlmProvider, LlmRequest, LlmTask } from './types';
+
+const TASK_SKILLS_SCHEMA: Schema = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            taskId: { type: Type.STRING },
+            requiredSkills: { type: Type.ARRAY, items: { type: Type.STRING } },
+        },
+        required: ['taskId', 'requiredSkills'],
+    },
+};
+
+const TASKS = [
+    { id: 't1', title: 'Build React dashboard' },
+    { id: 't2', title: 'Tune Postgres queries' },
+    { id: 't3', title: 'Write release notes' },
+];
+const TASK_IDS = TASKS.map(task => task.id);
+
+const taskSkillsRequest = (ids: string[]): LlmRequest<'inferTaskSkills'> => ({
+    task: 'inferTaskSkills',
+    tier: 'fast',
+    prompt: `Skills for ${ids.join(', ')}`,
+    schema: TASK_SKILLS_SCHEMA,
+    input: { tasks: TASKS.filter(task => ids.includes(task.id)), knownSkills: ['React', 'Postgres'] },
+});
+
+const itemOptions = { idKey: 'taskId', expectedIds: TASK_IDS, narrow: taskSkillsRequest };
+
+const withStatus = (status: number, message: string) => Object.assign(new Error(message), { status });
+
+// The mock provider, with the first calls answered by scripted errors or raw responses instead.
+const scriptedProvider = (script: (Error | string)[]) => {
+    const mockProvider = createMockProvider();
+    const prompts: string[] = [];
+    const provider: LlmProvider = {
+        ...mockProvider,
+        generateJson: async <K extends LlmTask>(request: LlmRequest<K>) => {
+            prompts.push(request.prompt);
+            const next = script.shift();
+            if (next instanceof Error) throw next;
+            return next ?? mockProvider.generateJson(request);
+        },
+    };
+    return { provider, prompts };
+};
+
+// Delays the code under test waited for; they elapse immediately.
+let delays: number[] = [];
+
+beforeEach(() => {
+    delays = [];
+    const realSetTimeout = globalThis.setTimeout;
+    mock.method(globalThis, 'setTimeout', (callback: () => void, ms: number) => {
+        delays.push(ms);
+        return realSetTimeout(callback, 0);
+    });
+    mock.method(Math, 'random', () => 0);
+    mock.method(console, 'warn', () => {});
+});
+
+afterEach(() => mock.restoreAll());
+
+// Leaves out the mock provider's simulated latency.
+const retryDelays = () => delays.filter(ms => ms >= 1000);
+
+describe('requestJson', () => {
+    it('returns the response when it matches the schema', async () => {
+        const { provider, prompts } = scriptedProvider([]);
+        const result = await requestJson(provider, taskSkillsRequest(TASK_IDS));
+        assert.deepEqual(result, [
+            { taskId: 't1', requiredSkills: ['React'] },
+            { taskId: 't2', requiredSkills: ['Postgres'] },
+            { taskId: 't3', requiredSkills: [] },
+        ]);
+        assert.equal(prompts.length, 1);
+    });
+
+    it('retries rate limits and outages with exponential backoff', async () => {
+        const { provider, prompts } = scriptedProvider([withStatus(429, 'Too many requests'), withStatus(503, 'Unavailable')]);
+        await requestJson(provider, taskSkillsRequest(TASK_IDS));
+        assert.equal(prompts.length, 3);
+        assert.deepEqual(retryDelays(), [1000, 2000]);
+    });
+
+    it('treats failed network requests as transient', async () => {
+        const { provider, prompts } = scriptedProvider([new TypeError('fetch failed')]);
+        await requestJson(provider, taskSkillsRequest(TASK_IDS));
+        assert.equal(prompts.length, 2);
+    });
+
+    it('reports a rate limit that outlasts the retries as a quota error', async () => {
+        const { provider, prompts } = scriptedProvider(Array.from({ length: 4 }, () => withStatus(429, 'Too many requests')));
+        await assert.rejects(requestJson(provider, taskSkillsRequest(TASK_IDS)), (error: unknown) => {
+            assert.ok(error instanceof LlmError);
+            assert.equal(error.kind, 'quota');
+            assert.equal(error.status, 429);
+            return true;
+        });
+        assert.equal(prompts.length, 4);
+        assert.deepEqual(retryDelays(), [1000, 2000, 4000]);
+    });
+
+    it('does not retry errors that would fail the same way again', async () => {
+        for (const [error, kind] of [
+            [withStatus(401, 'Unauthorized'), 'auth'],
+            [withStatus(400, 'API key not valid'), 'auth'],
+            [withStatus(400, 'Bad request'), 'unknown'],
+        ] as const) {
+            const { provider, prompts } = scriptedProvider([error]);
+            await assert.rejects(requestJson(provider, taskSkillsRequest(TASK_IDS)), { name: 'LlmError', kind });
+            assert.equal(prompts.length, 1);
+        }
+        assert.deepEqual(retryDelays(), []);
+    });
+
+    it('asks again with the problems spelled out when the response does not fit', async () => {
+        const { provider, prompts } = scriptedProvider(['not json', '[{"taskId": "t1"}]']);
+        const result = await requestJson(provider, taskSkillsRequest(TASK_IDS));
+        assert.equal((result as unknown[]).length, 3);
+        assert.equal(prompts.length, 3);
+        assert.match(prompts[1], /could not be used: the response is not valid JSON\./);
+        assert.match(prompts[2], /could not be used: \$\[0\]\.requiredSkills is missing\./);
+        assert.doesNotMatch(prompts[2], /not valid JSON/);
+    });
+
+    it('gives up with a parse error after the last re-ask', async () => {
+        const { provider, prompts } = scriptedProvider(Array.from({ length: MAX_REASKS + 1 }, () => ''));
+        await assert.rejects(requestJson(provider, taskSkillsRequest(TASK_IDS)), {
+            name: 'LlmError',
+            kind: 'parse',
+            message: 'the response did not match the expected format (the response was empty).',
+        });
+        assert.equal(prompts.length, MAX_REASKS + 1);
+    });
+});
+
+describe('requestItems', () => {
+    it('returns nothing without calling the provider when no ids are expected', async () => {
+        const { provider, prompts } = scriptedProvider([]);
+        assert.deepEqual(await requestItems(provider, taskSkillsRequest([]), { ...itemOptions, expectedIds: [] }), { items: [], missingIds: [] });
+        assert.equal(prompts.length, 0);
+    });
+
+    it('asks again only for missing ids and returns items in expected order', async () => {
+        const { provider, prompts } = scriptedProvider([
+            JSON.stringify([
+                { taskId: 't2', requiredSkills: ['SQL'] },
+                { taskId: 't9', requiredSkills: [] },
+                { taskId: 't2', requiredSkills: ['Ignored'] },
+            ]),
+        ]);
+        const result = await requestItems(provider, taskSkillsRequest(TASK_IDS), itemOptions);
+        assert.deepEqual(result, {
+            items: [
+                { taskId: 't1', requiredSkills: ['React'] },
+                { taskId: 't2', requiredSkills: ['SQL'] },
+                { taskId: 't3', requiredSkills: [] },
+            ],
+            missingIds: [],
+        });
+        assert.equal(prompts.length, 2);
+        assert.match(prompts[1], /^Skills for t1, t3\n/);
+        assert.match(prompts[1], /no valid answer for taskId "t1", "t3"/);
+    });
+
+    it('asks again for malformed items, naming what was wrong', async () => {
+        const { provider, prompts } = scriptedProvider([
+            JSON.stringify([
+                { taskId: 't1', requiredSkills: 'React' },
+                { taskId: 't2', requiredSkills: ['Postgres'] },
+                { taskId: 't3', requiredSkills: [] },
+            ]),
+        ]);
+        const result = await requestItems(provider, taskSkillsRequest(TASK_IDS), itemOptions);
+        assert.deepEqual(result.missingIds, []);
+        assert.match(prompts[1], /^Skills for t1\n/);
+        assert.match(prompts[1], /\$\[0\]\.requiredSkills should be an array, got string/);
+    });
+
+    it('reports ids still missing after the last re-ask', async () => {
+        const onlyFirst = JSON.stringify([{ taskId: 't1', requiredSkills: [] }]);
+        const { provider, prompts } = scriptedProvider([onlyFirst, '[]', '[]']);
+        const result = await requestItems(provider, taskSkillsRequest(TASK_IDS), itemOptions);
+        assert.deepEqual(result, { items: [{ taskId: 't1', requiredSkills: [] }], missingIds: ['t2', 't3'] });
+        assert.equal(prompts.length, MAX_REASKS + 1);
+    });
+
+    it('fails with a parse error when no item was usable', async () => {
+        const { provider } = scriptedProvider(['{"taskId": "t1"}', '[]', '[]']);
+        await assert.rejects(requestItems(provider, taskSkillsRequest(TASK_IDS), itemOptions), {
+            name: 'LlmError',
+            kind: 'parse',
+            message: /no usable items \(every expected id was missing\)/,
+        });
+    });
+
+    it('retries transient failures before re-asking', async () => {
+        const { provider, prompts } = scriptedProvider([withStatus(500, 'Internal error')]);
+        const result = await requestItems(provider, taskSkillsRequest(TASK_IDS), itemOptions);
+        assert.equal(result.items.length, 3);
+        assert.equal(prompts.length, 2);
+        assert.deepEqual(retryDelays(), [1000]);
+    });
+});
@@ -0,0 +1,132 @@
+import type { Schema } from "@google/genai";
+import { LlmError, toLlmError } from './errors';
+import type { LlmProvider, LlmRequest, LlmTask } from './types';
+import { validateSchema } from './validation';
+
+// Calls per request, counting the first, before a rate limit or outage is reported.
+const MAX_ATTEMPTS = 4;
+const BASE_RETRY_DELAY_MS = 1000;
+
+// Follow-up requests for malformed or missing output before giving up on it.
+export const MAX_REASKS = 2;
+
+// Only the first few problems go back into the prompt or the error message.
+const MAX_REPORTED_PROBLEMS = 5;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** Sends a request, retrying rate limits and transient failures with exponential backoff and jitter. */
+const sendWithRetry = async <K extends LlmTask>(provider: LlmProvider, request: LlmRequest<K>): Promise<string> => {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await provider.generateJson(request);
+        } catch (error) {
+            const llmError = toLlmError(error);
+            if (!llmError.retryable || attempt >= MAX_ATTEMPTS) throw llmError;
+            const delay = BASE_RETRY_DELAY_MS * 2 ** (attempt - 1);
+            console.warn(`${provider.label} request failed (${llmError.message}); retrying in ${delay}ms.`);
+            await sleep(delay + Math.random() * delay / 2);
+        }
+    }
+};
+
+const summarize = (problems: string[]): string => {
+    const shown = problems.slice(0, MAX_REPORTED_PROBLEMS).join('; ');
+    return problems.length > MAX_REPORTED_PROBLEMS ? `${shown}; and ${problems.length - MAX_REPORTED_PROBLEMS} more` : shown;
+};
+
+const readResponse = (text: string, schema: Schema): { value: unknown; problems: string[] } => {
+    let value: unknown;
+    try {
+        value = JSON.parse(text);
+    } catch {
+        return { value: undefined, problems: [text.trim() ? 'the response is not valid JSON' : 'the response was empty'] };
+    }
+    return { value, problems: validateSchema(value, schema) };
+};
+
+const withCorrection = <K extends LlmTask>(request: LlmRequest<K>, problems: string[]): LlmRequest<K> => ({
+    ...request,
+    prompt: `${request.prompt}\n\nYour previous answer could not be used: ${summarize(problems)}. Respond again with JSON that matches the schema exactly.`,
+});
+
+/**
+ * Requests a single JSON value and checks it against the request's schema, re-asking
+ * with the problems spelled out when it does not fit.
+ */
+export const requestJson = async <T, K extends LlmTask>(provider: LlmProvider, request: LlmRequest<K>): Promise<T> => {
+    let current = request;
+    for (let round = 0; ; round++) {
+        const { value, problems } = readResponse(await sendWithRetry(provider, current), request.schema);
+        if (problems.length === 0) return value as T;
+        if (round >= MAX_REASKS) {
+            throw new LlmError('parse', `the response did not match the expected format (${summarize(problems)}).`);
+        }
+        current = withCorrection(request, problems);
+    }
+};
+
+export interface ItemRequestOptions<K extends LlmTask> {
+    // Property that identifies each item in the response, e.g. "id" or "taskId".
+    idKey: string;
+    expectedIds: string[];
+    // Rebuilds the request so it only asks about the given ids.
+    narrow: (ids: string[]) => LlmRequest<K>;
+}
+
+export interface ItemResult<T> {
+    // Valid items in `expectedIds` order, at most one per id.
+    items: T[];
+    // Ids still without a valid item after every re-ask.
+    missingIds: string[];
+}
+
+/**
+ * Requests an array with one item per expected id. Valid items are kept, and only the
+ * ids that came back missing or malformed are asked for again. Items for ids that
+ * were not asked about are dropped.
+ */
+export const requestItems = async <T, K extends LlmTask>(
+    provider: LlmProvider,
+    request: LlmRequest<K>,
+    { idKey, expectedIds, narrow }: ItemRequestOptions<K>,
+): Promise<ItemResult<T>> => {
+    if (expectedIds.length === 0) return { items: [], missingIds: [] };
+    const itemSchema = request.schema.items;
+    if (!itemSchema) {
+        throw new Error(`The ${request.task} schema does not describe array items.`);
+    }
+    const expected = new Set(expectedIds);
+    const collected = new Map<string, T>();
+    let current = request;
+    let problems: string[] = [];
+
+    for (let round = 0; ; round++) {
+        const response = readResponse(await sendWithRetry(provider, current), { type: request.schema.type });
+        problems = response.problems;
+        const items = Array.isArray(response.value) ? response.value : [];
+        items.forEach((item, index) => {
+            const itemProblems = validateSchema(item, itemSchema, `$[${index}]`);
+            if (itemProblems.length > 0) {
+                problems.push(...itemProblems);
+                return;
+            }
+            const id = (item as Record<string, unknown>)[idKey];
+            if (typeof id === 'string' && expected.has(id) && !collected.has(id)) {
+                collected.set(id, item as T);
+            }
+        });
+
+        const missingIds = expectedIds.filter(id => !collected.has(id));
+        if (missingIds.length === 0 || round >= MAX_REASKS) {
+            if (collected.size === 0) {
+                throw new LlmError('parse', `the response contained no usable items (${summarize(problems) || 'every expected id was missing'}).`);
+            }
+            return { items: expectedIds.flatMap(id => collected.has(id) ? [collected.get(id)!] : []), missingIds };
+        }
+        current = withCorrection(narrow(missingIds), [
+            ...problems,
+            `no valid answer for ${idKey} ${missingIds.map(id => `"${id}"`).join(', ')}`,
+        ]);
+    }
+};
@@ -0,0 +1,67 @@
+import type { Schema } from "@google/genai";
+import type { AnalyzedEmployee, JobProfile, ProviderModels, ScoreBreakdown, Task } from '../../types';
+
+export interface InlineImage {
+    mimeType: string;
+    data: string;
+}
+
+// "fast" covers extraction and scoring, "reasoning" the heavier planning prompts.
+export type ModelTier = keyof ProviderModels;
+
+// Structured inputs behind each prompt. Real providers only read the prompt text;
+// the mock provider builds its deterministic answers from these.
+export interface LlmTaskInputs {
+    analyzeResume: { pageCount: number };
+    rankEmployees: {
+        employees: (Pick<AnalyzedEmployee, 'id' | 'name' | 'summary' | 'skills' | 'experienceYears'> & { subScores: Omit<ScoreBreakdown, 'llmAdjustment'> })[];
+        profile: Omit<JobProfile, 'id' | 'scoringWeights'>;
+    };
+    inferTaskSkills: { tasks: Pick<Task, 'id' | 'title'>[]; knownSkills: string[] };
+    compareCandidates: {
+        candidates: Pick<AnalyzedEmployee, 'id' | 'name' | 'summary' | 'skills' | 'experienceYears' | 'workHistory'>[];
+        // The candidates are judged against a role, a set of tasks, or both.
+        role: Omit<JobProfile, 'id' | 'scoringWeights'> | null;
+        tasks: Pick<Task, 'title' | 'requiredSkills' | 'effortHours'>[];
+    };
+    askRoster: {
+        question: string;
+        employees: Pick<AnalyzedEmployee, 'id' | 'name' | 'skills'>[];
+        // Null while a task is unassigned.
+        tasks: (Pick<Task, 'id' | 'title'> & { assignedTo: string | null })[];
+    };
+    suggestTeamPriorities: {
+        // Target skills nobody or only one person holds.
+        gaps: { skill: string; holders: number }[];
+        employees: Pick<AnalyzedEmployee, 'id' | 'name' | 'skills' | 'experienceYears'>[];
+    };
+}
+
+export type LlmTask = keyof LlmTaskInputs;
+
+export interface LlmRequest<K extends LlmTask = LlmTask> {
+    task: K;
+    tier: ModelTier;
+    prompt: string;
+    images?: InlineImage[];
+    // Response shape in Gemini's OpenAPI subset; other providers translate it.
+    schema: Schema;
+    input: LlmTaskInputs[K];
+}
+
+// Read from the API server's environment; never sent to the browser.
+export interface LlmCredentials {
+    geminiApiKey: string;
+    openAiBaseUrl: string;
+    openAiApiKey: string;
+}
+
+export interface LlmProvider {
+    label: string;
+    // Returns a user-facing message when the provider cannot be used as configured.
+    configurationError(): string | null;
+    // The model a request of this tier is sent to, recorded alongside results.
+    modelName(tier: ModelTier): string;
+    // Resolves to the raw JSON text of the model response.
+    generateJson<K extends LlmTask>(request: LlmRequest<K>): Promise<string>;
+}
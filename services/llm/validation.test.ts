@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Type, type Schema } from '@google/genai';
+import { validateSchema } from './validation';
+
+const CANDIDATE_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        id: { type: Type.STRING },
+        level: { type: Type.STRING, enum: ['junior', 'senior'] },
+        years: { type: Type.INTEGER },
+        score: { type: Type.NUMBER },
+        remote: { type: Type.BOOLEAN },
+        skills: { type: Type.ARRAY, items: { type: Type.STRING } },
+    },
+    required: ['id', 'skills'],
+};
+
+describe('validateSchema', () => {
+    it('accepts a value that matches, ignoring properties the schema does not mention', () => {
+        const value = { id: 'e1', level: 'senior', years: 6, score: 72.5, remote: false, skills: ['React'], notes: 'extra' };
+        assert.deepEqual(validateSchema(value, CANDIDATE_SCHEMA), []);
+    });
+
+    it('reports missing required properties but not missing optional ones', () => {
+        assert.deepEqual(validateSchema({ level: 'junior' }, CANDIDATE_SCHEMA), ['$.id is missing', '$.skills is missing']);
+    });
+
+    it('reports values of the wrong type by path', () => {
+        const value = { id: 7, years: 2.5, score: 'high', remote: 'yes', skills: ['React', null] };
+        assert.deepEqual(validateSchema(value, CANDIDATE_SCHEMA), [
+            '$.id should be a string, got number',
+            '$.years should be an integer, got number',
+            '$.score should be a number, got string',
+            '$.remote should be a boolean, got string',
+            '$.skills[1] should be a string, got null',
+        ]);
+    });
+
+    it('rejects strings outside an enum', () => {
+        assert.deepEqual(validateSchema({ id: 'e1', level: 'lead', skills: [] }, CANDIDATE_SCHEMA), [
+            '$.level should be one of junior, senior, got "lead"',
+        ]);
+    });
+
+    it('rejects numbers that are not finite', () => {
+        assert.deepEqual(validateSchema(Infinity, { type: Type.NUMBER }), ['$ should be a number, got number']);
+    });
+
+    it('tells arrays, null and objects apart', () => {
+        assert.deepEqual(validateSchema([], CANDIDATE_SCHEMA), ['$ should be an object, got array']);
+        assert.deepEqual(validateSchema(null, CANDIDATE_SCHEMA), ['$ should be an object, got null']);
+        assert.deepEqual(validateSchema({}, { type: Type.ARRAY }), ['$ should be an array, got object']);
+    });
+
+    it('checks every item of an array against the item schema, starting from the given path', () => {
+        const schema: Schema = { type: Type.ARRAY, items: CANDIDATE_SCHEMA };
+        assert.deepEqual(validateSchema([{ id: 'e1', skills: [] }, { id: 'e2' }], schema, '$.candidates'), [
+            '$.candidates[1].skills is missing',
+        ]);
+    });
+});
@@ -0,0 +1,44 @@
+import { Type, type Schema } from "@google/genai";
+
+const describe = (value: unknown): string =>
+    value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+/**
+ * Checks a parsed response against the same schema the request was sent with and
+ * lists every mismatch by path. Properties the schema does not mention are ignored.
+ */
+export const validateSchema = (value: unknown, schema: Schema, path = '$'): string[] => {
+    switch (schema.type) {
+        case Type.OBJECT: {
+            if (!value || typeof value !== 'object' || Array.isArray(value)) {
+                return [`${path} should be an object, got ${describe(value)}`];
+            }
+            const record = value as Record<string, unknown>;
+            const missing = (schema.required ?? [])
+                .filter(key => record[key] === undefined)
+                .map(key => `${path}.${key} is missing`);
+            const invalid = Object.entries(schema.properties ?? {})
+                .filter(([key]) => record[key] !== undefined)
+                .flatMap(([key, propertySchema]) => validateSchema(record[key], propertySchema, `${path}.${key}`));
+            return [...missing, ...invalid];
+        }
+        case Type.ARRAY:
+            if (!Array.isArray(value)) return [`${path} should be an array, got ${describe(value)}`];
+            return schema.items
+                ? value.flatMap((item, index) => validateSchema(item, schema.items!, `${path}[${index}]`))
+                : [];
+        case Type.STRING:
+            if (typeof value !== 'string') return [`${path} should be a string, got ${describe(value)}`];
+            return schema.enum && !schema.enum.includes(value)
+                ? [`${path} should be one of ${schema.enum.join(', ')}, got "${value}"`]
+                : [];
+        case Type.INTEGER:
+            return Number.isInteger(value) ? [] : [`${path} should be an integer, got ${describe(value)}`];
+        case Type.NUMBER:
+            return typeof value === 'number' && Number.isFinite(value) ? [] : [`${path} should be a number, got ${describe(value)}`];
+        case Type.BOOLEAN:
+            return typeof value === 'boolean' ? [] : [`${path} should be a boolean, got ${describe(value)}`];
+        default:
+            return [];
+    }
+};
@@ -0,0 +1,135 @@
+import type { RedactionPolicy } from '../types';
+import type { InlineImage } from './llm';
+import { redactText, type DetectedPii } from './redactionService';
+import type { ResumeContent } from './resumeExtractionService';
+
+// Pages beyond this are ignored; CVs rarely need more and every page costs tokens.
+export const MAX_RESUME_PAGES = 6;
+
+// A page with fewer non-whitespace characters than this is treated as scanned and sent as an image.
+const MIN_PAGE_TEXT_CHARS = 80;
+
+interface PdfTextItem {
+    str?: string;
+    hasEOL?: boolean;
+    width?: number;
+    transform?: number[];
+}
+
+// The parts of pdf.js's page and viewport objects used here; the library itself is untyped.
+interface PdfViewport {
+    width: number;
+    height: number;
+    scale: number;
+    // Maps PDF user space to canvas pixels.
+    transform: number[];
+}
+
+interface PdfPage {
+    getViewport: (options: { scale: number }) => PdfViewport;
+    render: (options: { canvasContext: CanvasRenderingContext2D; viewport: PdfViewport }) => { promise: Promise<void> };
+    getTextContent: () => Promise<{ items: PdfTextItem[] }>;
+}
+
+// Blacks out the bounding box of each text item on the rendered page.
+const maskTextItems = (context: CanvasRenderingContext2D, viewport: PdfViewport, items: PdfTextItem[]) => {
+    context.fillStyle = '#000';
+    for (const item of items) {
+        if (!item.transform) continue;
+        const [, b, c, d, e, f] = window.pdfjsLib.Util.transform(viewport.transform, item.transform);
+        const height = Math.hypot(c, d) || Math.hypot(b, d);
+        const width = (item.width ?? 0) * viewport.scale;
+        // Pad slightly so descenders and anti-aliased edges are covered too.
+        context.fillRect(e - 2, f - height - 2, width + 4, height * 1.3 + 4);
+    }
+};
+
+const renderPageToImage = async (page: PdfPage, maskedItems: PdfTextItem[] = []): Promise<InlineImage> => {
+    const viewport = page.getViewport({ scale: 1.5 });
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d');
+    canvas.height = viewport.height;
+    canvas.width = viewport.width;
+
+    if (!context) {
+        throw new Error('Could not get canvas context');
+    }
+
+    await page.render({ canvasContext: context, viewport: viewport }).promise;
+    maskTextItems(context, viewport, maskedItems);
+
+    const base64Data = canvas.toDataURL('image/jpeg').split(',')[1];
+    return { mimeType: 'image/jpeg', data: base64Data };
+};
+
+const joinPageText = (items: PdfTextItem[]): string => items
+    .map(item => (item.str ?? '') + (item.hasEOL ? '\n' : ' '))
+    .join('')
+    .replace(/[ \t]+/g, ' ')
+    .trim();
+
+/**
+ * Reads a PDF page by page, preferring the text layer and rendering only pages
+ * without usable text (typically scans) to images. Text is returned unredacted for
+ * the caller to redact; rendered pages are masked here, wherever their sparse text
+ * layer shows PII. A sparse layer can miss text that is only in the image, so every
+ * rendered page counts as unchecked: it is reported, or left out when the policy says
+ * to withhold such pages.
+ */
+export const extractPdfContent = async (file: File, policy: RedactionPolicy): Promise<ResumeContent> => {
+    if (!window.pdfjsLib) {
+        throw new Error("PDF processing library is not loaded. Please wait a moment and try again.");
+    }
+    window.pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@2.16.102/build/pdf.worker.min.js`;
+
+    try {
+        const typedarray = new Uint8Array(await file.arrayBuffer());
+        const pdf = await window.pdfjsLib.getDocument(typedarray).promise;
+        const pageCount = Math.min(pdf.numPages, MAX_RESUME_PAGES);
+        const textPages: string[] = [];
+        const images: InlineImage[] = [];
+        const redactions: DetectedPii[] = [];
+        const unverifiedPages: number[] = [];
+        const withheldPages: number[] = [];
+
+        for (let i = 1; i <= pageCount; i++) {
+            const page: PdfPage = await pdf.getPage(i);
+            const { items } = await page.getTextContent();
+            const text = joinPageText(items);
+            if (text.replace(/\s/g, '').length >= MIN_PAGE_TEXT_CHARS) {
+                textPages.push(text);
+                continue;
+            }
+            // A sparse text layer only covers part of what the image shows.
+            if (policy.enabled) {
+                if (policy.withholdUnverifiedPages) {
+                    withheldPages.push(i);
+                    continue;
+                }
+                unverifiedPages.push(i);
+            }
+            const maskedItems = items.filter(item => {
+                const { matches } = redactText(item.str ?? '', policy);
+                redactions.push(...matches.map(match => ({ ...match, source: 'image' as const, page: i })));
+                return matches.length > 0;
+            });
+            images.push(await renderPageToImage(page, maskedItems));
+        }
+
+        return {
+            text: textPages.join('\n\n'),
+            images,
+            pageCount,
+            truncated: pdf.numPages > MAX_RESUME_PAGES,
+            redactions,
+            unverifiedPages,
+            withheldPages,
+        };
+    } catch (error) {
+        console.error("Error processing PDF:", error);
+        if (error && typeof error === 'object' && 'name' in error && error.name === 'PasswordException') {
+            throw new Error("The PDF file is password-protected. Please provide a decrypted file.");
+        }
+        throw new Error("Failed to process the PDF file. It might be corrupted or in an unsupported format.");
+    }
+};
@@ -0,0 +1,50 @@
+import type { AnalyzedEmployee } from '../types';
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const nameTokens = (name: string): string[] => name.split(/\s+/).filter(token => token.length > 1);
+
+/**
+ * Rewrites mentions of `from` in free text in a single pass: the full name becomes `to`,
+ * and its first and last names on their own become the first and last names of `to`.
+ * Middle names are dropped rather than left as a partial identifier.
+ */
+const replaceName = (text: string, from: string, to: string, splitTarget: boolean): string => {
+    const fromTokens = nameTokens(from);
+    if (fromTokens.length === 0) return text;
+    const toTokens = splitTarget ? nameTokens(to) : [];
+    const first = toTokens[0] ?? to;
+    const last = toTokens[toTokens.length - 1] ?? to;
+    const pattern = new RegExp(`\\b(?:${[from.trim(), ...fromTokens].map(escapeRegExp).join('|')})\\b`, 'gi');
+
+    const replaced = text.replace(pattern, match => {
+        const index = fromTokens.findIndex(token => token.toLowerCase() === match.toLowerCase());
+        if (index === -1) return to;
+        return index === 0 ? first : index === fromTokens.length - 1 ? last : '';
+    });
+    // "Jane Q. Doe" written as "Jane Doe" would otherwise read "Candidate A Candidate A".
+    const repeated = new RegExp(`(${escapeRegExp(to)})(?:\\s+${escapeRegExp(to)})+`, 'g');
+    return replaced.replace(repeated, '$1').replace(/ {2,}/g, ' ');
+};
+
+const withName = <T extends AnalyzedEmployee>(employee: T, name: string, splitTarget: boolean): T => ({
+    ...employee,
+    name,
+    summary: replaceName(employee.summary, employee.name, name, splitTarget),
+});
+
+const pseudonym = (index: number): string => {
+    let label = '';
+    for (let n = index; n >= 0; n = Math.floor(n / 26) - 1) {
+        label = String.fromCharCode(65 + (n % 26)) + label;
+    }
+    return `Candidate ${label}`;
+};
+
+/** Replaces names, in the name field and the summary, with "Candidate A", "Candidate B", … */
+export const pseudonymizeEmployees = <T extends AnalyzedEmployee>(employees: T[]): T[] =>
+    employees.map((employee, index) => withName(employee, pseudonym(index), false));
+
+/** Gives each employee the next employee's name, so every name is scored against a different profile. */
+export const swapEmployeeNames = <T extends AnalyzedEmployee>(employees: T[]): T[] =>
+    employees.map((employee, index) => withName(employee, employees[(index + 1) % employees.length].name, true));
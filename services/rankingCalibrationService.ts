@@ -0,0 +1,73 @@
+// Employees per ranking prompt, anchors included. Larger rosters are split into batches.
+export const RANKING_BATCH_SIZE = 25;
+
+// Employees repeated in every batch so each batch's leniency can be measured against the others.
+export const ANCHOR_COUNT = 3;
+
+export interface RankingBatchPlan {
+    anchorIds: string[];
+    // Each batch lists the anchors first, then its own employees.
+    batches: string[][];
+}
+
+export interface RankingProgress {
+    completedBatches: number;
+    totalBatches: number;
+}
+
+/**
+ * Splits a roster into prompts of at most `batchSize` employees. Anchors are picked
+ * evenly across the base-score range and added to every batch; everyone else is dealt
+ * round-robin by base score, so each batch spans strong and weak candidates alike
+ * rather than one batch holding all the top scorers.
+ */
+export const planRankingBatches = (
+    baseScores: Map<string, number>,
+    batchSize: number = RANKING_BATCH_SIZE,
+    anchorCount: number = ANCHOR_COUNT,
+): RankingBatchPlan => {
+    const ids = [...baseScores.keys()].sort((a, b) => baseScores.get(b)! - baseScores.get(a)! || a.localeCompare(b));
+    if (ids.length <= batchSize) {
+        return { anchorIds: [], batches: ids.length > 0 ? [ids] : [] };
+    }
+    const anchors = Math.min(anchorCount, batchSize - 1);
+    const anchorIds = [...new Set(
+        Array.from({ length: anchors }, (_, i) => ids[Math.floor(((i + 0.5) / anchors) * ids.length)]),
+    )];
+    const others = ids.filter(id => !anchorIds.includes(id));
+    const batchCount = Math.ceil(others.length / (batchSize - anchorIds.length));
+    const batches: string[][] = Array.from({ length: batchCount }, () => [...anchorIds]);
+    others.forEach((id, index) => batches[index % batchCount].push(id));
+    return { anchorIds, batches };
+};
+
+/**
+ * Puts adjustments from separate batches on one scale. Each anchor's consensus is its
+ * mean adjustment across batches; a batch's offset is how far its anchor adjustments
+ * sit from those consensus values on average, and is added to every employee in the
+ * batch. Anchors themselves get their consensus value.
+ */
+export const calibrateAdjustments = (plan: RankingBatchPlan, batchAdjustments: Map<string, number>[]): Map<string, number> => {
+    const calibrated = new Map<string, number>();
+    if (plan.anchorIds.length === 0) {
+        batchAdjustments.forEach(adjustments => adjustments.forEach((value, id) => calibrated.set(id, value)));
+        return calibrated;
+    }
+    const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+    const consensus = new Map<string, number>();
+    for (const anchorId of plan.anchorIds) {
+        const values = batchAdjustments.flatMap(adjustments => adjustments.has(anchorId) ? [adjustments.get(anchorId)!] : []);
+        if (values.length > 0) consensus.set(anchorId, mean(values));
+    }
+    batchAdjustments.forEach(adjustments => {
+        const gaps = [...consensus].flatMap(([anchorId, value]) => adjustments.has(anchorId) ? [value - adjustments.get(anchorId)!] : []);
+        // A batch whose anchors all went unanswered cannot be calibrated and is taken as-is.
+        const offset = gaps.length > 0 ? mean(gaps) : 0;
+        adjustments.forEach((value, id) => {
+            if (!consensus.has(id)) calibrated.set(id, value + offset);
+        });
+    });
+    consensus.forEach((value, anchorId) => calibrated.set(anchorId, value));
+    return calibrated;
+};
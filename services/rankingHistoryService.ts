@@ -0,0 +1,135 @@
+import type { AnalyzedEmployee, JobProfile, RankedEmployee, RankingInput, RankingRun } from '../types';
+
+// Older runs of a profile are dropped once it has this many.
+export const MAX_RUNS_PER_PROFILE = 20;
+
+// Score spread (0-100 points) across comparable runs above which a rank counts as drifting.
+export const DEFAULT_DRIFT_THRESHOLD = 5;
+
+const toRankingInput = ({ id, name, summary, skills, skillLevels, experienceYears, workHistory }: AnalyzedEmployee): RankingInput =>
+    ({ id, name, summary, skills, skillLevels, experienceYears, workHistory });
+
+interface RunMetadata {
+    providerLabel: string;
+    model: string;
+    promptVersion: string;
+}
+
+export const createRankingRun = (
+    profile: JobProfile,
+    employees: AnalyzedEmployee[],
+    ranked: RankedEmployee[],
+    metadata: RunMetadata,
+): RankingRun => ({
+    id: crypto.randomUUID(),
+    profileId: profile.id,
+    createdAt: new Date().toISOString(),
+    ...metadata,
+    inputs: { profile, employees: employees.map(toRankingInput) },
+    results: ranked.map(({ id, rank, justification, breakdown }) => ({ employeeId: id, rank, justification, breakdown })),
+});
+
+/** Appends a run, dropping the oldest runs of its profile beyond `MAX_RUNS_PER_PROFILE`. */
+export const appendRankingRun = (history: RankingRun[], run: RankingRun): RankingRun[] => {
+    const next = [...history, run];
+    const profileRuns = next.filter(entry => entry.profileId === run.profileId);
+    const dropped = new Set(profileRuns.slice(0, Math.max(0, profileRuns.length - MAX_RUNS_PER_PROFILE)).map(entry => entry.id));
+    return next.filter(entry => !dropped.has(entry.id));
+};
+
+export const runsForProfile = (history: RankingRun[], profileId: string): RankingRun[] =>
+    history.filter(run => run.profileId === profileId);
+
+const inputOf = (run: RankingRun, employeeId: string): RankingInput | undefined =>
+    run.inputs.employees.find(emp => emp.id === employeeId);
+
+const sameInputs = (a: RankingRun, b: RankingRun, employeeId: string): boolean =>
+    JSON.stringify(a.inputs.profile) === JSON.stringify(b.inputs.profile)
+    && JSON.stringify(inputOf(a, employeeId)) === JSON.stringify(inputOf(b, employeeId));
+
+// Runs from another provider, model or prompt (blind or calibrated ranking included) are expected to score differently.
+const sameSetup = (a: RankingRun, b: RankingRun): boolean =>
+    a.providerLabel === b.providerLabel && a.model === b.model && a.promptVersion === b.promptVersion;
+
+interface RunPlacement {
+    rank: number;
+    // 1-based position in the run's ordering.
+    position: number;
+    justification: string;
+}
+
+export interface RunComparisonRow {
+    employeeId: string;
+    name: string;
+    before?: RunPlacement;
+    after?: RunPlacement;
+    // Positive when the score or position improved from `before` to `after`.
+    scoreDelta: number;
+    positionDelta: number;
+    justificationChanged: boolean;
+    // The employee or profile data scored differed between the two runs.
+    inputsChanged: boolean;
+}
+
+const placementsOf = (run: RankingRun): Map<string, RunPlacement> => new Map(
+    run.results.map((result, index) => [result.employeeId, { rank: result.rank, position: index + 1, justification: result.justification }]),
+);
+
+/** Diffs two runs employee by employee, ordered by the later run's positions. */
+export const compareRankingRuns = (before: RankingRun, after: RankingRun): RunComparisonRow[] => {
+    const beforePlacements = placementsOf(before);
+    const afterPlacements = placementsOf(after);
+    const names = new Map([...before.inputs.employees, ...after.inputs.employees].map(emp => [emp.id, emp.name]));
+    const ids = [...new Set([...after.results, ...before.results].map(result => result.employeeId))];
+
+    return ids.map(employeeId => {
+        const a = beforePlacements.get(employeeId);
+        const b = afterPlacements.get(employeeId);
+        return {
+            employeeId,
+            name: names.get(employeeId) ?? 'Unknown Employee',
+            before: a,
+            after: b,
+            scoreDelta: a && b ? b.rank - a.rank : 0,
+            positionDelta: a && b ? a.position - b.position : 0,
+            justificationChanged: Boolean(a && b && a.justification !== b.justification),
+            inputsChanged: !sameInputs(before, after, employeeId),
+        };
+    });
+};
+
+export interface RankDrift {
+    employeeId: string;
+    name: string;
+    // Runs whose setup and inputs match the latest run for this employee.
+    runCount: number;
+    minRank: number;
+    maxRank: number;
+}
+
+/**
+ * Employees whose score moved by more than `threshold` points across runs that
+ * scored identical inputs with the same provider, model and prompt version, i.e.
+ * variation that can only come from the model.
+ */
+export const findRankDrift = (runs: RankingRun[], threshold: number = DEFAULT_DRIFT_THRESHOLD): RankDrift[] => {
+    const latest = runs[runs.length - 1];
+    if (!latest) return [];
+
+    return latest.results
+        .map(result => {
+            const ranks = runs
+                .filter(run => sameSetup(run, latest) && sameInputs(run, latest, result.employeeId))
+                .map(run => run.results.find(r => r.employeeId === result.employeeId)?.rank)
+                .filter((rank): rank is number => rank !== undefined);
+            return {
+                employeeId: result.employeeId,
+                name: inputOf(latest, result.employeeId)?.name ?? 'Unknown Employee',
+                runCount: ranks.length,
+                minRank: Math.min(...ranks),
+                maxRank: Math.max(...ranks),
+            };
+        })
+        .filter(drift => drift.runCount > 1 && drift.maxRank - drift.minRank > threshold)
+        .sort((a, b) => (b.maxRank - b.minRank) - (a.maxRank - a.minRank));
+};
@@ -0,0 +1,127 @@
+import type { ContactInfo, PiiKind, RedactionEntry, RedactionLog, RedactionPolicy } from '../types';
+import type { ResumeContent } from './resumeExtractionService';
+
+export const PII_KIND_LABELS: Record<PiiKind, string> = {
+    'email': 'Email addresses',
+    'phone': 'Phone numbers',
+    'url': 'Links',
+    'address': 'Street addresses',
+    'date-of-birth': 'Dates of birth',
+};
+
+export const PII_KINDS = Object.keys(PII_KIND_LABELS) as PiiKind[];
+
+export const DEFAULT_REDACTION_POLICY: RedactionPolicy = {
+    enabled: true,
+    kinds: { 'email': true, 'phone': true, 'url': true, 'address': true, 'date-of-birth': true },
+    withholdUnverifiedPages: false,
+};
+
+const PLACEHOLDERS: Record<PiiKind, string> = {
+    'email': '[EMAIL]',
+    'phone': '[PHONE]',
+    'url': '[LINK]',
+    'address': '[ADDRESS]',
+    'date-of-birth': '[DATE OF BIRTH]',
+};
+
+const STREET_SUFFIXES = 'Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Square|Sq|Strasse|Straße';
+
+// Checked in this order, so a link containing an email-like part is masked as a link.
+const PATTERNS: [PiiKind, RegExp][] = [
+    ['url', /\b(?:https?:\/\/|www\.)[^\s<>"')]+|\b(?:linkedin\.com|github\.com|gitlab\.com)\/[^\s<>"')]+/gi],
+    ['email', /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi],
+    ['date-of-birth', /\b(?:date of birth|d\.?o\.?b\.?|born)\s*:?\s*[A-Z0-9][A-Z0-9 ./,-]{3,18}\d/gi],
+    ['address', new RegExp(`\\b\\d{1,5}[A-Z]?\\s+(?:[A-Z][\\w'-]*\\s+){1,4}(?:${STREET_SUFFIXES})\\b\\.?(?:,\\s*[A-Z][\\w .'-]{1,40}?(?:,?\\s*[A-Z]{2})?\\s*\\d{4,5}(?:-\\d{4})?)?`, 'g')],
+    ['phone', /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d[\d\s.-]{6,16}\d/g],
+];
+
+// Year ranges such as "2015 - 2019" have enough digits to look like phone numbers.
+const looksLikeYearRange = (value: string): boolean =>
+    /^(?:(?:19|20)\d{2}[\s.-]*){1,3}$/.test(value.trim());
+
+const isPlausible = (kind: PiiKind, value: string): boolean => {
+    if (kind !== 'phone') return true;
+    const digits = value.replace(/\D/g, '').length;
+    return digits >= 8 && digits <= 15 && !looksLikeYearRange(value);
+};
+
+/** Shows enough of a redacted value to recognize it in the log without repeating it. */
+export const maskPreview = (value: string): string => {
+    const trimmed = value.trim();
+    if (trimmed.length <= 4) return '•'.repeat(trimmed.length);
+    return `${trimmed.slice(0, 2)}${'•'.repeat(Math.min(trimmed.length - 4, 12))}${trimmed.slice(-2)}`;
+};
+
+export interface PiiMatch {
+    kind: PiiKind;
+    value: string;
+}
+
+// Where a match was found. Values stay in the browser; only previews are logged.
+export interface DetectedPii extends PiiMatch {
+    source: RedactionEntry['source'];
+    page?: number;
+}
+
+export interface TextRedaction {
+    text: string;
+    matches: PiiMatch[];
+}
+
+/** Replaces PII of the kinds the policy covers with placeholders such as "[EMAIL]". */
+export const redactText = (text: string, policy: RedactionPolicy): TextRedaction => {
+    if (!policy.enabled) return { text, matches: [] };
+    let redacted = text;
+    const matches: PiiMatch[] = [];
+    for (const [kind, pattern] of PATTERNS) {
+        if (!policy.kinds[kind]) continue;
+        redacted = redacted.replace(pattern, value => {
+            if (!isPlausible(kind, value)) return value;
+            matches.push({ kind, value });
+            return PLACEHOLDERS[kind];
+        });
+    }
+    return { text: redacted, matches };
+};
+
+export const toRedactionEntries = (detected: DetectedPii[]): RedactionEntry[] =>
+    detected.map(({ kind, value, source, page }) => ({ kind, source, page, preview: maskPreview(value) }));
+
+/** Log of what was withheld from one resume; `employeeId` is set once analysis produced an employee. */
+export const createRedactionLog = (fileName: string, content: ResumeContent, employeeId?: string): RedactionLog => ({
+    id: crypto.randomUUID(),
+    fileName,
+    createdAt: new Date().toISOString(),
+    employeeId,
+    entries: toRedactionEntries(content.redactions),
+    unverifiedPages: content.unverifiedPages,
+    withheldPages: content.withheldPages,
+});
+
+const containsPlaceholder = (value: string): boolean =>
+    Object.values(PLACEHOLDERS).some(placeholder => value.includes(placeholder));
+
+/**
+ * Puts contact details found locally back into what the model extracted from redacted
+ * content, and clears any placeholders the model copied into its answer.
+ */
+export const restoreRedactedContact = <T extends { contact: ContactInfo; location: string }>(details: T, detected: DetectedPii[]): T => {
+    const clean = (value: string) => containsPlaceholder(value) ? '' : value;
+    const localLinks = [...new Set(detected.filter(match => match.kind === 'url').map(match => match.value))];
+    return {
+        ...details,
+        location: clean(details.location),
+        contact: {
+            email: detected.find(match => match.kind === 'email')?.value ?? clean(details.contact.email),
+            phone: detected.find(match => match.kind === 'phone')?.value.trim() ?? clean(details.contact.phone),
+            links: localLinks.length > 0 ? localLinks : details.contact.links.filter(link => !containsPlaceholder(link)),
+        },
+    };
+};
+
+// Logs beyond this many are dropped, oldest first.
+export const MAX_REDACTION_LOGS = 200;
+
+// Resume prompts mention this so the model leaves redacted fields empty instead of guessing.
+export const REDACTION_PROMPT_NOTE = `Bracketed placeholders such as ${Object.values(PLACEHOLDERS).join(', ')} mark details removed for privacy; leave the corresponding fields empty.`;
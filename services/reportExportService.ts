@@ -0,0 +1,230 @@
+import type { AnalyzedEmployee, JobProfile, RankedEmployee, Task, TaskAssignment } from '../types';
+import { downloadFile, fileDateStamp } from './downloadService';
+import { TASK_PRIORITY_LABELS, WORKDAY_HOURS, toIsoDate } from './taskAssignmentService';
+
+export type ReportFormat = 'csv' | 'markdown' | 'pdf';
+
+export const REPORT_FORMAT_LABELS: Record<ReportFormat, string> = {
+    csv: 'CSV',
+    markdown: 'Markdown',
+    pdf: 'PDF',
+};
+
+export interface ReportTable {
+    title: string;
+    // Context printed under the title, e.g. the profile and date.
+    subtitle: string;
+    columns: string[];
+    rows: string[][];
+}
+
+// Calendar exports lay each person's tasks out back to back from this hour.
+export const WORKDAY_START_HOUR = 9;
+
+const formatDate = (date: Date) => date.toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+
+export const buildRankingReport = (ranked: RankedEmployee[], profile: JobProfile, date: Date = new Date()): ReportTable => ({
+    title: `Ranking: ${profile.title}`,
+    subtitle: `${ranked.length} employees · ${formatDate(date)}`,
+    columns: ['Rank', 'Name', 'Experience (years)', 'Skills', 'Justification'],
+    rows: [...ranked]
+        .sort((a, b) => b.rank - a.rank)
+        .map(emp => [String(emp.rank), emp.name, String(emp.experienceYears), emp.skills.join('; '), emp.justification]),
+});
+
+/** One row per assigned task in plan order, then unassigned tasks. */
+export const buildAssignmentReport = (
+    assignments: TaskAssignment[],
+    tasks: Task[],
+    employees: AnalyzedEmployee[],
+    date: Date = new Date(),
+): ReportTable => {
+    const taskMap = new Map(tasks.map(task => [task.id, task]));
+    const names = new Map(employees.map(emp => [emp.id, emp.name]));
+    const assigned = new Set(assignments.flatMap(assignment => assignment.taskIds));
+    const row = (owner: string, task: Task, isPinned: boolean) => [
+        owner,
+        task.title,
+        String(task.effortHours),
+        TASK_PRIORITY_LABELS[task.priority],
+        task.deadline,
+        task.requiredSkills.join('; '),
+        isPinned ? 'yes' : '',
+    ];
+    return {
+        title: 'Daily Task Assignments',
+        subtitle: `${assigned.size} of ${tasks.length} tasks assigned · ${formatDate(date)}`,
+        columns: ['Employee', 'Task', 'Effort (h)', 'Priority', 'Deadline', 'Required skills', 'Pinned'],
+        rows: [
+            ...assignments.flatMap(assignment => assignment.taskIds.flatMap(id => {
+                const task = taskMap.get(id);
+                return task ? [row(names.get(assignment.employeeId) ?? 'Unknown', task, assignment.pinnedTaskIds.includes(id))] : [];
+            })),
+            ...tasks.filter(task => !assigned.has(task.id)).map(task => row('Unassigned', task, false)),
+        ],
+    };
+};
+
+// Spreadsheets run cells starting with these as formulas; resume text must not be able to.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const NUMBER = /^[+-]?\d+(\.\d+)?$/;
+
+const csvCell = (raw: string) => {
+    const value = FORMULA_PREFIX.test(raw) && !NUMBER.test(raw) ? `'${raw}` : raw;
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const toCsv = (table: ReportTable): string =>
+    [table.columns, ...table.rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+
+const markdownCell = (value: string) => value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+
+export const toMarkdown = (table: ReportTable): string => [
+    `# ${table.title}`,
+    '',
+    table.subtitle,
+    '',
+    `| ${table.columns.map(markdownCell).join(' | ')} |`,
+    `| ${table.columns.map(() => '---').join(' | ')} |`,
+    ...table.rows.map(row => `| ${row.map(markdownCell).join(' | ')} |`),
+    '',
+].join('\n');
+
+const escapeHtml = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/** A standalone page that opens the print dialog, from which it can be saved as PDF. */
+export const toPrintableHtml = (table: ReportTable): string => `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(table.title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; color: #111; margin: 2rem; }
+h1 { font-size: 1.4rem; margin: 0 0 0.25rem; }
+p { color: #555; margin: 0 0 1rem; }
+table { border-collapse: collapse; width: 100%; font-size: 0.8rem; }
+th, td { border: 1px solid #ccc; padding: 0.35rem 0.5rem; text-align: left; vertical-align: top; }
+th { background: #f0f0f0; }
+tr { page-break-inside: avoid; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(table.title)}</h1>
+<p>${escapeHtml(table.subtitle)}</p>
+<table>
+<thead><tr>${table.columns.map(column => `<th>${escapeHtml(column)}</th>`).join('')}</tr></thead>
+<tbody>
+${table.rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('\n')}
+</tbody>
+</table>
+<script>window.addEventListener('load', () => window.print());</script>
+</body>
+</html>`;
+
+const slug = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'report';
+
+/** Downloads the table as CSV or Markdown, or opens it in a print window for PDF. */
+export const exportReport = (table: ReportTable, format: ReportFormat): void => {
+    const baseName = `${slug(table.title)}-${fileDateStamp()}`;
+    switch (format) {
+        case 'csv':
+            downloadFile(toCsv(table), `${baseName}.csv`, 'text/csv;charset=utf-8');
+            return;
+        case 'markdown':
+            downloadFile(toMarkdown(table), `${baseName}.md`, 'text/markdown;charset=utf-8');
+            return;
+        case 'pdf': {
+            const printWindow = window.open('', '_blank');
+            if (!printWindow) {
+                throw new Error("The print window was blocked. Allow pop-ups for this page to export a PDF.");
+            }
+            printWindow.document.write(toPrintableHtml(table));
+            printWindow.document.close();
+            return;
+        }
+    }
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Floating local time, so events land at the same wall-clock hour in any calendar.
+const icsLocalTime = (date: Date) =>
+    `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}T${pad(date.getHours())}${pad(date.getMinutes())}00`;
+
+const icsUtcTime = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const icsText = (value: string) => value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+const utf8 = new TextEncoder();
+
+// Long lines are folded at 75 octets, never inside a character; continuation lines start with a space.
+const foldLine = (line: string): string => {
+    const parts = [''];
+    let octets = 0;
+    for (const char of line) {
+        const size = utf8.encode(char).length;
+        if (octets + size > 75) {
+            parts.push('');
+            octets = 1;
+        }
+        parts[parts.length - 1] += char;
+        octets += size;
+    }
+    return parts.join('\r\n ');
+};
+
+/**
+ * An iCalendar file with one event per assigned task, laid out back to back from the
+ * start of the working day in plan order. Work beyond a day's hours continues the next
+ * day, matching how deadlines are checked.
+ */
+export const buildDayCalendar = (employee: AnalyzedEmployee, assignment: TaskAssignment, tasks: Task[], date: Date = new Date()): string => {
+    const taskMap = new Map(tasks.map(task => [task.id, task]));
+    const stamp = icsUtcTime(new Date());
+    let elapsedHours = 0;
+    const events = assignment.taskIds.flatMap(id => {
+        const task = taskMap.get(id);
+        if (!task) return [];
+        const start = new Date(date.getFullYear(), date.getMonth(), date.getDate() + Math.floor(elapsedHours / WORKDAY_HOURS), WORKDAY_START_HOUR);
+        start.setMinutes(Math.round((elapsedHours % WORKDAY_HOURS) * 60));
+        const end = new Date(start.getTime() + task.effortHours * 60 * 60 * 1000);
+        elapsedHours += task.effortHours;
+        const details = [
+            `Priority: ${TASK_PRIORITY_LABELS[task.priority]}`,
+            task.deadline && `Deadline: ${task.deadline}`,
+            task.requiredSkills.length > 0 && `Skills: ${task.requiredSkills.join(', ')}`,
+        ].filter(Boolean).join('\n');
+        return [
+            'BEGIN:VEVENT',
+            `UID:${task.id}-${employee.id}-${toIsoDate(date)}@ai-employee-sorter`,
+            `DTSTAMP:${stamp}`,
+            `DTSTART:${icsLocalTime(start)}`,
+            `DTEND:${icsLocalTime(end)}`,
+            `SUMMARY:${icsText(task.title)}`,
+            `DESCRIPTION:${icsText(details)}`,
+            'END:VEVENT',
+        ];
+    });
+    return [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//AI Employee Sorter//Task Assignments//EN',
+        'CALSCALE:GREGORIAN',
+        `X-WR-CALNAME:${icsText(`Tasks for ${employee.name}`)}`,
+        ...events,
+        'END:VCALENDAR',
+        '',
+    ].map(foldLine).join('\r\n');
+};
+
+export const exportDayCalendar = (employee: AnalyzedEmployee, assignment: TaskAssignment, tasks: Task[], date: Date = new Date()): void => {
+    downloadFile(buildDayCalendar(employee, assignment, tasks, date), `tasks-${slug(employee.name)}-${toIsoDate(date)}.ics`, 'text/calendar;charset=utf-8');
+};
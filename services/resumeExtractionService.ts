@@ -0,0 +1,103 @@
+import type { RedactionPolicy } from '../types';
+import type { InlineImage } from './llm';
+import { extractPdfContent } from './pdfService';
+import { redactText, type DetectedPii } from './redactionService';
+import { readZipEntries } from './zipService';
+
+export interface ResumeContent {
+    // Text recovered locally from the document, empty when nothing was readable.
+    text: string;
+    // Rendered pages that had no usable text layer.
+    images: InlineImage[];
+    pageCount: number;
+    // True when pages beyond the page cap were skipped.
+    truncated: boolean;
+    // PII removed locally before anything is sent; empty when redaction is off.
+    redactions: DetectedPii[];
+    // Scanned pages without a text layer, so PII on them could not be located.
+    unverifiedPages: number[];
+    // Unverifiable pages left out under the workspace redaction policy.
+    withheldPages: number[];
+}
+
+const UNREDACTED = { redactions: [], unverifiedPages: [], withheldPages: [] };
+
+export type ResumeFormat = 'pdf' | 'docx' | 'text';
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+export const SUPPORTED_RESUME_EXTENSIONS = ['.pdf', '.docx', '.txt'];
+
+export const getResumeFormat = (file: { name: string; type?: string }): ResumeFormat | null => {
+    const name = file.name.toLowerCase();
+    if (file.type === 'application/pdf' || name.endsWith('.pdf')) return 'pdf';
+    if (file.type === DOCX_MIME_TYPE || name.endsWith('.docx')) return 'docx';
+    if (file.type === 'text/plain' || name.endsWith('.txt')) return 'text';
+    return null;
+};
+
+export const getResumeMimeType = (format: ResumeFormat): string => ({
+    pdf: 'application/pdf',
+    docx: DOCX_MIME_TYPE,
+    text: 'text/plain',
+}[format]);
+
+const WORD_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+const extractDocxContent = async (file: File): Promise<ResumeContent> => {
+    const [documentXml] = await readZipEntries(file, name => name === 'word/document.xml');
+    if (!documentXml) {
+        throw new Error("The DOCX file is missing its document body.");
+    }
+
+    const xml = new DOMParser().parseFromString(new TextDecoder().decode(documentXml.data), 'application/xml');
+    const paragraphs = Array.from(xml.getElementsByTagNameNS(WORD_NAMESPACE, 'p')).map(paragraph =>
+        Array.from(paragraph.getElementsByTagNameNS(WORD_NAMESPACE, '*'))
+            .map(node => node.localName === 't' ? node.textContent ?? '' : node.localName === 'tab' ? '\t' : '')
+            .join('')
+    );
+
+    return { text: paragraphs.join('\n').trim(), images: [], pageCount: 1, truncated: false, ...UNREDACTED };
+};
+
+const extractTextContent = async (file: File): Promise<ResumeContent> => ({
+    text: (await file.text()).trim(),
+    images: [],
+    pageCount: 1,
+    truncated: false,
+    ...UNREDACTED,
+});
+
+/**
+ * Extracts resume content locally and redacts it under the workspace policy, so only
+ * redacted text, or masked images of scanned pages, reach the model.
+ */
+export const extractResumeContent = async (file: File, policy: RedactionPolicy): Promise<ResumeContent> => {
+    const format = getResumeFormat(file);
+    let content: ResumeContent;
+    switch (format) {
+        case 'pdf':
+            content = await extractPdfContent(file, policy);
+            break;
+        case 'docx':
+            content = await extractDocxContent(file);
+            break;
+        case 'text':
+            content = await extractTextContent(file);
+            break;
+        default:
+            throw new Error(`"${file.name}" is not a supported resume format. Please upload a PDF, DOCX or TXT file.`);
+    }
+
+    if (!content.text && content.images.length === 0) {
+        throw new Error(content.withheldPages.length > 0
+            ? `Every page of "${file.name}" is a scan that could not be checked for personal data, so nothing was sent. Allow unverified pages in the redaction policy to analyze it.`
+            : `No readable content was found in "${file.name}".`);
+    }
+    const { text, matches } = redactText(content.text, policy);
+    return {
+        ...content,
+        text,
+        redactions: [...matches.map(match => ({ ...match, source: 'text' as const })), ...content.redactions],
+    };
+};
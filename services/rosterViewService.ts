@@ -0,0 +1,81 @@
+import type { AnalyzedEmployee, RankedEmployee } from '../types';
+import { normalizeSkillKey } from './skillTaxonomyService';
+
+export type RosterEntry = AnalyzedEmployee | RankedEmployee;
+
+export interface RosterFilter {
+    // Matched case-insensitively against name and summary.
+    query: string;
+    // Employees must have every one of these skills.
+    skills: string[];
+    minExperience: number | null;
+    maxExperience: number | null;
+    // Rank bounds only apply once the roster has been ranked.
+    minRank: number | null;
+    maxRank: number | null;
+}
+
+export const EMPTY_ROSTER_FILTER: RosterFilter = {
+    query: '',
+    skills: [],
+    minExperience: null,
+    maxExperience: null,
+    minRank: null,
+    maxRank: null,
+};
+
+// 'added' keeps the order employees were added in.
+export type RosterSortKey = 'added' | 'rank' | 'name' | 'experience' | 'skills';
+
+export interface RosterSort {
+    key: RosterSortKey;
+    descending: boolean;
+}
+
+export const ROSTER_SORT_LABELS: Record<RosterSortKey, string> = {
+    added: 'Date added',
+    rank: 'Rank',
+    name: 'Name',
+    experience: 'Experience',
+    skills: 'Skill count',
+};
+
+export const rankOf = (entry: RosterEntry): number | undefined =>
+    'rank' in entry ? entry.rank : undefined;
+
+const withinRange = (value: number, min: number | null, max: number | null): boolean =>
+    (min === null || value >= min) && (max === null || value <= max);
+
+export const isFilterActive = (filter: RosterFilter): boolean =>
+    JSON.stringify(filter) !== JSON.stringify(EMPTY_ROSTER_FILTER);
+
+export const filterRoster = <T extends RosterEntry>(entries: T[], filter: RosterFilter): T[] => {
+    const query = filter.query.trim().toLowerCase();
+    const requiredSkills = filter.skills.map(normalizeSkillKey);
+    return entries.filter(entry => {
+        if (query && !`${entry.name}\n${entry.summary}`.toLowerCase().includes(query)) return false;
+        if (requiredSkills.length > 0) {
+            const skills = new Set(entry.skills.map(normalizeSkillKey));
+            if (!requiredSkills.every(skill => skills.has(skill))) return false;
+        }
+        if (!withinRange(entry.experienceYears, filter.minExperience, filter.maxExperience)) return false;
+        const rank = rankOf(entry);
+        return rank === undefined || withinRange(rank, filter.minRank, filter.maxRank);
+    });
+};
+
+/** Returns a sorted copy; `addedOrder` maps employee ids to their position in the workspace. */
+export const sortRoster = <T extends RosterEntry>(entries: T[], sort: RosterSort, addedOrder: Map<string, number>): T[] => {
+    const compare = (a: T, b: T): number => {
+        switch (sort.key) {
+            case 'added': return (addedOrder.get(a.id) ?? 0) - (addedOrder.get(b.id) ?? 0);
+            case 'rank': return (rankOf(a) ?? -1) - (rankOf(b) ?? -1);
+            case 'name': return a.name.localeCompare(b.name);
+            case 'experience': return a.experienceYears - b.experienceYears;
+            case 'skills': return a.skills.length - b.skills.length;
+        }
+    };
+    const direction = sort.descending ? -1 : 1;
+    // Name breaks ties so equal values keep a stable, predictable order.
+    return [...entries].sort((a, b) => compare(a, b) * direction || a.name.localeCompare(b.name));
+};
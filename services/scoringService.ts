@@ -0,0 +1,122 @@
+import type { AnalyzedEmployee, JobProfile, ScoreBreakdown, ScoreComponent, ScoringWeights } from '../types';
+import { normalizeSkillKey } from './skillTaxonomyService';
+
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+    skillMatch: 40,
+    experience: 25,
+    seniority: 15,
+    domainFit: 20,
+};
+
+export const SCORE_COMPONENT_LABELS: Record<ScoreComponent, string> = {
+    skillMatch: 'Skill match',
+    experience: 'Experience',
+    seniority: 'Seniority',
+    domainFit: 'Domain fit',
+};
+
+// The LLM may only move the deterministic score by this many points either way.
+export const MAX_LLM_ADJUSTMENT = 10;
+
+const SENIORITY_KEYWORDS: { pattern: RegExp; score: number }[] = [
+    { pattern: /\b(principal|staff|architect|director|vp|head of|cto)\b/, score: 95 },
+    { pattern: /\b(lead|senior|sr\.?|manager)\b/, score: 80 },
+    { pattern: /\b(mid-level|intermediate)\b/, score: 60 },
+    { pattern: /\b(junior|jr\.?|intern|graduate|entry-level|trainee)\b/, score: 30 },
+];
+
+const STOP_WORDS = new Set(['and', 'or', 'the', 'a', 'an', 'of', 'for', 'with', 'in', 'to', 'on']);
+
+const tokenize = (text: string): string[] =>
+    text.normalize('NFKC').toLowerCase().split(/[^\p{L}\p{N}+#]+/u).filter(token => token.length > 1 && !STOP_WORDS.has(token));
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+const scoreSkillMatch = (employee: AnalyzedEmployee, profile: JobProfile): number => {
+    const skills = new Set(employee.skills.map(normalizeSkillKey));
+    const fraction = (list: string[]) => list.filter(skill => skills.has(normalizeSkillKey(skill))).length / list.length;
+
+    if (profile.requiredSkills.length === 0 && profile.niceToHaveSkills.length === 0) {
+        return clamp(employee.skills.length * 10, 0, 100);
+    }
+    if (profile.requiredSkills.length === 0) {
+        return fraction(profile.niceToHaveSkills) * 100;
+    }
+    if (profile.niceToHaveSkills.length === 0) {
+        return fraction(profile.requiredSkills) * 100;
+    }
+    return fraction(profile.requiredSkills) * 80 + fraction(profile.niceToHaveSkills) * 20;
+};
+
+const scoreExperience = (employee: AnalyzedEmployee, profile: JobProfile): number => {
+    const years = Math.max(0, employee.experienceYears);
+    const minimum = profile.minExperienceYears;
+    if (minimum <= 0) {
+        return clamp(years * 10, 0, 100);
+    }
+    if (years < minimum) {
+        return (years / minimum) * 60;
+    }
+    return clamp(60 + (years - minimum) * 8, 0, 100);
+};
+
+const scoreSeniority = (employee: AnalyzedEmployee): number => {
+    const text = [employee.summary, employee.workHistory[0]?.title ?? ''].join(' ').toLowerCase();
+    const keyword = SENIORITY_KEYWORDS.find(({ pattern }) => pattern.test(text));
+    if (keyword) return keyword.score;
+
+    const years = employee.experienceYears;
+    if (years < 2) return 35;
+    if (years < 5) return 55;
+    if (years < 8) return 70;
+    return 80;
+};
+
+const scoreDomainFit = (employee: AnalyzedEmployee, profile: JobProfile): number => {
+    const profileTerms = new Set(tokenize([
+        profile.title,
+        ...profile.requiredSkills,
+        ...profile.niceToHaveSkills,
+        ...profile.criteria.map(criterion => criterion.name),
+    ].join(' ')));
+    if (profileTerms.size === 0) return 50;
+
+    const employeeTerms = new Set(tokenize([employee.summary, ...employee.skills].join(' ')));
+    const matched = [...profileTerms].filter(term => employeeTerms.has(term)).length;
+    return (matched / profileTerms.size) * 100;
+};
+
+const weightedScore = (subScores: Record<ScoreComponent, number>, weights: ScoringWeights): number => {
+    const components = Object.keys(subScores) as ScoreComponent[];
+    const totalWeight = components.reduce((sum, component) => sum + Math.max(0, weights[component]), 0);
+    if (totalWeight === 0) {
+        return components.reduce((sum, component) => sum + subScores[component], 0) / components.length;
+    }
+    return components.reduce((sum, component) => sum + subScores[component] * Math.max(0, weights[component]), 0) / totalWeight;
+};
+
+/**
+ * Computes the deterministic part of an employee's ranking. The same employee and
+ * profile always produce the same breakdown; only `llmAdjustment` is left at 0.
+ */
+export const computeScoreBreakdown = (employee: AnalyzedEmployee, profile: JobProfile): ScoreBreakdown => {
+    const subScores: Record<ScoreComponent, number> = {
+        skillMatch: Math.round(scoreSkillMatch(employee, profile)),
+        experience: Math.round(scoreExperience(employee, profile)),
+        seniority: Math.round(scoreSeniority(employee)),
+        domainFit: Math.round(scoreDomainFit(employee, profile)),
+    };
+    return {
+        ...subScores,
+        baseScore: Math.round(weightedScore(subScores, profile.scoringWeights)),
+        llmAdjustment: 0,
+    };
+};
+
+export const applyLlmAdjustment = (breakdown: ScoreBreakdown, adjustment: number): { rank: number; breakdown: ScoreBreakdown } => {
+    const llmAdjustment = Math.round(clamp(Number.isFinite(adjustment) ? adjustment : 0, -MAX_LLM_ADJUSTMENT, MAX_LLM_ADJUSTMENT));
+    return {
+        rank: clamp(breakdown.baseScore + llmAdjustment, 0, 100),
+        breakdown: { ...breakdown, llmAdjustment },
+    };
+};
@@ -0,0 +1,78 @@
+import type { LlmProviderId, LlmSettings } from '../types';
+
+const SETTINGS_KEY = 'ai-employee-sorter:llm-settings';
+const ACCESS_TOKEN_KEY = 'ai-employee-sorter:access-token';
+
+export const PROVIDER_LABELS: Record<LlmProviderId, string> = {
+    'gemini': 'Gemini',
+    'openai-compatible': 'OpenAI-compatible endpoint',
+    'mock': 'Offline demo (mock)',
+};
+
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+    provider: 'gemini',
+    models: {
+        'gemini': { fast: 'gemini-2.5-flash', reasoning: 'gemini-2.5-pro' },
+        'openai-compatible': { fast: 'llama3.1', reasoning: 'llama3.1' },
+        'mock': { fast: 'mock-fast', reasoning: 'mock-reasoning' },
+    },
+};
+
+/**
+ * Keeps only the provider choice and models. Settings stored by older versions also held
+ * the OpenAI-compatible endpoint and key, which now live on the API server.
+ */
+export const normalizeLlmSettings = (raw: unknown): LlmSettings => {
+    const parsed = (raw && typeof raw === 'object' ? raw : {}) as Partial<LlmSettings>;
+    return {
+        provider: parsed.provider && parsed.provider in PROVIDER_LABELS ? parsed.provider : DEFAULT_LLM_SETTINGS.provider,
+        models: { ...DEFAULT_LLM_SETTINGS.models, ...parsed.models },
+    };
+};
+
+let cachedSettings: LlmSettings | null = null;
+
+export const getLlmSettings = (): LlmSettings => {
+    if (cachedSettings) return cachedSettings;
+    try {
+        const stored = localStorage.getItem(SETTINGS_KEY);
+        if (stored) {
+            cachedSettings = normalizeLlmSettings(JSON.parse(stored));
+            // Rewritten so an API key stored by an older version does not linger in the browser.
+            localStorage.setItem(SETTINGS_KEY, JSON.stringify(cachedSettings));
+            return cachedSettings;
+        }
+    } catch (error) {
+        console.error("Error loading settings:", error);
+    }
+    cachedSettings = DEFAULT_LLM_SETTINGS;
+    return cachedSettings;
+};
+
+export const saveLlmSettings = (settings: LlmSettings): void => {
+    cachedSettings = settings;
+    try {
+        localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    } catch (error) {
+        console.error("Error saving settings:", error);
+    }
+};
+
+/** The API server's access token (its `API_TOKEN`), if it requires one. Kept per browser. */
+export const getAccessToken = (): string => {
+    try {
+        return localStorage.getItem(ACCESS_TOKEN_KEY) ?? '';
+    } catch (error) {
+        console.error("Error loading access token:", error);
+        return '';
+    }
+};
+
+export const saveAccessToken = (token: string): void => {
+    try {
+        if (token) localStorage.setItem(ACCESS_TOKEN_KEY, token);
+        else localStorage.removeItem(ACCESS_TOKEN_KEY);
+    } catch (error) {
+        console.error("Error saving access token:", error);
+    }
+};
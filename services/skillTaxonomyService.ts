@@ -0,0 +1,150 @@
+import type { AnalyzedEmployee, ProficiencyLevel, SkillCategory, SkillDefinition } from '../types';
+
+export const SKILL_CATEGORY_LABELS: Record<SkillCategory, string> = {
+    'language': 'Language',
+    'framework': 'Framework',
+    'tool': 'Tool',
+    'platform': 'Platform',
+    'soft-skill': 'Soft skill',
+    'domain': 'Domain',
+};
+
+export const PROFICIENCY_LEVELS: ProficiencyLevel[] = ['beginner', 'intermediate', 'advanced', 'expert'];
+
+const skill = (name: string, category: SkillCategory, aliases: string[] = []): SkillDefinition => ({
+    id: name.toLowerCase().replace(/[^a-z0-9+#]+/g, '-'),
+    name,
+    aliases,
+    category,
+});
+
+export const DEFAULT_SKILL_TAXONOMY: SkillDefinition[] = [
+    skill('JavaScript', 'language', ['JS', 'ES6', 'ECMAScript']),
+    skill('TypeScript', 'language', ['TS']),
+    skill('Python', 'language', ['Python3', 'Py']),
+    skill('Java', 'language'),
+    skill('Go', 'language', ['Golang']),
+    skill('C#', 'language', ['CSharp', 'C Sharp']),
+    skill('C++', 'language', ['CPP']),
+    skill('Kotlin', 'language'),
+    skill('Swift', 'language'),
+    skill('SQL', 'language'),
+    skill('T-SQL', 'language', ['Transact-SQL']),
+    skill('PL/SQL', 'language'),
+    skill('CSS', 'language', ['CSS3']),
+    skill('Sass', 'language', ['SCSS']),
+    skill('HTML', 'language', ['HTML5']),
+    skill('React', 'framework', ['React.js', 'ReactJS']),
+    skill('Angular', 'framework', ['AngularJS']),
+    skill('Vue', 'framework', ['Vue.js', 'VueJS']),
+    skill('Node.js', 'framework', ['Node', 'NodeJS']),
+    skill('Django', 'framework'),
+    skill('Spring', 'framework', ['Spring Framework']),
+    skill('Spring Boot', 'framework'),
+    skill('REST APIs', 'framework', ['REST', 'RESTful APIs', 'RESTful']),
+    skill('Git', 'tool'),
+    skill('GitHub', 'tool'),
+    skill('GitLab', 'tool'),
+    skill('Docker', 'tool'),
+    skill('Terraform', 'tool'),
+    skill('Jira', 'tool'),
+    skill('Tableau', 'tool'),
+    skill('PostgreSQL', 'tool', ['Postgres']),
+    skill('Kubernetes', 'platform', ['K8s']),
+    skill('AWS', 'platform', ['Amazon Web Services']),
+    skill('Azure', 'platform', ['Microsoft Azure']),
+    skill('Google Cloud', 'platform', ['GCP', 'Google Cloud Platform']),
+    skill('Firebase', 'platform'),
+    skill('Communication', 'soft-skill', ['Communication Skills']),
+    skill('Leadership', 'soft-skill', ['Team Leadership']),
+    skill('Mentoring', 'soft-skill'),
+    skill('Coaching', 'soft-skill'),
+    skill('Stakeholder Management', 'soft-skill'),
+    skill('Problem Solving', 'soft-skill'),
+    // "PM" is left unmapped: it stands for project and product management alike.
+    skill('Project Management', 'domain'),
+    skill('Product Management', 'domain'),
+    skill('Agile', 'domain', ['Agile Methodologies']),
+    skill('Scrum', 'domain'),
+    skill('Statistics', 'domain'),
+    skill('Machine Learning', 'domain', ['ML']),
+    skill('Quality Assurance', 'domain', ['QA']),
+    skill('Manual Testing', 'domain'),
+    skill('Test Automation', 'domain', ['Automated Testing']),
+];
+
+/**
+ * Lowercases and strips qualifiers such as "(ES6)" and punctuation so spelling variants compare equal.
+ * Letters and digits of any script are kept, so skills written in other alphabets keep a key.
+ */
+export const normalizeSkillKey = (value: string): string =>
+    value.normalize('NFKC').toLowerCase().replace(/\(.*?\)/g, '').replace(/[^\p{L}\p{N}+#]/gu, '');
+
+export type SkillIndex = Map<string, SkillDefinition>;
+
+export const buildSkillIndex = (taxonomy: SkillDefinition[]): SkillIndex => {
+    const index: SkillIndex = new Map();
+    for (const definition of taxonomy) {
+        for (const name of [definition.name, ...definition.aliases]) {
+            const key = normalizeSkillKey(name);
+            if (key && !index.has(key)) index.set(key, definition);
+        }
+    }
+    return index;
+};
+
+export const findSkill = (skillName: string, index: SkillIndex): SkillDefinition | undefined =>
+    index.get(normalizeSkillKey(skillName));
+
+export const canonicalizeSkills = (skills: string[], index: SkillIndex): string[] => {
+    const seen = new Set<string>();
+    const result: string[] = [];
+    for (const raw of skills) {
+        const name = findSkill(raw, index)?.name ?? raw.trim();
+        const key = normalizeSkillKey(name);
+        if (!key || seen.has(key)) continue;
+        seen.add(key);
+        result.push(name);
+    }
+    return result;
+};
+
+const canonicalSkillFields = (
+    { skills, skillLevels }: Pick<AnalyzedEmployee, 'skills' | 'skillLevels'>,
+    index: SkillIndex,
+): Pick<AnalyzedEmployee, 'skills' | 'skillLevels'> => {
+    const canonicalLevels: Record<string, ProficiencyLevel> = {};
+    for (const [raw, level] of Object.entries(skillLevels)) {
+        const name = findSkill(raw, index)?.name ?? raw;
+        canonicalLevels[name] = level;
+    }
+    return { skills: canonicalizeSkills(skills, index), skillLevels: canonicalLevels };
+};
+
+/**
+ * Rewrites an employee's skills (and their proficiency keys) to canonical taxonomy names.
+ * Extracted values are rewritten too, so they stay comparable with the current ones.
+ */
+export const normalizeEmployeeSkills = <T extends AnalyzedEmployee>(employee: T, index: SkillIndex): T => ({
+    ...employee,
+    ...canonicalSkillFields(employee, index),
+    provenance: employee.provenance && {
+        ...employee.provenance,
+        extracted: { ...employee.provenance.extracted, ...canonicalSkillFields(employee.provenance.extracted, index) },
+    },
+});
+
+/** Skills held by at least one employee that the taxonomy does not recognize, with holder counts. */
+export const findUnrecognizedSkills = (employees: AnalyzedEmployee[], index: SkillIndex): { name: string; count: number }[] => {
+    const counts = new Map<string, number>();
+    for (const employee of employees) {
+        for (const skillName of employee.skills) {
+            if (!findSkill(skillName, index)) {
+                counts.set(skillName, (counts.get(skillName) ?? 0) + 1);
+            }
+        }
+    }
+    return [...counts.entries()]
+        .map(([name, count]) => ({ name, count }))
+        .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+};
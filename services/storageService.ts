@@ -0,0 +1,301 @@
+import type { JobProfile, RankedEmployee, TaskAssignment, Workspace } from '../types';
+import { API_ROUTES, FILE_NAME_HEADER, type ResumeFileList, type SaveWorkspaceBody, type SaveWorkspaceResponse, type StoredWorkspace, type WorkspaceRevisionResponse } from './apiContract';
+import { apiRequest, assertOk, jsonRequest } from './apiClient';
+import { applyTemplateDefaults, todayIsoDate } from './dailyPlanService';
+import { downloadFile, fileDateStamp } from './downloadService';
+import { applyEmployeeDefaults } from './employeeService';
+import { DEFAULT_REDACTION_POLICY } from './redactionService';
+import { DEFAULT_SCORING_WEIGHTS } from './scoringService';
+import { DEFAULT_SKILL_TAXONOMY } from './skillTaxonomyService';
+import { applyTaskDefaults, createTask } from './taskAssignmentService';
+import { DEFAULT_FAIRNESS_WINDOW_DAYS } from './workloadFairnessService';
+import { mergeWorkspaces, sameWorkspace } from './workspaceSyncService';
+
+// Before the API server, the workspace and resume files were kept in this browser database.
+// They are moved to the server the first time the app finds it empty.
+const DB_NAME = 'ai-employee-sorter';
+const DB_VERSION = 2;
+const WORKSPACE_STORE = 'workspace';
+const RESUME_STORE = 'resumes';
+const CURRENT_WORKSPACE_KEY = 'current';
+
+export const WORKSPACE_VERSION = 13;
+
+export const DEFAULT_JOB_PROFILE: JobProfile = {
+    id: 'general',
+    title: 'General Contributor',
+    requiredSkills: [],
+    niceToHaveSkills: [],
+    minExperienceYears: 0,
+    criteria: [],
+    scoringWeights: DEFAULT_SCORING_WEIGHTS,
+};
+
+export const createEmptyWorkspace = (): Workspace => ({
+    version: WORKSPACE_VERSION,
+    employees: [],
+    jobProfiles: [DEFAULT_JOB_PROFILE],
+    activeProfileId: DEFAULT_JOB_PROFILE.id,
+    rankings: {},
+    rankingHistory: [],
+    blindRanking: false,
+    redactionPolicy: DEFAULT_REDACTION_POLICY,
+    redactionLogs: [],
+    planDate: todayIsoDate(),
+    tasks: [],
+    assignments: [],
+    taskTemplates: [],
+    planHistory: [],
+    fairnessWindowDays: DEFAULT_FAIRNESS_WINDOW_DAYS,
+    invalidations: [],
+    skillTaxonomy: DEFAULT_SKILL_TAXONOMY,
+    dismissedDuplicates: [],
+});
+
+// Version 1 kept a single profile-less ranking; it becomes the default profile's ranking.
+interface LegacyWorkspaceFields {
+    rankedEmployees?: RankedEmployee[];
+}
+
+// Before version 6 an assignment listed task titles instead of Task ids.
+type LegacyTaskAssignment = Partial<TaskAssignment> & { employeeId: string; tasks?: string[] };
+
+// Fills in anything missing from older or hand-edited workspaces so callers can rely on every field.
+export const normalizeWorkspace = (raw: unknown): Workspace => {
+    if (!raw || typeof raw !== 'object') {
+        throw new Error("The workspace file is not valid JSON workspace data.");
+    }
+    const { rankedEmployees, ...data } = raw as Partial<Workspace> & LegacyWorkspaceFields;
+    if (data.employees !== undefined && !Array.isArray(data.employees)) {
+        throw new Error("The workspace file has an invalid employee list.");
+    }
+    const jobProfiles = Array.isArray(data.jobProfiles) && data.jobProfiles.length > 0
+        ? data.jobProfiles.map(profile => ({ ...profile, scoringWeights: profile.scoringWeights ?? DEFAULT_SCORING_WEIGHTS }))
+        : [DEFAULT_JOB_PROFILE];
+    const activeProfileId = jobProfiles.some(profile => profile.id === data.activeProfileId)
+        ? data.activeProfileId!
+        : jobProfiles[0].id;
+    const rankings = data.rankings && typeof data.rankings === 'object' ? { ...data.rankings } : {};
+    if (Array.isArray(rankedEmployees) && rankedEmployees.length > 0 && !rankings[DEFAULT_JOB_PROFILE.id]) {
+        rankings[DEFAULT_JOB_PROFILE.id] = rankedEmployees;
+    }
+    // Rankings from before version 3 have no score breakdown and must be re-run.
+    for (const [profileId, ranked] of Object.entries(rankings)) {
+        if (!Array.isArray(ranked) || ranked.some(emp => !emp.breakdown)) {
+            delete rankings[profileId];
+        } else {
+            rankings[profileId] = ranked.map(applyEmployeeDefaults);
+        }
+    }
+    const tasks = Array.isArray(data.tasks) ? data.tasks.map(applyTaskDefaults) : [];
+    const assignments = (Array.isArray(data.assignments) ? data.assignments as LegacyTaskAssignment[] : []).map(({ employeeId, taskIds, pinnedTaskIds, tasks: titles }) => {
+        const pins = Array.isArray(pinnedTaskIds) ? pinnedTaskIds : [];
+        if (Array.isArray(taskIds)) return { employeeId, taskIds, pinnedTaskIds: pins };
+        const migrated = (titles ?? []).map(createTask);
+        tasks.push(...migrated);
+        return { employeeId, taskIds: migrated.map(task => task.id), pinnedTaskIds: pins };
+    });
+    return {
+        ...createEmptyWorkspace(),
+        ...data,
+        version: WORKSPACE_VERSION,
+        employees: (data.employees ?? []).map(applyEmployeeDefaults),
+        jobProfiles,
+        activeProfileId,
+        rankings,
+        rankingHistory: Array.isArray(data.rankingHistory) ? data.rankingHistory : [],
+        blindRanking: data.blindRanking === true,
+        redactionPolicy: data.redactionPolicy && typeof data.redactionPolicy === 'object'
+            ? { ...DEFAULT_REDACTION_POLICY, ...data.redactionPolicy, kinds: { ...DEFAULT_REDACTION_POLICY.kinds, ...data.redactionPolicy.kinds } }
+            : DEFAULT_REDACTION_POLICY,
+        redactionLogs: Array.isArray(data.redactionLogs) ? data.redactionLogs : [],
+        planDate: typeof data.planDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(data.planDate) ? data.planDate : todayIsoDate(),
+        tasks,
+        assignments,
+        taskTemplates: Array.isArray(data.taskTemplates) ? data.taskTemplates.map(applyTemplateDefaults) : [],
+        planHistory: Array.isArray(data.planHistory) ? data.planHistory : [],
+        fairnessWindowDays: Number.isInteger(data.fairnessWindowDays) && data.fairnessWindowDays! > 0 ? data.fairnessWindowDays! : DEFAULT_FAIRNESS_WINDOW_DAYS,
+        invalidations: Array.isArray(data.invalidations) ? data.invalidations : [],
+        skillTaxonomy: Array.isArray(data.skillTaxonomy) ? data.skillTaxonomy : DEFAULT_SKILL_TAXONOMY,
+        dismissedDuplicates: Array.isArray(data.dismissedDuplicates) ? data.dismissedDuplicates : [],
+    };
+};
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+    if (!window.indexedDB) {
+        return reject(new Error("This browser does not support IndexedDB, so the workspace cannot be saved."));
+    }
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const storeName of [WORKSPACE_STORE, RESUME_STORE]) {
+            if (!db.objectStoreNames.contains(storeName)) {
+                db.createObjectStore(storeName);
+            }
+        }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("Failed to open the workspace database."));
+});
+
+const runTransaction = async <T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+    const db = await openDatabase();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const transaction = db.transaction(storeName, mode);
+            const request = operation(transaction.objectStore(storeName));
+            transaction.oncomplete = () => resolve(request.result);
+            transaction.onerror = () => reject(transaction.error ?? new Error("Workspace database transaction failed."));
+            transaction.onabort = () => reject(transaction.error ?? new Error("Workspace database transaction was aborted."));
+        });
+    } finally {
+        db.close();
+    }
+};
+
+/** The server's copy moved on since this one was loaded; pull it before saving again. */
+export class WorkspaceOutdatedError extends Error {
+    constructor() {
+        super("Someone else saved the shared workspace in the meantime.");
+        this.name = 'WorkspaceOutdatedError';
+    }
+}
+
+/** This copy and the server's changed the same entries, so they cannot be merged. */
+export class WorkspaceConflictError extends Error {
+    constructor(readonly conflicts: string[]) {
+        super(`Someone else changed ${conflicts.join(', ')} while you did, so your changes could not be saved. Reload to continue with their version.`);
+        this.name = 'WorkspaceConflictError';
+    }
+}
+
+// The server revision the app's copy is based on, the workspace as saved at that revision,
+// and the request in flight. Requests go out one at a time so each builds on the revision
+// the previous one produced.
+let workspaceRevision = 0;
+let syncedWorkspace: Workspace | null = null;
+let pendingSync: Promise<unknown> = Promise.resolve();
+
+const enqueue = <T>(operation: () => Promise<T>): Promise<T> => {
+    const next = pendingSync.catch(() => undefined).then(operation);
+    pendingSync = next;
+    return next;
+};
+
+const fetchWorkspace = async (): Promise<StoredWorkspace> => {
+    const response = await apiRequest(API_ROUTES.workspace);
+    await assertOk(response, "Failed to load the shared workspace");
+    return response.json();
+};
+
+export const loadWorkspace = async (): Promise<Workspace> => {
+    const stored = await fetchWorkspace();
+    workspaceRevision = stored.revision;
+    syncedWorkspace = stored.workspace && normalizeWorkspace(stored.workspace);
+    return syncedWorkspace ?? (await migrateBrowserWorkspace()) ?? createEmptyWorkspace();
+};
+
+/** Saves unless nothing changed since the last sync. Throws `WorkspaceOutdatedError` when someone saved since. */
+export const saveWorkspace = (workspace: Workspace): Promise<void> => enqueue(async () => {
+    if (syncedWorkspace && sameWorkspace(workspace, syncedWorkspace)) return;
+    const body: SaveWorkspaceBody = { baseRevision: workspaceRevision, workspace };
+    const response = await apiRequest(API_ROUTES.workspace, jsonRequest('PUT', body));
+    if (response.status === 409) throw new WorkspaceOutdatedError();
+    await assertOk(response, "Failed to save the shared workspace");
+    workspaceRevision = (await response.json() as SaveWorkspaceResponse).revision;
+    syncedWorkspace = workspace;
+});
+
+/**
+ * Fetches what others saved since the last sync and merges it with this copy, read
+ * through `getLocal` once the server answered so no newer edit is missed. Resolves to
+ * the merged workspace, or null when the server has nothing new. Throws
+ * `WorkspaceConflictError` when both sides changed the same entries.
+ */
+export const pullWorkspace = (getLocal: () => Workspace): Promise<Workspace | null> => enqueue(async () => {
+    const response = await apiRequest(API_ROUTES.workspaceRevision);
+    await assertOk(response, "Failed to check the shared workspace for changes");
+    if ((await response.json() as WorkspaceRevisionResponse).revision === workspaceRevision) return null;
+    const stored = await fetchWorkspace();
+    const remote = stored.workspace ? normalizeWorkspace(stored.workspace) : createEmptyWorkspace();
+    const { workspace, conflicts } = mergeWorkspaces(syncedWorkspace ?? createEmptyWorkspace(), getLocal(), remote);
+    if (conflicts.length > 0) throw new WorkspaceConflictError(conflicts);
+    workspaceRevision = stored.revision;
+    syncedWorkspace = remote;
+    // The merged active profile may be one the other side removed.
+    return normalizeWorkspace(workspace);
+});
+
+// Original resume files keyed by employee id, kept on the server so a resume can be
+// re-analyzed. They are not part of workspace exports.
+const resumeFilePath = (employeeId: string) => `${API_ROUTES.resumeFiles}/${encodeURIComponent(employeeId)}`;
+
+export const saveResumeFile = async (employeeId: string, file: File): Promise<void> => {
+    const response = await apiRequest(resumeFilePath(employeeId), {
+        method: 'PUT',
+        headers: { 'Content-Type': file.type || 'application/octet-stream', [FILE_NAME_HEADER]: encodeURIComponent(file.name) },
+        body: file,
+    });
+    await assertOk(response, "Failed to store the resume file");
+};
+
+export const loadResumeFile = async (employeeId: string): Promise<File | null> => {
+    const response = await apiRequest(resumeFilePath(employeeId));
+    if (response.status === 404) return null;
+    await assertOk(response, "Failed to load the resume file");
+    const name = response.headers.get(FILE_NAME_HEADER);
+    return new File([await response.blob()], name ? decodeURIComponent(name) : employeeId, { type: response.headers.get('Content-Type') ?? '' });
+};
+
+export const listResumeFileIds = async (): Promise<string[]> => {
+    const response = await apiRequest(API_ROUTES.resumeFiles);
+    await assertOk(response, "Failed to list the stored resume files");
+    return (await response.json() as ResumeFileList).ids;
+};
+
+export const deleteResumeFiles = async (employeeIds: string[]): Promise<void> => {
+    await Promise.all(employeeIds.map(async id => {
+        const response = await apiRequest(resumeFilePath(id), { method: 'DELETE' });
+        await assertOk(response, "Failed to delete the resume file");
+    }));
+};
+
+/**
+ * Uploads the workspace and resume files this browser saved before there was a server,
+ * then deletes the local copy. Resolves to null when there was nothing to move.
+ */
+const migrateBrowserWorkspace = async (): Promise<Workspace | null> => {
+    if (!window.indexedDB) return null;
+    const stored = await runTransaction<unknown>(WORKSPACE_STORE, 'readonly', store => store.get(CURRENT_WORKSPACE_KEY));
+    let workspace: Workspace | null = null;
+    if (stored) {
+        workspace = normalizeWorkspace(stored);
+        const ids = (await runTransaction(RESUME_STORE, 'readonly', store => store.getAllKeys())).map(String);
+        for (const id of ids) {
+            const file = await runTransaction<File | undefined>(RESUME_STORE, 'readonly', store => store.get(id));
+            if (file) await saveResumeFile(id, file);
+        }
+        await saveWorkspace(workspace);
+    }
+    window.indexedDB.deleteDatabase(DB_NAME);
+    return workspace;
+};
+
+export const exportWorkspace = (workspace: Workspace): void => {
+    downloadFile(JSON.stringify(workspace, null, 2), `workspace-${fileDateStamp()}.json`, 'application/json');
+};
+
+export const importWorkspace = async (file: File): Promise<Workspace> => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(await file.text());
+    } catch (error) {
+        console.error("Error parsing workspace file:", error);
+        throw new Error("The selected file is not valid JSON.");
+    }
+    return normalizeWorkspace(parsed);
+};
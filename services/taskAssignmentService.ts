@@ -0,0 +1,350 @@
+import type { AnalyzedEmployee, AssignmentIssue, ProficiencyLevel, RankedEmployee, Task, TaskAssignment, TaskPriority } from '../types';
+import { normalizeSkillKey } from './skillTaxonomyService';
+import type { FairnessAdjustment } from './workloadFairnessService';
+
+export const TASK_PRIORITIES: TaskPriority[] = ['critical', 'high', 'medium', 'low'];
+
+export const TASK_PRIORITY_LABELS: Record<TaskPriority, string> = {
+    critical: 'Critical',
+    high: 'High',
+    medium: 'Medium',
+    low: 'Low',
+};
+
+export const DEFAULT_TASK_EFFORT_HOURS = 1;
+
+// Each person works through their tasks back to back, this many hours per working day,
+// starting today. Deadlines are checked against the day a task would finish.
+export const WORKDAY_HOURS = 8;
+
+const LEVEL_WEIGHTS: Record<ProficiencyLevel, number> = {
+    beginner: 0.25,
+    intermediate: 0.5,
+    advanced: 0.75,
+    expert: 1,
+};
+
+export const createTask = (title: string): Task => ({
+    id: crypto.randomUUID(),
+    title: title.trim(),
+    effortHours: DEFAULT_TASK_EFFORT_HOURS,
+    requiredSkills: [],
+    priority: 'medium',
+    deadline: '',
+    dependencies: [],
+    undesirable: false,
+});
+
+/** Fills fields an older or hand-edited workspace may lack. */
+export const applyTaskDefaults = (task: Partial<Task>): Task => ({
+    id: task.id ?? crypto.randomUUID(),
+    title: task.title ?? '',
+    effortHours: Number.isFinite(task.effortHours) && task.effortHours! > 0 ? task.effortHours! : DEFAULT_TASK_EFFORT_HOURS,
+    requiredSkills: Array.isArray(task.requiredSkills) ? task.requiredSkills : [],
+    priority: task.priority && TASK_PRIORITIES.includes(task.priority) ? task.priority : 'medium',
+    deadline: task.deadline ?? '',
+    dependencies: Array.isArray(task.dependencies) ? task.dependencies : [],
+    undesirable: task.undesirable === true,
+});
+
+const compareUrgency = (a: Task, b: Task): number =>
+    (TASK_PRIORITIES.indexOf(a.priority) - TASK_PRIORITIES.indexOf(b.priority))
+    || ((a.deadline || '9999').localeCompare(b.deadline || '9999'))
+    || (b.effortHours - a.effortHours)
+    || a.title.localeCompare(b.title);
+
+/** Orders tasks so each follows its dependencies, most urgent first. Dependency cycles are broken by urgency. */
+export const orderTasks = (tasks: Task[]): Task[] => {
+    const pending = [...tasks].sort(compareUrgency);
+    const known = new Set(tasks.map(task => task.id));
+    const placed = new Set<string>();
+    const ordered: Task[] = [];
+    while (pending.length > 0) {
+        const readyIndex = pending.findIndex(task => task.dependencies.every(dep => placed.has(dep) || !known.has(dep)));
+        const [next] = pending.splice(Math.max(readyIndex, 0), 1);
+        placed.add(next.id);
+        ordered.push(next);
+    }
+    return ordered;
+};
+
+export const toIsoDate = (date: Date): string =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/** Local midnight of an ISO date; `new Date(iso)` would read it as UTC. */
+export const fromIsoDate = (isoDate: string): Date => {
+    const [year, month, day] = isoDate.split('-').map(Number);
+    return new Date(year, month - 1, day);
+};
+
+/** The calendar day on which work finishing `finishHours` into the plan is done. */
+export const completionDate = (finishHours: number, start: Date = new Date()): string => {
+    const date = new Date(start);
+    date.setDate(date.getDate() + Math.max(0, Math.ceil(finishHours / WORKDAY_HOURS) - 1));
+    return toIsoDate(date);
+};
+
+const missesDeadline = (task: Task, finishHours: number, start: Date): boolean =>
+    Boolean(task.deadline) && completionDate(finishHours, start) > task.deadline;
+
+const skillLevelsByKey = (employee: AnalyzedEmployee): Map<string, number> => new Map(
+    employee.skills.map(skill => [normalizeSkillKey(skill), LEVEL_WEIGHTS[employee.skillLevels[skill] ?? 'intermediate']]),
+);
+
+/** Required skills of the task that the employee does not list. */
+export const missingSkills = (task: Task, employee: AnalyzedEmployee): string[] => {
+    const held = skillLevelsByKey(employee);
+    return task.requiredSkills.filter(skill => !held.has(normalizeSkillKey(skill)));
+};
+
+// Penalties for people above the team's recent average. They are small next to skill
+// coverage, so fairness decides between comparably suited people rather than overriding skills.
+const FAIRNESS_EFFORT_WEIGHT = 10;
+const FAIRNESS_UNDESIRABLE_WEIGHT = 30;
+// Per undesirable task someone already has in this plan.
+const UNDESIRABLE_IN_PLAN_WEIGHT = 15;
+
+interface Candidate {
+    employeeId: string;
+    score: number;
+    finish: number;
+}
+
+/**
+ * Greedy assignment that respects capacity and dependencies. Tasks are placed in
+ * dependency-then-urgency order, each with the person who covers its skills best,
+ * preferring lighter workloads, higher ranks and finishing before the deadline.
+ * `fairness` steers work, undesirable work especially, away from whoever carried more
+ * than their share recently. Pinned tasks stay with their current owner, whether or not
+ * that person is in `employees`, and count against that person's capacity.
+ * Tasks that fit nobody's remaining capacity, or whose dependencies could not be
+ * placed, are left out; `validateAssignments` reports them.
+ */
+export const assignTasks = (
+    tasks: Task[],
+    employees: RankedEmployee[],
+    pinned: TaskAssignment[] = [],
+    fairness: Map<string, FairnessAdjustment> = new Map(),
+    start: Date = new Date(),
+): TaskAssignment[] => {
+    const skillLevels = new Map(employees.map(emp => [emp.id, skillLevelsByKey(emp)]));
+    // Hours of work taken on, and the point in the plan where each person's last task ends.
+    const hours = new Map(employees.map(emp => [emp.id, 0]));
+    const load = new Map(employees.map(emp => [emp.id, 0]));
+    const undesirableCounts = new Map(employees.map(emp => [emp.id, 0]));
+    const taskIds = new Map<string, string[]>(employees.map(emp => [emp.id, []]));
+    const finishes = new Map<string, number>();
+    const known = new Set(tasks.map(task => task.id));
+    const pinnedOwner = new Map<string, string>();
+    for (const assignment of pinned) {
+        // Someone added after the last ranking keeps what was pinned on them but is offered nothing else.
+        if (!taskIds.has(assignment.employeeId)) {
+            hours.set(assignment.employeeId, 0);
+            load.set(assignment.employeeId, 0);
+            undesirableCounts.set(assignment.employeeId, 0);
+            taskIds.set(assignment.employeeId, []);
+        }
+        for (const taskId of assignment.pinnedTaskIds) pinnedOwner.set(taskId, assignment.employeeId);
+    }
+
+    for (const task of orderTasks(tasks)) {
+        const owner = pinnedOwner.get(task.id);
+        if (owner) {
+            const ready = Math.max(0, ...task.dependencies.map(dep => finishes.get(dep) ?? 0));
+            const finish = Math.max(load.get(owner)!, ready) + task.effortHours;
+            hours.set(owner, hours.get(owner)! + task.effortHours);
+            if (task.undesirable) undesirableCounts.set(owner, undesirableCounts.get(owner)! + 1);
+            load.set(owner, finish);
+            finishes.set(task.id, finish);
+            taskIds.get(owner)!.push(task.id);
+            continue;
+        }
+        const dependencies = task.dependencies.filter(dep => known.has(dep));
+        if (dependencies.some(dep => !finishes.has(dep))) continue;
+        const ready = Math.max(0, ...dependencies.map(dep => finishes.get(dep)!));
+        const required = task.requiredSkills.map(normalizeSkillKey);
+
+        let best: Candidate | null = null;
+        for (const employee of employees) {
+            const used = hours.get(employee.id)!;
+            if (used + task.effortHours > employee.capacityHours) continue;
+
+            const levels = required.map(skill => skillLevels.get(employee.id)!.get(skill)).filter((level): level is number => level !== undefined);
+            const coverage = required.length === 0 ? 1 : levels.length / required.length;
+            const proficiency = levels.length === 0 ? 0 : levels.reduce((sum, level) => sum + level, 0) / levels.length;
+            const finish = Math.max(load.get(employee.id)!, ready) + task.effortHours;
+            const recent = fairness.get(employee.id);
+            const undesirablePenalty = task.undesirable
+                ? (recent?.undesirable ?? 0) * FAIRNESS_UNDESIRABLE_WEIGHT + undesirableCounts.get(employee.id)! * UNDESIRABLE_IN_PLAN_WEIGHT
+                : 0;
+            const score = coverage * 100
+                + proficiency * 10
+                + employee.rank / 10
+                - ((used + task.effortHours) / employee.capacityHours) * 25
+                - (missesDeadline(task, finish, start) ? 40 : 0)
+                - (recent?.effort ?? 0) * FAIRNESS_EFFORT_WEIGHT
+                - undesirablePenalty;
+
+            if (!best || score > best.score) {
+                best = { employeeId: employee.id, score, finish };
+            }
+        }
+        if (!best) continue;
+        hours.set(best.employeeId, hours.get(best.employeeId)! + task.effortHours);
+        if (task.undesirable) undesirableCounts.set(best.employeeId, undesirableCounts.get(best.employeeId)! + 1);
+        load.set(best.employeeId, best.finish);
+        finishes.set(task.id, best.finish);
+        taskIds.get(best.employeeId)!.push(task.id);
+    }
+
+    return [...taskIds.entries()]
+        .filter(([, assigned]) => assigned.length > 0)
+        .map(([employeeId, assigned]) => ({
+            employeeId,
+            taskIds: assigned,
+            pinnedTaskIds: assigned.filter(id => pinnedOwner.get(id) === employeeId),
+        }));
+};
+
+export interface AssignmentValidation {
+    // Only known employees and tasks, each task at most once, in scheduled order.
+    assignments: TaskAssignment[];
+    issues: AssignmentIssue[];
+}
+
+/**
+ * Checks a set of assignments against the task list and roster: unknown task or
+ * employee ids and duplicate tasks are dropped and reported, and the cleaned plan is
+ * scheduled to report unassigned, blocked, over-capacity, late and under-skilled work.
+ */
+export const validateAssignments = (
+    assignments: TaskAssignment[],
+    tasks: Task[],
+    employees: AnalyzedEmployee[],
+    start: Date = new Date(),
+): AssignmentValidation => {
+    const issues: AssignmentIssue[] = [];
+    const tasksById = new Map(tasks.map(task => [task.id, task]));
+    const employeesById = new Map(employees.map(emp => [emp.id, emp]));
+    const owner = new Map<string, string>();
+    const pins = new Set<string>();
+
+    for (const assignment of assignments) {
+        const employee = employeesById.get(assignment.employeeId);
+        if (!employee) {
+            issues.push({ kind: 'unknown-employee', employeeId: assignment.employeeId, message: `Ignored tasks for unknown employee "${assignment.employeeId}".` });
+            continue;
+        }
+        for (const taskId of assignment.taskIds) {
+            const task = tasksById.get(taskId);
+            if (!task) {
+                issues.push({ kind: 'unknown-task', taskId, employeeId: employee.id, message: `Ignored unknown task "${taskId}" given to ${employee.name}.` });
+            } else if (owner.has(taskId)) {
+                issues.push({ kind: 'duplicated', taskId, employeeId: employee.id, message: `"${task.title}" was assigned more than once; kept the first assignment.` });
+            } else {
+                owner.set(taskId, employee.id);
+                if (assignment.pinnedTaskIds.includes(taskId)) pins.add(taskId);
+            }
+        }
+    }
+
+    const load = new Map<string, number>();
+    const finishes = new Map<string, number>();
+    const scheduled = new Map<string, string[]>();
+    for (const task of orderTasks(tasks)) {
+        const unmet = task.dependencies
+            .filter(dep => tasksById.has(dep) && !owner.has(dep))
+            .map(dep => tasksById.get(dep)!.title);
+        const employeeId = owner.get(task.id);
+        if (!employeeId) {
+            issues.push({
+                kind: 'unassigned',
+                taskId: task.id,
+                message: unmet.length > 0
+                    ? `"${task.title}" is unassigned; it waits on ${unmet.map(title => `"${title}"`).join(', ')}.`
+                    : `"${task.title}" is unassigned; nobody has ${task.effortHours}h of capacity left.`,
+            });
+            continue;
+        }
+        const employee = employeesById.get(employeeId)!;
+        if (unmet.length > 0) {
+            issues.push({ kind: 'blocked', taskId: task.id, employeeId, message: `"${task.title}" depends on unassigned ${unmet.map(title => `"${title}"`).join(', ')}.` });
+        }
+        const ready = Math.max(0, ...task.dependencies.map(dep => finishes.get(dep) ?? 0));
+        const finish = Math.max(load.get(employeeId) ?? 0, ready) + task.effortHours;
+        load.set(employeeId, finish);
+        finishes.set(task.id, finish);
+        scheduled.set(employeeId, [...(scheduled.get(employeeId) ?? []), task.id]);
+
+        if (missesDeadline(task, finish, start)) {
+            issues.push({ kind: 'missed-deadline', taskId: task.id, employeeId, message: `"${task.title}" would finish on ${completionDate(finish, start)}, after its ${task.deadline} deadline.` });
+        }
+        const gaps = missingSkills(task, employee);
+        if (gaps.length > 0) {
+            issues.push({ kind: 'skill-gap', taskId: task.id, employeeId, message: `${employee.name} lacks ${gaps.join(', ')} for "${task.title}".` });
+        }
+    }
+
+    for (const [employeeId, taskIds] of scheduled) {
+        const employee = employeesById.get(employeeId)!;
+        const hours = taskIds.reduce((sum, id) => sum + tasksById.get(id)!.effortHours, 0);
+        if (hours > employee.capacityHours) {
+            issues.push({ kind: 'over-capacity', employeeId, message: `${employee.name} has ${hours}h of work for ${employee.capacityHours}h of capacity.` });
+        }
+    }
+
+    return {
+        assignments: [...scheduled.entries()].map(([employeeId, taskIds]) => ({
+            employeeId,
+            taskIds,
+            pinnedTaskIds: taskIds.filter(id => pins.has(id)),
+        })),
+        issues,
+    };
+};
+
+/** Total effort assigned to one person. */
+export const assignedHours = (assignment: TaskAssignment, tasks: Task[]): number => {
+    const tasksById = new Map(tasks.map(task => [task.id, task]));
+    return assignment.taskIds.reduce((sum, id) => sum + (tasksById.get(id)?.effortHours ?? 0), 0);
+};
+
+/** Moves a task to `employeeId` and pins it there, or back to the unassigned pool when `employeeId` is null. */
+export const moveTask = (assignments: TaskAssignment[], taskId: string, employeeId: string | null): TaskAssignment[] => {
+    const detached = assignments.map(assignment => ({
+        ...assignment,
+        taskIds: assignment.taskIds.filter(id => id !== taskId),
+        pinnedTaskIds: assignment.pinnedTaskIds.filter(id => id !== taskId),
+    }));
+    if (employeeId && !detached.some(assignment => assignment.employeeId === employeeId)) {
+        detached.push({ employeeId, taskIds: [], pinnedTaskIds: [] });
+    }
+    return detached
+        .map(assignment => assignment.employeeId === employeeId
+            ? { ...assignment, taskIds: [...assignment.taskIds, taskId], pinnedTaskIds: [...assignment.pinnedTaskIds, taskId] }
+            : assignment)
+        .filter(assignment => assignment.taskIds.length > 0);
+};
+
+/** Hands everything assigned to `fromId` over to `toId`, after anything `toId` already has. */
+export const reassignAll = (assignments: TaskAssignment[], fromId: string, toId: string): TaskAssignment[] => {
+    const from = assignments.find(assignment => assignment.employeeId === fromId);
+    if (!from) return assignments;
+    const rest = assignments.filter(assignment => assignment !== from);
+    if (!rest.some(assignment => assignment.employeeId === toId)) {
+        return [...rest, { ...from, employeeId: toId }];
+    }
+    return rest.map(assignment => assignment.employeeId !== toId ? assignment : {
+        ...assignment,
+        taskIds: [...assignment.taskIds, ...from.taskIds],
+        pinnedTaskIds: [...assignment.pinnedTaskIds, ...from.pinnedTaskIds],
+    });
+};
+
+export const togglePin = (assignments: TaskAssignment[], taskId: string): TaskAssignment[] =>
+    assignments.map(assignment => !assignment.taskIds.includes(taskId) ? assignment : {
+        ...assignment,
+        pinnedTaskIds: assignment.pinnedTaskIds.includes(taskId)
+            ? assignment.pinnedTaskIds.filter(id => id !== taskId)
+            : [...assignment.pinnedTaskIds, taskId],
+    });
@@ -0,0 +1,114 @@
+import type { AnalyzedEmployee, JobProfile, ProficiencyLevel, SkillCategory, Task } from '../types';
+import { findSkill, normalizeSkillKey, PROFICIENCY_LEVELS, type SkillIndex } from './skillTaxonomyService';
+
+// Skills listed without a proficiency estimate, e.g. from resumes analyzed before levels were extracted.
+export type CoverageLevel = ProficiencyLevel | 'unrated';
+
+export const COVERAGE_LEVELS: CoverageLevel[] = [...PROFICIENCY_LEVELS, 'unrated'];
+
+export interface SkillCoverage {
+    // Canonical taxonomy name where recognized.
+    skill: string;
+    category: SkillCategory | null;
+    holderIds: string[];
+    // Holders per proficiency level.
+    levels: Record<CoverageLevel, number>;
+}
+
+/** Every skill on the roster with who holds it at which level, most widely held first. */
+export const buildSkillCoverage = (employees: AnalyzedEmployee[], index: SkillIndex): SkillCoverage[] => {
+    const bySkill = new Map<string, SkillCoverage>();
+    for (const employee of employees) {
+        for (const skillName of employee.skills) {
+            const definition = findSkill(skillName, index);
+            const key = normalizeSkillKey(definition?.name ?? skillName);
+            if (!key) continue;
+            const coverage = bySkill.get(key) ?? {
+                skill: definition?.name ?? skillName.trim(),
+                category: definition?.category ?? null,
+                holderIds: [],
+                levels: { beginner: 0, intermediate: 0, advanced: 0, expert: 0, unrated: 0 },
+            };
+            // Two spellings of one skill on the same resume count once.
+            if (coverage.holderIds.includes(employee.id)) continue;
+            coverage.holderIds.push(employee.id);
+            coverage.levels[employee.skillLevels[skillName] ?? 'unrated']++;
+            bySkill.set(key, coverage);
+        }
+    }
+    return [...bySkill.values()].sort((a, b) => b.holderIds.length - a.holderIds.length || a.skill.localeCompare(b.skill));
+};
+
+/** Skills only one person on the roster holds, so the team loses them if that person is away. */
+export const singlePointSkills = (coverage: SkillCoverage[]): SkillCoverage[] =>
+    coverage.filter(entry => entry.holderIds.length === 1);
+
+export interface ExperienceBucket {
+    label: string;
+    // Inclusive lower bound in years; the last bucket is open-ended.
+    minYears: number;
+    employeeIds: string[];
+}
+
+const EXPERIENCE_BUCKETS: Omit<ExperienceBucket, 'employeeIds'>[] = [
+    { label: '0–1 yrs', minYears: 0 },
+    { label: '2–4 yrs', minYears: 2 },
+    { label: '5–9 yrs', minYears: 5 },
+    { label: '10–14 yrs', minYears: 10 },
+    { label: '15+ yrs', minYears: 15 },
+];
+
+export const experienceDistribution = (employees: AnalyzedEmployee[]): ExperienceBucket[] => {
+    const buckets = EXPERIENCE_BUCKETS.map(bucket => ({ ...bucket, employeeIds: [] as string[] }));
+    for (const employee of employees) {
+        const years = Math.max(0, Math.floor(employee.experienceYears));
+        [...buckets].reverse().find(bucket => years >= bucket.minYears)!.employeeIds.push(employee.id);
+    }
+    return buckets;
+};
+
+export const medianExperience = (employees: AnalyzedEmployee[]): number => {
+    const years = employees.map(emp => emp.experienceYears).sort((a, b) => a - b);
+    if (years.length === 0) return 0;
+    const middle = Math.floor(years.length / 2);
+    return years.length % 2 === 1 ? years[middle] : (years[middle - 1] + years[middle]) / 2;
+};
+
+export type GapStatus = 'missing' | 'single' | 'covered';
+
+export interface SkillGap {
+    skill: string;
+    status: GapStatus;
+    holderIds: string[];
+    // Highest rated level among the holders; null when nobody has a rating for it.
+    bestLevel: ProficiencyLevel | null;
+}
+
+/** What a target skill set draws on: a job profile's skills, the current tasks' skills, or both. */
+export const targetSkillsFor = (profile: JobProfile | null, tasks: Task[]): string[] => [
+    ...(profile ? [...profile.requiredSkills, ...profile.niceToHaveSkills] : []),
+    ...tasks.flatMap(task => task.requiredSkills),
+];
+
+/** Coverage of each target skill, worst covered first. Unknown target skills show up as missing. */
+export const findSkillGaps = (coverage: SkillCoverage[], targetSkills: string[], index: SkillIndex): SkillGap[] => {
+    const byKey = new Map(coverage.map(entry => [normalizeSkillKey(entry.skill), entry]));
+    const seen = new Set<string>();
+    const gaps: SkillGap[] = [];
+    for (const target of targetSkills) {
+        const name = findSkill(target, index)?.name ?? target.trim();
+        const key = normalizeSkillKey(name);
+        if (!key || seen.has(key)) continue;
+        seen.add(key);
+        const entry = byKey.get(key);
+        const holderIds = entry?.holderIds ?? [];
+        gaps.push({
+            skill: entry?.skill ?? name,
+            status: holderIds.length === 0 ? 'missing' : holderIds.length === 1 ? 'single' : 'covered',
+            holderIds,
+            bestLevel: entry ? [...PROFICIENCY_LEVELS].reverse().find(level => entry.levels[level] > 0) ?? null : null,
+        });
+    }
+    const order: Record<GapStatus, number> = { missing: 0, single: 1, covered: 2 };
+    return gaps.sort((a, b) => order[a.status] - order[b.status] || a.holderIds.length - b.holderIds.length || a.skill.localeCompare(b.skill));
+};
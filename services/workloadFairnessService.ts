@@ -0,0 +1,86 @@
+import type { AnalyzedEmployee, DayPlanRecord } from '../types';
+import { fromIsoDate, toIsoDate } from './taskAssignmentService';
+
+export const FAIRNESS_WINDOWS: { days: number; label: string }[] = [
+    { days: 7, label: 'Last week' },
+    { days: 30, label: 'Last month' },
+];
+
+export const DEFAULT_FAIRNESS_WINDOW_DAYS = 7;
+
+export interface WorkloadSummary {
+    employeeId: string;
+    taskCount: number;
+    effortHours: number;
+    undesirableCount: number;
+    undesirableHours: number;
+    // Days in the window on which this person had any work.
+    activeDays: number;
+}
+
+// How far someone sits above (positive) or below (negative) the team average, each in -1..1.
+export interface FairnessAdjustment {
+    effort: number;
+    undesirable: number;
+}
+
+/** The ISO dates of the `windowDays` days before `planDate`, oldest first. */
+export const windowDates = (planDate: string, windowDays: number): string[] => {
+    const end = fromIsoDate(planDate);
+    return Array.from({ length: windowDays }, (_, i) => {
+        const date = new Date(end);
+        date.setDate(end.getDate() - windowDays + i);
+        return toIsoDate(date);
+    });
+};
+
+/**
+ * Totals each employee's work over the days before `planDate`. The plan being made is
+ * left out, so redistributing it does not push against its own assignments.
+ */
+export const summarizeWorkload = (
+    history: DayPlanRecord[],
+    employees: AnalyzedEmployee[],
+    planDate: string,
+    windowDays: number,
+): WorkloadSummary[] => {
+    const dates = new Set(windowDates(planDate, windowDays));
+    const summaries = new Map<string, WorkloadSummary>(employees.map(emp => [emp.id, {
+        employeeId: emp.id,
+        taskCount: 0,
+        effortHours: 0,
+        undesirableCount: 0,
+        undesirableHours: 0,
+        activeDays: 0,
+    }]));
+    for (const record of history.filter(day => dates.has(day.date))) {
+        const activeToday = new Set<string>();
+        for (const entry of record.entries) {
+            const summary = summaries.get(entry.employeeId);
+            if (!summary) continue;
+            summary.taskCount += 1;
+            summary.effortHours += entry.effortHours;
+            if (entry.undesirable) {
+                summary.undesirableCount += 1;
+                summary.undesirableHours += entry.effortHours;
+            }
+            activeToday.add(entry.employeeId);
+        }
+        activeToday.forEach(id => summaries.get(id)!.activeDays += 1);
+    }
+    return [...summaries.values()];
+};
+
+const relativeToMean = (value: number, mean: number): number =>
+    mean === 0 ? 0 : Math.max(-1, Math.min(1, (value - mean) / mean));
+
+/** Compares each person's recent load with the team average, for the task solver to even out. */
+export const fairnessAdjustments = (summaries: WorkloadSummary[]): Map<string, FairnessAdjustment> => {
+    const mean = (values: number[]) => values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+    const meanEffort = mean(summaries.map(summary => summary.effortHours));
+    const meanUndesirable = mean(summaries.map(summary => summary.undesirableHours));
+    return new Map(summaries.map(summary => [summary.employeeId, {
+        effort: relativeToMean(summary.effortHours, meanEffort),
+        undesirable: relativeToMean(summary.undesirableHours, meanUndesirable),
+    }]));
+};
@@ -0,0 +1,156 @@
+import type { TaskAssignment, Workspace } from '../types';
+
+type MergedField = Exclude<keyof Workspace, 'version'>;
+
+// How a conflict is described to the person whose change could not be merged.
+export const WORKSPACE_FIELD_LABELS: Record<MergedField, string> = {
+    employees: 'the roster',
+    jobProfiles: 'job profiles',
+    activeProfileId: 'the active job profile',
+    rankings: 'rankings',
+    rankingHistory: 'ranking history',
+    blindRanking: 'blind ranking',
+    redactionPolicy: 'the redaction policy',
+    redactionLogs: 'the redaction log',
+    planDate: 'the plan date',
+    tasks: 'tasks',
+    assignments: 'task assignments',
+    taskTemplates: 'task templates',
+    planHistory: 'plan history',
+    fairnessWindowDays: 'the fairness window',
+    invalidations: 'outdated-result notices',
+    skillTaxonomy: 'the skill taxonomy',
+    dismissedDuplicates: 'dismissed duplicates',
+};
+
+const byField = (field: string) => (item: unknown): string => String((item as Record<string, unknown>)[field]);
+
+// Lists merged entry by entry, keyed by what identifies an entry. Assignments merge task by
+// task (see mergeAssignments); other fields are merged whole.
+const LIST_KEYS: Partial<Record<MergedField, (item: unknown) => string>> = {
+    employees: byField('id'),
+    jobProfiles: byField('id'),
+    rankingHistory: byField('id'),
+    redactionLogs: byField('id'),
+    tasks: byField('id'),
+    taskTemplates: byField('id'),
+    planHistory: byField('date'),
+    invalidations: byField('id'),
+    skillTaxonomy: byField('id'),
+    dismissedDuplicates: String,
+};
+
+// Key order differs between a copy built in the app and one parsed from the server.
+const canonicalJson = (value: unknown): string | undefined => JSON.stringify(value, (_key, nested: unknown) =>
+    nested && typeof nested === 'object' && !Array.isArray(nested)
+        ? Object.fromEntries(Object.entries(nested).sort(([a], [b]) => a.localeCompare(b)))
+        : nested);
+
+export const sameWorkspace = (a: Workspace, b: Workspace): boolean => canonicalJson(a) === canonicalJson(b);
+
+interface Merged<T> {
+    value: T;
+    conflict: boolean;
+}
+
+// Whichever side changed the value wins; when both changed it differently, the server's stays.
+const mergeValue = <T>(base: T, local: T, remote: T): Merged<T> => {
+    const [b, l, r] = [base, local, remote].map(canonicalJson);
+    if (l === b || l === r) return { value: remote, conflict: false };
+    if (r === b) return { value: local, conflict: false };
+    return { value: remote, conflict: true };
+};
+
+const mergeList = (base: unknown[], local: unknown[], remote: unknown[], keyOf: (item: unknown) => string): Merged<unknown[]> => {
+    const [b, l, r] = [base, local, remote].map(list => new Map<string, unknown>(list.map(item => [keyOf(item), item])));
+    let conflict = false;
+    const value: unknown[] = [];
+    // The server's order, then entries only this copy added.
+    for (const key of new Set([...r.keys(), ...l.keys()])) {
+        const merged = mergeValue(b.get(key), l.get(key), r.get(key));
+        conflict ||= merged.conflict;
+        if (merged.value !== undefined) value.push(merged.value);
+    }
+    return { value, conflict };
+};
+
+const mergeRecord = (base: Record<string, unknown>, local: Record<string, unknown>, remote: Record<string, unknown>): Merged<Record<string, unknown>> => {
+    let conflict = false;
+    const value: Record<string, unknown> = {};
+    for (const key of new Set([...Object.keys(remote), ...Object.keys(local)])) {
+        const merged = mergeValue(base[key], local[key], remote[key]);
+        conflict ||= merged.conflict;
+        if (merged.value !== undefined) value[key] = merged.value;
+    }
+    return { value, conflict };
+};
+
+interface TaskOwner {
+    employeeId: string;
+    pinned: boolean;
+}
+
+const taskOwners = (assignments: TaskAssignment[]): Map<string, TaskOwner> => {
+    const owners = new Map<string, TaskOwner>();
+    for (const { employeeId, taskIds, pinnedTaskIds } of assignments) {
+        for (const taskId of taskIds) {
+            if (!owners.has(taskId)) owners.set(taskId, { employeeId, pinned: pinnedTaskIds.includes(taskId) });
+        }
+    }
+    return owners;
+};
+
+/**
+ * Merges who holds each task, so a task one side moved is not also kept by its old
+ * assignee. Tasks and people missing from the merged workspace are dropped, since
+ * either side may have removed them.
+ */
+const mergeAssignments = (base: Workspace, local: Workspace, remote: Workspace, merged: Pick<Workspace, 'tasks' | 'employees'>): Merged<TaskAssignment[]> => {
+    const [b, l, r] = [base, local, remote].map(workspace => taskOwners(workspace.assignments));
+    const taskIds = new Set(merged.tasks.map(task => task.id));
+    const employeeIds = new Set(merged.employees.map(employee => employee.id));
+    const byEmployee = new Map<string, TaskAssignment>();
+    let conflict = false;
+    // Each person's tasks in the server's order, then tasks only this copy assigned.
+    for (const taskId of new Set([...r.keys(), ...l.keys()])) {
+        const owner = mergeValue(b.get(taskId), l.get(taskId), r.get(taskId));
+        conflict ||= owner.conflict;
+        if (!owner.value || !taskIds.has(taskId) || !employeeIds.has(owner.value.employeeId)) continue;
+        const { employeeId, pinned } = owner.value;
+        const assignment = byEmployee.get(employeeId) ?? { employeeId, taskIds: [], pinnedTaskIds: [] };
+        assignment.taskIds.push(taskId);
+        if (pinned) assignment.pinnedTaskIds.push(taskId);
+        byEmployee.set(employeeId, assignment);
+    }
+    return { value: [...byEmployee.values()], conflict };
+};
+
+export interface WorkspaceMerge {
+    workspace: Workspace;
+    // Labels of the parts both sides changed differently; the server's version was kept for those.
+    conflicts: string[];
+}
+
+/**
+ * Three-way merge of this copy's changes since `base` with the server's. Employees, tasks
+ * and other listed entries merge one by one, so two managers editing different people
+ * do not collide; only the same entry or setting changed on both sides is a conflict.
+ */
+export const mergeWorkspaces = (base: Workspace, local: Workspace, remote: Workspace): WorkspaceMerge => {
+    const workspace: Record<string, unknown> = { ...remote };
+    const conflicts: string[] = [];
+    // Assignments come after employees and tasks, which they are checked against.
+    for (const field of Object.keys(WORKSPACE_FIELD_LABELS) as MergedField[]) {
+        const keyOf = LIST_KEYS[field];
+        const merged = keyOf
+            ? mergeList(base[field] as unknown[], local[field] as unknown[], remote[field] as unknown[], keyOf)
+            : field === 'rankings'
+                ? mergeRecord(base.rankings, local.rankings, remote.rankings)
+                : field === 'assignments'
+                    ? mergeAssignments(base, local, remote, workspace as unknown as Workspace)
+                    : mergeValue<unknown>(base[field], local[field], remote[field]);
+        workspace[field] = merged.value;
+        if (merged.conflict) conflicts.push(WORKSPACE_FIELD_LABELS[field]);
+    }
+    return { workspace: workspace as unknown as Workspace, conflicts };
+};
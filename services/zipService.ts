@@ -0,0 +1,80 @@
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+
+const COMPRESSION_STORED = 0;
+const COMPRESSION_DEFLATE = 8;
+
+export interface ZipEntry {
+    name: string;
+    data: Uint8Array;
+}
+
+const findEndOfCentralDirectory = (view: DataView): number => {
+    // The record is 22 bytes plus a comment of up to 65535 bytes at the end of the archive.
+    const minOffset = Math.max(0, view.byteLength - 22 - 0xffff);
+    for (let offset = view.byteLength - 22; offset >= minOffset; offset--) {
+        if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+            return offset;
+        }
+    }
+    throw new Error("The file is not a valid ZIP archive.");
+};
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Reads the entries of a ZIP archive that match `filter`, using the browser's
+ * DecompressionStream. Only stored and deflated entries are supported (no ZIP64 or encryption).
+ */
+export const readZipEntries = async (file: File, filter: (name: string) => boolean): Promise<ZipEntry[]> => {
+    const buffer = await file.arrayBuffer();
+    const view = new DataView(buffer);
+    const bytes = new Uint8Array(buffer);
+    const decoder = new TextDecoder();
+
+    const eocd = findEndOfCentralDirectory(view);
+    const entryCount = view.getUint16(eocd + 10, true);
+    let offset = view.getUint32(eocd + 16, true);
+
+    const entries: ZipEntry[] = [];
+    for (let i = 0; i < entryCount; i++) {
+        if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_SIGNATURE) {
+            throw new Error("The ZIP archive's directory is corrupted.");
+        }
+        const flags = view.getUint16(offset + 8, true);
+        const method = view.getUint16(offset + 10, true);
+        const compressedSize = view.getUint32(offset + 20, true);
+        const nameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const commentLength = view.getUint16(offset + 32, true);
+        const localHeaderOffset = view.getUint32(offset + 42, true);
+        const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+        offset += 46 + nameLength + extraLength + commentLength;
+
+        if (name.endsWith('/') || !filter(name)) continue;
+        if (flags & 0x1) {
+            throw new Error(`"${name}" in the ZIP archive is encrypted.`);
+        }
+        if (view.getUint32(localHeaderOffset, true) !== LOCAL_FILE_HEADER_SIGNATURE) {
+            throw new Error("The ZIP archive is corrupted.");
+        }
+
+        const dataStart = localHeaderOffset + 30
+            + view.getUint16(localHeaderOffset + 26, true)
+            + view.getUint16(localHeaderOffset + 28, true);
+        const compressed = bytes.subarray(dataStart, dataStart + compressedSize);
+
+        if (method === COMPRESSION_STORED) {
+            entries.push({ name, data: compressed.slice() });
+        } else if (method === COMPRESSION_DEFLATE) {
+            entries.push({ name, data: await inflateRaw(compressed) });
+        } else {
+            throw new Error(`"${name}" uses an unsupported ZIP compression method.`);
+        }
+    }
+    return entries;
+};
@@ -1,17 +1,354 @@
+export interface WorkExperience {
+  employer: string;
+  title: string;
+  // "YYYY-MM" where known, otherwise "YYYY"; endDate is "Present" for a current role.
+  startDate: string;
+  endDate: string;
+}
+
+export interface Education {
+  institution: string;
+  degree: string;
+  field: string;
+  graduationYear: string;
+}
+
+export interface Certification {
+  name: string;
+  issuer: string;
+  year: string;
+}
+
+export interface ContactInfo {
+  email: string;
+  phone: string;
+  // Profile and portfolio URLs such as LinkedIn, GitHub or a personal site.
+  links: string[];
+}
+
+export type SkillCategory = 'language' | 'framework' | 'tool' | 'platform' | 'soft-skill' | 'domain';
+
+export type ProficiencyLevel = 'beginner' | 'intermediate' | 'advanced' | 'expert';
+
+export interface SkillDefinition {
+  id: string;
+  // Canonical name shown everywhere a skill appears.
+  name: string;
+  // Alternative spellings and abbreviations that resolve to this skill.
+  aliases: string[];
+  category: SkillCategory;
+}
+
 export interface AnalyzedEmployee {
   id: string;
   name: string;
   summary: string;
+  // Canonical taxonomy names where recognized; unrecognized skills are kept as extracted.
   skills: string[];
+  // Proficiency per skill, keyed by the same names as `skills`.
+  skillLevels: Record<string, ProficiencyLevel>;
   experienceYears: number;
+  workHistory: WorkExperience[];
+  education: Education[];
+  certifications: Certification[];
+  languages: string[];
+  location: string;
+  contact: ContactInfo;
+  // Hours this person can take on in a task plan.
+  capacityHours: number;
+  // Missing for employees imported from older workspaces.
+  provenance?: EmployeeProvenance;
+  // Resumes of duplicate entries merged into this one, oldest first.
+  resumeHistory?: ResumeVersion[];
+}
+
+// Fields a resume analysis fills in; everything else is assigned by the app.
+export type ResumeField = Exclude<keyof AnalyzedEmployee, 'id' | 'capacityHours' | 'provenance' | 'resumeHistory'>;
+
+export interface EmployeeProvenance {
+  // Values as the model last extracted them, before any manual edits.
+  extracted: Pick<AnalyzedEmployee, ResumeField>;
+  // ISO timestamp of that analysis.
+  extractedAt: string;
+  providerLabel: string;
+  model: string;
+  sourceFileName: string;
+  // SHA-256 of the resume file, hex encoded; missing for employees added before duplicate detection.
+  sourceFileHash?: string;
+  // Fields edited by hand since. Their values are kept when the resume is re-analyzed.
+  manualFields: ResumeField[];
+}
+
+// An earlier roster entry for the same person, kept when duplicates are merged.
+export interface ResumeVersion {
+  // Id of the merged-away entry; its resume file stays stored under this id.
+  employeeId: string;
+  details: Pick<AnalyzedEmployee, ResumeField>;
+  provenance?: EmployeeProvenance;
+  // ISO timestamp.
+  mergedAt: string;
+}
+
+export interface ScoreBreakdown {
+  // Locally computed sub-scores, each 0-100.
+  skillMatch: number;
+  experience: number;
+  seniority: number;
+  domainFit: number;
+  // Weighted combination of the sub-scores before the LLM adjustment.
+  baseScore: number;
+  // Bounded qualitative nudge from the LLM review.
+  llmAdjustment: number;
 }
 
 export interface RankedEmployee extends AnalyzedEmployee {
   rank: number;
   justification: string;
+  breakdown: ScoreBreakdown;
+}
+
+export type TaskPriority = 'low' | 'medium' | 'high' | 'critical';
+
+export interface Task {
+  id: string;
+  title: string;
+  effortHours: number;
+  requiredSkills: string[];
+  priority: TaskPriority;
+  // ISO date (YYYY-MM-DD), or empty when there is no deadline.
+  deadline: string;
+  // Ids of tasks that must finish before this one starts.
+  dependencies: string[];
+  // Work people would rather avoid; it is spread across the team over time.
+  undesirable: boolean;
+}
+
+export interface TaskTemplate {
+  id: string;
+  name: string;
+  // Copied into the day's task list, with fresh ids, whenever the template is applied.
+  tasks: Task[];
+  // Weekdays (0 = Sunday) whose new day plans get this template automatically; empty for manual use only.
+  repeatOn: number[];
+}
+
+export interface PlanHistoryEntry {
+  employeeId: string;
+  // Snapshotted so history still reads correctly after renames and deletions.
+  employeeName: string;
+  taskTitle: string;
+  effortHours: number;
+  priority: TaskPriority;
+  undesirable: boolean;
+}
+
+// What one day's plan looked like when the next day was started.
+export interface DayPlanRecord {
+  // ISO date (YYYY-MM-DD).
+  date: string;
+  entries: PlanHistoryEntry[];
+  unassignedCount: number;
+}
+
+// The employee fields a ranking run scored, snapshotted so later runs can tell whether inputs changed.
+export type RankingInput = Pick<AnalyzedEmployee, 'id' | 'name' | 'summary' | 'skills' | 'skillLevels' | 'experienceYears' | 'workHistory'>;
+
+export interface RankingRunResult {
+  employeeId: string;
+  rank: number;
+  justification: string;
+  breakdown: ScoreBreakdown;
+}
+
+export interface RankingRun {
+  id: string;
+  profileId: string;
+  // ISO timestamp.
+  createdAt: string;
+  providerLabel: string;
+  model: string;
+  promptVersion: string;
+  inputs: {
+    profile: JobProfile;
+    employees: RankingInput[];
+  };
+  // Best first.
+  results: RankingRunResult[];
+}
+
+export type PiiKind = 'email' | 'phone' | 'url' | 'address' | 'date-of-birth';
+
+export interface RedactionPolicy {
+  enabled: boolean;
+  kinds: Record<PiiKind, boolean>;
+  // Scanned pages with little or no text layer cannot be fully checked for PII; withhold them instead of sending them as-is.
+  withholdUnverifiedPages: boolean;
+}
+
+export interface RedactionEntry {
+  kind: PiiKind;
+  source: 'text' | 'image';
+  // 1-based page number for masked page images.
+  page?: number;
+  // Partially masked value, e.g. "ja••••••om".
+  preview: string;
+}
+
+export interface RedactionLog {
+  id: string;
+  fileName: string;
+  // ISO timestamp.
+  createdAt: string;
+  // The employee created from this resume, once analysis succeeded.
+  employeeId?: string;
+  entries: RedactionEntry[];
+  unverifiedPages: number[];
+  withheldPages: number[];
 }
 
 export interface TaskAssignment {
   employeeId: string;
-  tasks: string[];
+  // In scheduled order.
+  taskIds: string[];
+  // Tasks placed by hand that redistribution must leave with this person.
+  pinnedTaskIds: string[];
+}
+
+export type AssignmentIssueKind =
+  | 'unassigned'
+  | 'duplicated'
+  | 'unknown-task'
+  | 'unknown-employee'
+  | 'over-capacity'
+  | 'missed-deadline'
+  | 'blocked'
+  | 'skill-gap';
+
+export interface AssignmentIssue {
+  kind: AssignmentIssueKind;
+  message: string;
+  taskId?: string;
+  employeeId?: string;
+}
+
+// A fact an assistant answer relied on, tied to the employee it is about.
+export interface RosterCitation {
+  employeeId: string;
+  // The resume, ranking or assignment detail, in a few words.
+  fact: string;
+}
+
+// A task move the assistant suggests; nothing changes until someone applies it.
+export interface ProposedReassignment {
+  taskId: string;
+  // Null moves the task back to the unassigned pool.
+  toEmployeeId: string | null;
+  reason: string;
+}
+
+export type ProposalStatus = 'proposed' | 'applied' | 'dismissed';
+
+export interface RosterChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  text: string;
+  // Assistant answers only.
+  citations: RosterCitation[];
+  proposals: (ProposedReassignment & { status: ProposalStatus })[];
+}
+
+export type LlmProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+export interface ProviderModels {
+  fast: string;
+  reasoning: string;
+}
+
+// Chosen per browser and sent with each request; credentials and endpoints are configured on the API server.
+export interface LlmSettings {
+  provider: LlmProviderId;
+  models: Record<LlmProviderId, ProviderModels>;
+}
+
+export interface WeightedCriterion {
+  name: string;
+  // Relative importance from 1 (minor) to 5 (critical).
+  weight: number;
+}
+
+export type ScoreComponent = 'skillMatch' | 'experience' | 'seniority' | 'domainFit';
+
+// Relative weights of each sub-score; they are normalized by their sum when scoring.
+export type ScoringWeights = Record<ScoreComponent, number>;
+
+export interface JobProfile {
+  id: string;
+  title: string;
+  requiredSkills: string[];
+  niceToHaveSkills: string[];
+  minExperienceYears: number;
+  criteria: WeightedCriterion[];
+  scoringWeights: ScoringWeights;
+}
+
+export type InvalidationScope = 'ranking' | 'assignments';
+
+// Records that a ranking or task plan was built from data that has since changed,
+// so the result stays visible but flagged until it is rebuilt or dismissed.
+export interface Invalidation {
+  id: string;
+  scope: InvalidationScope;
+  // The ranking affected; set for ranking invalidations only.
+  profileId?: string;
+  // Set when a change to one employee caused it.
+  employeeId?: string;
+  reason: string;
+  // ISO timestamp.
+  createdAt: string;
+}
+
+export interface Workspace {
+  version: number;
+  employees: AnalyzedEmployee[];
+  jobProfiles: JobProfile[];
+  activeProfileId: string;
+  // Ranking results keyed by the JobProfile id they were scored against.
+  rankings: Record<string, RankedEmployee[]>;
+  // Every ranking run, oldest first, capped per profile.
+  rankingHistory: RankingRun[];
+  // Rank with pseudonyms in place of names.
+  blindRanking: boolean;
+  redactionPolicy: RedactionPolicy;
+  // Newest last, capped.
+  redactionLogs: RedactionLog[];
+  // ISO date (YYYY-MM-DD) the current tasks and assignments are planned for.
+  planDate: string;
+  tasks: Task[];
+  assignments: TaskAssignment[];
+  taskTemplates: TaskTemplate[];
+  // One record per finished day, oldest first, capped.
+  planHistory: DayPlanRecord[];
+  // Days of history the fairness metrics and distribution look back over.
+  fairnessWindowDays: number;
+  // Oldest first, capped.
+  invalidations: Invalidation[];
+  skillTaxonomy: SkillDefinition[];
+  // Pairs of employees marked as different people, so they are not flagged as duplicates again.
+  dismissedDuplicates: string[];
+}
+
+export type ResumeQueueStatus = 'pending' | 'duplicate' | 'extracting' | 'analyzing' | 'done' | 'failed' | 'cancelled';
+
+export interface ResumeQueueItem {
+  id: string;
+  file: File;
+  status: ResumeQueueStatus;
+  error?: string;
+  // Name extracted from the resume once analysis has finished.
+  employeeName?: string;
+  fileHash?: string;
+  // What already has this exact file, when the item is held as a duplicate.
+  duplicateOf?: string;
+  // Set when someone chose to add a held duplicate anyway.
+  allowDuplicate?: boolean;
 }
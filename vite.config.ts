@@ -2,18 +2,31 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '::1'];
+
+export default defineConfig(({ command, mode }) => {
     const env = loadEnv(mode, '.', '');
+    // API keys stay with the API server (npm run server); the app reaches it through this proxy.
+    const proxy = { '/api': `http://localhost:${env.API_PORT || 3001}` };
+    // Whoever reaches the app reaches the API through the proxy, so other machines need the server's token.
+    const host = env.APP_HOST || 'localhost';
+    const allowedHosts = (env.ALLOWED_HOSTS ?? '').split(',').map(name => name.trim()).filter(Boolean);
+    if (command === 'serve' && !LOCAL_HOSTS.includes(host) && !env.API_TOKEN) {
+      throw new Error(`APP_HOST=${host} makes the app reachable from other machines; set API_TOKEN on the API server too.`);
+    }
     return {
       server: {
         port: 3000,
-        host: '0.0.0.0',
+        host,
+        allowedHosts,
+        proxy,
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      preview: {
+        host,
+        allowedHosts,
+        proxy,
       },
+      plugins: [react()],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),